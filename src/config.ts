@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import path from 'path';
 import fs from 'fs';
+import { SignatureProviderName } from './types';
 
 // Load environment variables
 dotenv.config();
@@ -40,6 +41,92 @@ export function isUserExempted(username: string): boolean {
   return config.cla.exemptedUsers.includes(username.toLowerCase());
 }
 
+export type CLAStatusReporting = 'checks' | 'statuses' | 'both';
+
+/**
+ * Parse how the CLA result is reported on commits: check runs (default),
+ * legacy commit statuses for branch protections that still expect them, or both.
+ */
+function parseStatusReporting(): CLAStatusReporting {
+  const value = (process.env.CLA_STATUS_REPORTING || 'checks').trim().toLowerCase();
+  if (value === 'checks' || value === 'statuses' || value === 'both') {
+    return value;
+  }
+  throw new Error(`Invalid CLA_STATUS_REPORTING "${value}", expected checks, statuses or both`);
+}
+
+/**
+ * Parse the reminder schedule: days after an agreement was sent at which the
+ * contributor is reminded to sign, e.g. "3,7,14". An empty value disables reminders.
+ */
+function parseReminderDays(): number[] {
+  const value = process.env.CLA_REMINDER_DAYS ?? '3,7,14';
+  const days = value
+    .split(',')
+    .map((d) => d.trim())
+    .filter((d) => d.length > 0)
+    .map(Number);
+  if (days.some((d) => !Number.isInteger(d) || d <= 0)) {
+    throw new Error(`Invalid CLA_REMINDER_DAYS "${value}", expected a list of days such as 3,7,14`);
+  }
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/**
+ * Parse where contributors sign: Concord (default), or the built-in
+ * click-through agreement that needs no external service
+ */
+function parseSignatureProvider(): SignatureProviderName {
+  const value = (process.env.CLA_SIGNATURE_PROVIDER || 'concord').trim().toLowerCase();
+  if (value === 'concord' || value === 'clickthrough') {
+    return value;
+  }
+  throw new Error(`Invalid CLA_SIGNATURE_PROVIDER "${value}", expected concord or clickthrough`);
+}
+
+// Language tags such as "en", "fr" or "pt-BR"; also used as template directory names
+export const LANGUAGE_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})?$/i;
+
+function parseLanguage(): string {
+  const value = (process.env.CLA_LANGUAGE || 'en').trim();
+  if (LANGUAGE_PATTERN.test(value)) {
+    return value;
+  }
+  throw new Error(`Invalid CLA_LANGUAGE "${value}", expected a language code such as en or fr`);
+}
+
+/**
+ * Parse accepted GitHub webhook secrets.
+ * GITHUB_WEBHOOK_SECRET is the current secret; GITHUB_WEBHOOK_SECRETS can list
+ * additional comma-separated secrets still accepted while a rotation is in progress.
+ */
+function parseWebhookSecrets(): string[] {
+  const secrets = [
+    process.env.GITHUB_WEBHOOK_SECRET || '',
+    ...(process.env.GITHUB_WEBHOOK_SECRETS || '').split(','),
+  ]
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+
+  return Array.from(new Set(secrets));
+}
+
+/**
+ * Parse the GitHub team granted admin access, given as "org/team-slug"
+ */
+function parseAdminTeam(): { org: string; slug: string } | null {
+  const value = (process.env.ADMIN_GITHUB_TEAM || '').trim();
+  if (!value) {
+    return null;
+  }
+
+  const [org, slug] = value.split('/');
+  if (!org || !slug) {
+    throw new Error(`Invalid ADMIN_GITHUB_TEAM "${value}", expected "org/team-slug"`);
+  }
+  return { org, slug };
+}
+
 function getPrivateKey(): string {
   // First try base64 encoded key
   if (process.env.GITHUB_PRIVATE_KEY_BASE64) {
@@ -65,7 +152,13 @@ export const config = {
   github: {
     appId: process.env.GITHUB_APP_ID || '',
     getPrivateKey,
-    webhookSecret: process.env.GITHUB_WEBHOOK_SECRET || '',
+    // Tried in turn, so the secret can be rotated without downtime
+    webhookSecrets: parseWebhookSecrets(),
+    // OAuth credentials of the GitHub App, used to sign in to the dashboard
+    clientId: process.env.GITHUB_CLIENT_ID || '',
+    clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+    // Slug of the GitHub App, so commands can also be written as "@filigran-cla recheck"
+    appSlug: process.env.GITHUB_APP_SLUG || 'filigran-cla',
   },
 
   // Concord
@@ -74,6 +167,14 @@ export const config = {
     apiUrl: process.env.CONCORD_API_URL || 'https://api.concordnow.com/api/rest/1',
     organizationId: process.env.CONCORD_ORGANIZATION_ID || '',
     templateId: process.env.CONCORD_TEMPLATE_ID || '',
+    // Automated template of the corporate CLA (CCLA), signed once per company
+    corporateTemplateId: process.env.CONCORD_CCLA_TEMPLATE_ID || '',
+    // Shared secret used to sign webhook bodies (HMAC-SHA256)
+    webhookSecret: process.env.CONCORD_WEBHOOK_SECRET || '',
+    // Static token expected in the X-Concord-Token header or the `token` query parameter
+    webhookToken: process.env.CONCORD_WEBHOOK_TOKEN || '',
+    // Events older than this are rejected as replays
+    webhookMaxAgeSeconds: parseInt(process.env.CONCORD_WEBHOOK_MAX_AGE_SECONDS || '300', 10),
   },
 
   // Database
@@ -81,12 +182,90 @@ export const config = {
     path: process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'cla.db'),
   },
 
+  // Webhook event queue
+  queue: {
+    pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '1000', 10),
+    maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '8', 10),
+    // Retry delay doubles on every attempt, starting at the base and capped at the max
+    retryBaseDelaySeconds: parseInt(process.env.QUEUE_RETRY_BASE_DELAY_SECONDS || '10', 10),
+    retryMaxDelaySeconds: parseInt(process.env.QUEUE_RETRY_MAX_DELAY_SECONDS || '3600', 10),
+    // Processed events are kept this long for deduplication and inspection
+    retentionDays: parseInt(process.env.QUEUE_RETENTION_DAYS || '14', 10),
+  },
+
+  // Background reconciliation of pending CLAs with Concord and of open PRs with GitHub
+  reconciliation: {
+    // 0 disables the scheduled runs; they can still be started through the admin API
+    intervalMinutes: parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || '60', 10),
+    // Concord calls and PR re-evaluations a run may make before it stops
+    maxApiCalls: parseInt(process.env.RECONCILIATION_MAX_API_CALLS || '300', 10),
+  },
+
+  // Reminders emailed to contributors whose agreement is still unsigned
+  reminders: {
+    days: parseReminderDays(),
+  },
+
+  // Pending agreements cancelled once unsigned for this many days with no open PR (0 disables)
+  agreementCleanup: {
+    abandonedDays: parseInt(process.env.CLA_ABANDONED_AGREEMENT_DAYS || '90', 10),
+  },
+
+  // Prometheus metrics on /metrics
+  metrics: {
+    // Bearer token required to scrape the metrics (open when empty)
+    token: process.env.METRICS_TOKEN || '',
+  },
+
+  // Admin API
+  admin: {
+    // Bearer tokens accepted on /admin/api (comma-separated)
+    apiTokens: (process.env.ADMIN_API_TOKENS || '')
+      .split(',')
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0),
+    // Members of this team ("org/team-slug") can use their GitHub token instead.
+    // The admin API is disabled when neither tokens nor a team are configured.
+    githubTeam: parseAdminTeam(),
+    // Where documents uploaded with manual (paper) signatures are stored
+    documentsPath: process.env.ADMIN_DOCUMENTS_PATH || path.join(process.cwd(), 'data', 'documents'),
+    // Signs dashboard and signing page session cookies; the dashboard also needs
+    // the admin team and OAuth credentials
+    sessionSecret: process.env.DASHBOARD_SESSION_SECRET || '',
+    sessionTtlHours: parseInt(process.env.DASHBOARD_SESSION_TTL_HOURS || '12', 10),
+  },
+
+  // Built-in click-through signing (CLA_SIGNATURE_PROVIDER=clickthrough)
+  clickthrough: {
+    // Text of the agreement contributors accept, shown on the signing page
+    agreementPath: process.env.CLICKTHROUGH_AGREEMENT_PATH || '',
+    // Comment a contributor posts on the PR to sign, exactly as written
+    signPhrase: (process.env.CLICKTHROUGH_SIGN_PHRASE || 'I have read the CLA Document and I hereby sign the CLA').trim(),
+  },
+
   // CLA Configuration
   cla: {
     // GitHub usernames exempted from CLA (e.g., Filigran employees)
     // Can be set via env var as comma-separated list or in code
     exemptedUsers: parseExemptedUsers(),
     skipOrgMemberCheck: process.env.CLA_SKIP_ORG_MEMBER_CHECK === 'true',
+    // Where contributors sign their agreement
+    signatureProvider: parseSignatureProvider(),
+    // Name of the check run / commit status context
+    checkName: 'filigran/cla',
+    statusReporting: parseStatusReporting(),
+    // A 'creating' claim older than this is considered abandoned (crashed process)
+    creationClaimTimeoutSeconds: parseInt(process.env.CLA_CREATION_CLAIM_TIMEOUT_SECONDS || '120', 10),
+    // Minimum delay between two `/cla recheck` or `/cla resend` runs on the same PR
+    commandCooldownSeconds: parseInt(process.env.CLA_COMMAND_COOLDOWN_SECONDS || '60', 10),
+    // Version registered for CONCORD_TEMPLATE_ID when the database has no CLA version yet
+    initialVersion: process.env.CLA_INITIAL_VERSION || '1',
+    // Name used in comments and emails, so other organizations can reuse the bot
+    organizationName: process.env.CLA_ORGANIZATION_NAME || 'Filigran',
+    // Language of comments and emails for repositories that do not choose one
+    language: parseLanguage(),
+    // Directory of custom templates, laid out as <language>/<template>.mustache
+    templatesPath: process.env.CLA_TEMPLATES_PATH || '',
   },
 
   // CLA Labels
@@ -96,20 +275,54 @@ export const config = {
     description: 'CLA signature required',
   },
 
+  // Label of PRs closed because their CLA stayed unsigned
+  claExpiredLabel: {
+    name: 'cla:expired',
+    color: 'b60205',
+    description: 'Closed because the CLA was not signed',
+  },
+
 };
 
+/**
+ * Whether Concord is used: as the signature provider, or with clickthrough for
+ * corporate CLAs when its credentials are set. The Concord webhook is only
+ * accepted then.
+ */
+export function isConcordConfigured(): boolean {
+  return config.cla.signatureProvider === 'concord'
+    || Boolean(config.concord.apiKey && config.concord.organizationId);
+}
+
 export function validateConfig(): void {
   const required = [
     ['GITHUB_APP_ID', config.github.appId],
-    ['GITHUB_WEBHOOK_SECRET', config.github.webhookSecret],
-    ['CONCORD_API_KEY', config.concord.apiKey],
-    ['CONCORD_ORGANIZATION_ID', config.concord.organizationId],
-    ['CONCORD_TEMPLATE_ID', config.concord.templateId],
+    ['GITHUB_WEBHOOK_SECRET', config.github.webhookSecrets.join(',')],
   ];
 
+  if (config.cla.signatureProvider === 'concord') {
+    required.push(
+      ['CONCORD_API_KEY', config.concord.apiKey],
+      ['CONCORD_ORGANIZATION_ID', config.concord.organizationId],
+      ['CONCORD_TEMPLATE_ID', config.concord.templateId],
+    );
+  } else {
+    required.push(['CLICKTHROUGH_AGREEMENT_PATH', config.clickthrough.agreementPath]);
+    required.push(['CLICKTHROUGH_SIGN_PHRASE', config.clickthrough.signPhrase]);
+  }
+
+  // Unauthenticated Concord webhooks could mark any CLA as signed
+  if (isConcordConfigured() && config.nodeEnv === 'production') {
+    required.push(['CONCORD_WEBHOOK_SECRET', config.concord.webhookSecret]);
+  }
+
   const missing = required.filter(([, value]) => !value).map(([name]) => name);
 
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
+
+  if (config.cla.signatureProvider === 'clickthrough' && !fs.existsSync(config.clickthrough.agreementPath)) {
+    throw new Error(`CLICKTHROUGH_AGREEMENT_PATH "${config.clickthrough.agreementPath}" does not exist`);
+  }
 }
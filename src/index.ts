@@ -1,19 +1,27 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { config, validateConfig } from './config';
+import { config, isConcordConfigured, validateConfig } from './config';
 import { initDatabase, closeDatabase } from './services/database';
 import { logger } from './utils/logger';
-import githubRoutes from './routes/github';
-import concordRoutes from './routes/concord';
+import { captureRawBody, safeCompare } from './utils/webhook';
+import githubRoutes, { processGitHubEvent } from './routes/github';
+import concordRoutes, { processConcordEvent } from './routes/concord';
+import adminRoutes from './routes/admin';
+import dashboardRoutes from './routes/dashboard';
+import signRoutes from './routes/sign';
 import { listAutomatedTemplates } from './services/concord';
+import * as queue from './services/queue';
+import * as metricsService from './services/metrics';
+import * as agreementCleanup from './services/agreementCleanup';
+import * as autoClose from './services/autoClose';
+import * as reconciliation from './services/reconciliation';
+import * as reminders from './services/reminders';
+import * as signatureService from './services/signature';
 
 const app = express();
 
 // Trust proxy for proper IP detection behind load balancers
 app.set('trust proxy', 1);
 
-// JSON body parser
-app.use(express.json());
-
 // Request logging middleware
 app.use((req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
@@ -29,6 +37,14 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// The GitHub webhook parses its own raw body for signature verification, and
+// the admin API accepts larger bodies, so both are mounted before the JSON body parser
+app.use('/github', githubRoutes);
+app.use('/admin/api', adminRoutes);
+
+// JSON body parser (keeps the raw bytes for webhook signature checks)
+app.use(express.json({ verify: captureRawBody }));
+
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
   res.json({
@@ -39,9 +55,23 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
-// Mount routes
-app.use('/github', githubRoutes);
-app.use('/concord', concordRoutes);
+// Prometheus metrics, behind a bearer token when METRICS_TOKEN is set
+app.get('/metrics', (req: Request, res: Response) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (config.metrics.token && !safeCompare(config.metrics.token, token)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  res.type('text/plain; version=0.0.4').send(metricsService.render());
+});
+
+// Mount routes. The Concord webhook is only accepted when Concord is used.
+if (isConcordConfigured()) {
+  app.use('/concord', concordRoutes);
+}
+app.use('/dashboard', dashboardRoutes);
+app.use('/sign', signRoutes);
 
 // API info endpoint
 app.get('/', (req: Request, res: Response) => {
@@ -51,13 +81,16 @@ app.get('/', (req: Request, res: Response) => {
     description: 'Contributor License Agreement management for Filigran open source projects',
     endpoints: {
       health: '/health',
+      metrics: '/metrics',
       github: {
         webhook: '/github/webhook',
       },
-      concord: {
-        webhook: '/concord/webhook',
-        health: '/concord/health',
-      },
+      concord: isConcordConfigured()
+        ? { webhook: '/concord/webhook', health: '/concord/health' }
+        : undefined,
+      admin: '/admin/api',
+      dashboard: '/dashboard',
+      sign: '/sign',
     },
     documentation: 'https://github.com/FiligranHQ/filigran-cla',
   });
@@ -89,6 +122,11 @@ app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
 // Graceful shutdown
 function shutdown() {
   logger.info('Shutting down...');
+  queue.stopWorker();
+  reconciliation.stopScheduler();
+  reminders.stopScheduler();
+  autoClose.stopScheduler();
+  agreementCleanup.stopScheduler();
   closeDatabase();
   process.exit(0);
 }
@@ -106,27 +144,55 @@ async function start() {
     // Initialize database
     initDatabase();
 
-    // List available automated templates for debugging
-    logger.info('Checking Concord automated templates...', {
-      configuredTemplateId: config.concord.templateId,
-      organizationId: config.concord.organizationId,
-    });
-    const templates = await listAutomatedTemplates();
-    if (templates.length === 0) {
-      logger.warn('No automated templates found! Make sure your template is set as "Automated" in Concord.');
-    } else {
-      const configuredTemplate = templates.find(t => t.uid === config.concord.templateId);
-      if (configuredTemplate) {
-        logger.info('Configured template found', { 
-          uid: configuredTemplate.uid, 
-          title: configuredTemplate.title,
-        });
+    // Process queued webhook events in the background
+    queue.registerHandler('github', processGitHubEvent);
+    queue.registerHandler('concord', processConcordEvent);
+    queue.startWorker();
+
+    // Periodically repair CLAs and PRs left behind by missed webhooks
+    reconciliation.startScheduler();
+
+    // Remind contributors who have not signed their agreement yet
+    reminders.startScheduler();
+
+    // Close PRs whose CLA stays unsigned in repositories that opted in
+    autoClose.startScheduler();
+
+    // Cancel the agreements of contributors who left without signing
+    agreementCleanup.startScheduler();
+
+    if (config.cla.signatureProvider === 'concord') {
+      logger.info(signatureService.isSigningPageEnabled()
+        ? 'Agreements are created once contributors choose a verified email on the signing page'
+        : 'Signing page disabled, agreements are sent to the email of the commits or GitHub profile');
+
+      // List available automated templates for debugging
+      logger.info('Checking Concord automated templates...', {
+        configuredTemplateId: config.concord.templateId,
+        organizationId: config.concord.organizationId,
+      });
+      const templates = await listAutomatedTemplates();
+      if (templates.length === 0) {
+        logger.warn('No automated templates found! Make sure your template is set as "Automated" in Concord.');
       } else {
-        logger.warn('Configured template NOT found in available templates', {
-          configuredId: config.concord.templateId,
-          availableIds: templates.map(t => t.uid),
-        });
+        const configuredTemplate = templates.find(t => t.uid === config.concord.templateId);
+        if (configuredTemplate) {
+          logger.info('Configured template found', { 
+            uid: configuredTemplate.uid, 
+            title: configuredTemplate.title,
+          });
+        } else {
+          logger.warn('Configured template NOT found in available templates', {
+            configuredId: config.concord.templateId,
+            availableIds: templates.map(t => t.uid),
+          });
+        }
       }
+    } else {
+      logger.info('Contributors sign the built-in click-through agreement', {
+        agreementPath: config.clickthrough.agreementPath,
+        signingPage: signatureService.isSigningPageEnabled(),
+      });
     }
 
     // Start listening
@@ -139,7 +205,7 @@ async function start() {
       
       logger.info('Webhook endpoints:', {
         github: `${config.publicUrl}/github/webhook`,
-        concord: `${config.publicUrl}/concord/webhook`,
+        concord: isConcordConfigured() ? `${config.publicUrl}/concord/webhook` : undefined,
       });
     });
   } catch (error) {
@@ -0,0 +1,571 @@
+import fs from 'fs';
+import path from 'path';
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { safeCompare } from '../utils/webhook';
+import { asyncRoute } from '../utils/http';
+import {
+  CLARecord,
+  CLAResignPolicy,
+  CLAStatus,
+  CorporateCLAMemberType,
+  GitHubUser,
+  WebhookEventRecord,
+  WebhookEventStatus,
+} from '../types';
+import * as adminAuthService from '../services/adminAuth';
+import * as claService from '../services/cla';
+import * as signatureService from '../services/signature';
+import * as corporateClaService from '../services/corporateCla';
+import * as reconciliationService from '../services/reconciliation';
+import * as githubService from '../services/github';
+import * as db from '../services/database';
+
+const router = Router();
+
+const EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'processing', 'done', 'dead'];
+const CORPORATE_CLA_MEMBER_TYPES: CorporateCLAMemberType[] = ['user', 'domain'];
+const CLA_RESIGN_POLICIES: CLAResignPolicy[] = ['keep', 'resign'];
+const CLA_STATUSES: CLAStatus[] = ['creating', 'pending', 'signed', 'expired', 'cancelled', 'superseded'];
+
+/**
+ * Parse the `limit` query parameter, capped at 500
+ */
+function parseLimit(req: Request, defaultLimit = 100): number {
+  return Math.min(parseInt((req.query.limit as string) || String(defaultLimit), 10) || defaultLimit, 500);
+}
+
+/**
+ * Require one of the configured admin bearer tokens, or the GitHub token of a
+ * member of the admin team. The caller is kept in `res.locals.adminActor`.
+ */
+async function requireAdmin(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!adminAuthService.isAdminEnabled()) {
+    res.status(404).json({ error: 'Not Found', message: 'Admin API is disabled' });
+    return;
+  }
+
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+
+  if (token && config.admin.apiTokens.some((t) => safeCompare(t, token))) {
+    res.locals.adminActor = 'admin-token';
+    next();
+    return;
+  }
+
+  const login = token ? await adminAuthService.authenticateGitHubToken(token) : null;
+  if (login) {
+    res.locals.adminActor = `@${login}`;
+    next();
+    return;
+  }
+
+  logger.warn('Rejected admin API request', { path: req.path, ip: req.ip });
+  res.status(401).json({ error: 'Unauthorized' });
+}
+
+router.use((req, res, next) => void requireAdmin(req, res, next).catch(next));
+
+// Mounted before the application-wide JSON parser: manual signatures can carry a scanned document
+router.use(express.json({ limit: '15mb' }));
+
+/**
+ * Webhook event without its (potentially large) payload
+ */
+function summarizeEvent(event: WebhookEventRecord) {
+  const { payload: _payload, ...summary } = event;
+  return summary;
+}
+
+/**
+ * List queued webhook events, dead-lettered ones by default
+ */
+router.get('/events', (req: Request, res: Response) => {
+  const status = (req.query.status as WebhookEventStatus | undefined) || 'dead';
+  if (!EVENT_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Invalid status, expected one of: ${EVENT_STATUSES.join(', ')}` });
+  }
+
+  const events = db.listWebhookEvents(status, parseLimit(req));
+
+  res.json({ status, count: events.length, events: events.map(summarizeEvent) });
+});
+
+/**
+ * Re-drive every dead-lettered event
+ */
+router.post('/events/redrive', (req: Request, res: Response) => {
+  const dead = db.listWebhookEvents('dead', 500);
+  const redriven = dead.filter((event) => db.redriveWebhookEvent(event.id!)).map((event) => event.id);
+
+  logger.info('Re-drove dead webhook events', { count: redriven.length });
+  res.json({ redriven });
+});
+
+/**
+ * Re-drive a single dead-lettered event
+ */
+router.post('/events/:id/redrive', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  const event = Number.isNaN(id) ? undefined : db.findWebhookEventById(id);
+
+  if (!event) {
+    return res.status(404).json({ error: 'Event not found' });
+  }
+
+  if (!db.redriveWebhookEvent(id)) {
+    return res.status(409).json({ error: `Only dead events can be re-driven (event is ${event.status})` });
+  }
+
+  logger.info('Re-drove dead webhook event', { id, source: event.source, eventType: event.event_type });
+  res.json({ success: true, event: summarizeEvent(db.findWebhookEventById(id)!) });
+});
+
+/**
+ * Latest reconciliation runs with the drift they found and fixed
+ */
+router.get('/reconciliation', (req: Request, res: Response) => {
+  const runs = db.listReconciliationRuns(parseLimit(req, 20)).map((run) => ({
+    id: run.id,
+    driftFound: run.drift_found,
+    driftFixed: run.drift_fixed,
+    ...JSON.parse(run.report),
+  }));
+
+  res.json({
+    running: reconciliationService.isReconciliationRunning(),
+    intervalMinutes: config.reconciliation.intervalMinutes,
+    maxApiCalls: config.reconciliation.maxApiCalls,
+    runs,
+  });
+});
+
+/**
+ * Run the reconciliation now, or wait for the one in progress
+ */
+router.post('/reconciliation/run', asyncRoute(async (req: Request, res: Response) => {
+  const actor = res.locals.adminActor as string;
+  const report = await reconciliationService.runReconciliation('admin', actor);
+
+  db.addAuditEntry(actor, 'reconcile', 'reconciliation', {
+    signedRepaired: report.signedRepaired,
+    prsClosed: report.prsClosed,
+    apiCalls: report.apiCalls,
+  });
+  res.json({ report });
+}));
+
+/**
+ * List merged PRs for audits; `?unsigned=true` keeps only contributors who had
+ * no signed CLA when the PR was merged
+ */
+router.get('/prs/merged', (req: Request, res: Response) => {
+  const records = db.findMergedPRRecords({
+    repoFullName: (req.query.repo as string | undefined) || undefined,
+    unsignedOnly: req.query.unsigned === 'true',
+    limit: parseLimit(req),
+  });
+
+  res.json({ count: records.length, records });
+});
+
+/**
+ * List CLA versions and the one currently in effect
+ */
+router.get('/cla-versions', (req: Request, res: Response) => {
+  res.json({ current: db.findCLAVersionAt()?.version ?? null, versions: db.listCLAVersions() });
+});
+
+/**
+ * Register a new CLA version. With `resign_policy: "resign"`, contributors who
+ * signed an earlier version must sign again on their next PR once it takes effect.
+ */
+router.post('/cla-versions', (req: Request, res: Response) => {
+  const {
+    version,
+    template_id: templateId,
+    effective_date: effectiveDate,
+    resign_policy: resignPolicy = 'keep',
+    notes,
+  } = req.body ?? {};
+
+  if (typeof version !== 'string' || !version.trim()) {
+    return res.status(400).json({ error: 'version is required' });
+  }
+  if (typeof templateId !== 'string' || !templateId.trim()) {
+    return res.status(400).json({ error: 'template_id is required' });
+  }
+  if (!CLA_RESIGN_POLICIES.includes(resignPolicy)) {
+    return res.status(400).json({ error: `resign_policy must be one of: ${CLA_RESIGN_POLICIES.join(', ')}` });
+  }
+  if (notes !== undefined && typeof notes !== 'string') {
+    return res.status(400).json({ error: 'notes must be a string' });
+  }
+
+  const effectiveAt = effectiveDate === undefined ? Date.now() : Date.parse(effectiveDate);
+  if (Number.isNaN(effectiveAt)) {
+    return res.status(400).json({ error: 'effective_date must be an ISO 8601 date' });
+  }
+
+  if (db.findCLAVersion(version.trim())) {
+    return res.status(409).json({ error: `Version ${version.trim()} already exists` });
+  }
+
+  const claVersion = db.createCLAVersion({
+    version: version.trim(),
+    template_id: templateId.trim(),
+    effective_date: new Date(effectiveAt).toISOString(),
+    resign_policy: resignPolicy,
+    notes: notes?.trim() || undefined,
+  });
+
+  logger.info('CLA version registered', {
+    version: claVersion.version,
+    templateId: claVersion.template_id,
+    effectiveDate: claVersion.effective_date,
+    resignPolicy: claVersion.resign_policy,
+  });
+  res.status(201).json({ claVersion });
+});
+
+/**
+ * Corporate CLA with its allowlist, or undefined if the ID is unknown
+ */
+function findCorporateCLA(idParam: string) {
+  const id = parseInt(idParam, 10);
+  const corporateCLA = Number.isNaN(id) ? undefined : db.findCorporateCLAById(id);
+  return corporateCLA && { ...corporateCLA, members: db.listCorporateCLAMembers(id) };
+}
+
+/**
+ * List corporate CLAs
+ */
+router.get('/corporate-clas', (req: Request, res: Response) => {
+  const corporateCLAs = db.listCorporateCLAs();
+  res.json({ count: corporateCLAs.length, corporateCLAs });
+});
+
+/**
+ * Send a new corporate CLA to a company's authorized signatory
+ */
+router.post('/corporate-clas', asyncRoute(async (req: Request, res: Response) => {
+  const { company_name: companyName, signer_email: signerEmail, signer_name: signerName } = req.body ?? {};
+
+  if (typeof signerEmail !== 'string' || !/^[^@\s]+@[^@\s]+$/.test(signerEmail)) {
+    return res.status(400).json({ error: 'signer_email must be an email address' });
+  }
+  if (typeof signerName !== 'string' || !signerName.trim()) {
+    return res.status(400).json({ error: 'signer_name is required' });
+  }
+  if (companyName !== undefined && (typeof companyName !== 'string' || !companyName.trim())) {
+    return res.status(400).json({ error: 'company_name must be a non-empty string' });
+  }
+
+  try {
+    const corporateCLA = await corporateClaService.requestCorporateCLA(signerEmail, signerName.trim(), companyName?.trim());
+    res.status(201).json({ corporateCLA });
+  } catch (error) {
+    logger.error('Failed to request corporate CLA', { signerEmail, error: serializeError(error) });
+    res.status(502).json({ error: error instanceof Error ? error.message : 'Could not create the corporate CLA' });
+  }
+}));
+
+/**
+ * Show a corporate CLA and its allowlist
+ */
+router.get('/corporate-clas/:id', (req: Request, res: Response) => {
+  const corporateCLA = findCorporateCLA(req.params.id);
+  if (!corporateCLA) {
+    return res.status(404).json({ error: 'Corporate CLA not found' });
+  }
+  res.json({ corporateCLA });
+});
+
+/**
+ * Add a GitHub user or email domain to a corporate CLA allowlist
+ */
+router.post('/corporate-clas/:id/members', asyncRoute(async (req: Request, res: Response) => {
+  const corporateCLA = findCorporateCLA(req.params.id);
+  if (!corporateCLA) {
+    return res.status(404).json({ error: 'Corporate CLA not found' });
+  }
+
+  const { type, value, added_by: addedBy } = req.body ?? {};
+  if (!CORPORATE_CLA_MEMBER_TYPES.includes(type)) {
+    return res.status(400).json({ error: `type must be one of: ${CORPORATE_CLA_MEMBER_TYPES.join(', ')}` });
+  }
+
+  const normalized = typeof value === 'string' ? corporateClaService.normalizeMemberValue(type, value) : null;
+  if (!normalized) {
+    return res.status(400).json({ error: type === 'user' ? 'value must be a GitHub username' : 'value must be an email domain' });
+  }
+
+  const added = await corporateClaService.addMember(corporateCLA, type, normalized, typeof addedBy === 'string' ? addedBy : undefined);
+  res.status(added ? 201 : 200).json({ added, corporateCLA: findCorporateCLA(req.params.id) });
+}));
+
+/**
+ * Remove a GitHub user or email domain from a corporate CLA allowlist
+ */
+router.delete('/corporate-clas/:id/members/:type/:value', asyncRoute(async (req: Request, res: Response) => {
+  const corporateCLA = findCorporateCLA(req.params.id);
+  if (!corporateCLA) {
+    return res.status(404).json({ error: 'Corporate CLA not found' });
+  }
+
+  const type = req.params.type as CorporateCLAMemberType;
+  const normalized = CORPORATE_CLA_MEMBER_TYPES.includes(type)
+    ? corporateClaService.normalizeMemberValue(type, req.params.value)
+    : null;
+
+  if (!normalized || !await corporateClaService.removeMember(corporateCLA, type, normalized)) {
+    return res.status(404).json({ error: 'Member not found' });
+  }
+  res.json({ removed: true, corporateCLA: findCorporateCLA(req.params.id) });
+}));
+
+/**
+ * Look up a GitHub account through the app, for contributors without a CLA record
+ */
+async function lookUpGitHubUser(username: string): Promise<GitHubUser | null> {
+  let octokit = await adminAuthService.getAdminOrgOctokit();
+  if (!octokit) {
+    const [installation] = await githubService.getAppInstallations();
+    if (!installation) {
+      throw new Error('The app has no installation to look up GitHub users with');
+    }
+    octokit = await githubService.getInstallationOctokit(installation.id);
+  }
+  return githubService.getUserByUsername(octokit, username);
+}
+
+/**
+ * CLA record of a contributor, or their GitHub account if they have none yet
+ */
+async function findContributor(
+  username: string
+): Promise<{ record?: CLARecord; user: { id: number; login: string } } | null> {
+  const record = db.findCLAByGitHubUsername(username);
+  if (record) {
+    return { record, user: { id: record.github_user_id, login: record.github_username } };
+  }
+
+  const user = await lookUpGitHubUser(username);
+  return user ? { user } : null;
+}
+
+/**
+ * List and search signers: `?status=`, `?q=` (username or email fragment), `?limit=`, `?offset=`
+ */
+router.get('/signers', (req: Request, res: Response) => {
+  const status = req.query.status as CLAStatus | undefined;
+  if (status && !CLA_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Invalid status, expected one of: ${CLA_STATUSES.join(', ')}` });
+  }
+
+  const { records, total } = db.searchCLARecords({
+    status,
+    query: (req.query.q as string | undefined) || undefined,
+    limit: parseLimit(req, 50),
+    offset: parseInt((req.query.offset as string) || '0', 10) || 0,
+  });
+
+  res.json({ total, count: records.length, signers: records });
+});
+
+/**
+ * Show a contributor with their PRs and the admin actions taken on them
+ */
+router.get('/signers/:username', (req: Request, res: Response) => {
+  const record = db.findCLAByGitHubUsername(req.params.username);
+  if (!record) {
+    return res.status(404).json({ error: 'Signer not found' });
+  }
+
+  res.json({
+    signer: record,
+    // Set for click-through signatures
+    evidence: db.findSignatureEvidence(record.concord_agreement_uid) ?? null,
+    pullRequests: db.findPRRecordsByGitHubUserId(record.github_user_id),
+    audit: db.listAuditEntries(`user:${record.github_username.toLowerCase()}`),
+  });
+});
+
+/**
+ * Download the document stored with a manual signature
+ */
+router.get('/signers/:username/document', (req: Request, res: Response) => {
+  const record = db.findCLAByGitHubUsername(req.params.username);
+  if (!record?.signature_document) {
+    return res.status(404).json({ error: 'No document stored for this signer' });
+  }
+
+  res.download(path.join(config.admin.documentsPath, record.signature_document));
+});
+
+/**
+ * Record a CLA signed outside Concord (e.g. on paper). `reference` identifies
+ * the original; an optional `document` ({ filename, content } in base64) is stored.
+ */
+router.post('/signers/:username/manual-signature', asyncRoute(async (req: Request, res: Response) => {
+  const { reference, signed_at: signedAtParam, document } = req.body ?? {};
+  const actor = res.locals.adminActor as string;
+
+  if (typeof reference !== 'string' || !reference.trim()) {
+    return res.status(400).json({ error: 'reference is required' });
+  }
+  const signedAt = signedAtParam === undefined ? Date.now() : Date.parse(signedAtParam);
+  if (Number.isNaN(signedAt)) {
+    return res.status(400).json({ error: 'signed_at must be an ISO 8601 date' });
+  }
+  if (document !== undefined && (typeof document?.filename !== 'string' || typeof document?.content !== 'string')) {
+    return res.status(400).json({ error: 'document must be { filename, content } with base64 content' });
+  }
+
+  const contributor = await findContributor(req.params.username);
+  if (!contributor) {
+    return res.status(404).json({ error: 'GitHub user not found' });
+  }
+  const { user } = contributor;
+
+  let documentName: string | undefined;
+  if (document) {
+    documentName = `${user.id}-${Date.now()}-${path.basename(document.filename).replace(/[^\w.-]/g, '_')}`;
+    fs.mkdirSync(config.admin.documentsPath, { recursive: true });
+    fs.writeFileSync(path.join(config.admin.documentsPath, documentName), Buffer.from(document.content, 'base64'));
+  }
+
+  const signedAtIso = new Date(signedAt).toISOString();
+  const record = await claService.withSignerLock(user.id, async () => db.createCLARecord({
+    github_username: user.login,
+    github_user_id: user.id,
+    github_email: contributor.record?.github_email,
+    concord_agreement_uid: '',
+    status: 'signed',
+    signed_at: signedAtIso,
+    cla_version: db.findCLAVersionAt(signedAtIso)?.version,
+    signature_source: 'manual',
+    signature_reference: reference.trim(),
+    signature_document: documentName,
+  }));
+
+  db.addAuditEntry(actor, 'manual_signature', `user:${user.login.toLowerCase()}`, {
+    reference: reference.trim(),
+    document: documentName,
+    signedAt: signedAtIso,
+    previousStatus: contributor.record?.status,
+  });
+  logger.info('CLA marked as signed manually', { username: user.login, reference: reference.trim(), actor });
+
+  const updatedPRs = await claService.updateContributorPRs(user.id, user.login);
+  res.json({ signer: record, updatedPRs });
+}));
+
+/**
+ * Revoke a contributor's CLA: their open PRs are blocked again and their next
+ * PR starts a new agreement
+ */
+router.post('/signers/:username/revoke', asyncRoute(async (req: Request, res: Response) => {
+  const record = db.findCLAByGitHubUsername(req.params.username);
+  const actor = res.locals.adminActor as string;
+  const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : undefined;
+
+  if (!record) {
+    return res.status(404).json({ error: 'Signer not found' });
+  }
+  if (record.status === 'cancelled') {
+    return res.status(409).json({ error: 'CLA is already revoked' });
+  }
+
+  await claService.withSignerLock(record.github_user_id, async () => {
+    // A pending agreement could otherwise still be signed in Concord
+    const current = db.findCLAByGitHubUserId(record.github_user_id);
+    if (current?.status === 'pending' && current.concord_agreement_uid) {
+      await claService.cancelAgreement(current, 'revoked', actor);
+    }
+    db.updateCLAStatus(record.github_user_id, 'cancelled');
+  });
+
+  db.addAuditEntry(actor, 'revoke', `user:${record.github_username.toLowerCase()}`, {
+    reason,
+    previousStatus: record.status,
+    agreementUid: record.concord_agreement_uid || undefined,
+  });
+  logger.info('CLA revoked by admin', { username: record.github_username, reason, actor });
+
+  const updatedPRs = await claService.updateContributorPRs(record.github_user_id, record.github_username);
+  res.json({ signer: db.findCLAByGitHubUserId(record.github_user_id), updatedPRs });
+}));
+
+/**
+ * Re-sync a contributor from the signature provider: a pending agreement that
+ * was signed, or a signed agreement found by username, is recorded as signed
+ */
+router.post('/signers/:username/resync', asyncRoute(async (req: Request, res: Response) => {
+  const actor = res.locals.adminActor as string;
+  const contributor = await findContributor(req.params.username);
+  if (!contributor) {
+    return res.status(404).json({ error: 'GitHub user not found' });
+  }
+  const { record, user } = contributor;
+
+  const changed = await claService.withSignerLock(user.id, async () => {
+    if (
+      record?.status === 'pending'
+      && record.concord_agreement_uid
+      && await signatureService.getAgreementProvider(record.signature_source).isAgreementSigned(record.concord_agreement_uid)
+    ) {
+      db.updateCLAStatus(user.id, 'signed', new Date().toISOString());
+      return true;
+    }
+
+    if (record?.status === 'signed') {
+      return false;
+    }
+
+    const provider = signatureService.getSignatureProvider();
+    const agreement = await provider.findSignedAgreement(user.login, user.id);
+    if (
+      !agreement
+      || (record && record.concord_agreement_uid === agreement.agreementUid && record.status !== 'pending')
+    ) {
+      return false;
+    }
+
+    const signedAt = agreement.signedAt ?? new Date().toISOString();
+    db.createCLARecord({
+      github_username: user.login,
+      github_user_id: user.id,
+      github_email: record?.github_email,
+      concord_agreement_uid: agreement.agreementUid,
+      status: 'signed',
+      signed_at: signedAt,
+      cla_version: db.findCLAVersionAt(signedAt)?.version,
+      signature_source: provider.name,
+    });
+    return true;
+  });
+
+  const updated = db.findCLAByGitHubUserId(user.id);
+  db.addAuditEntry(actor, 'resync', `user:${user.login.toLowerCase()}`, {
+    previousStatus: record?.status,
+    status: updated?.status,
+    changed,
+  });
+  logger.info('CLA re-synced from the signature provider', { username: user.login, changed, status: updated?.status, actor });
+
+  const updatedPRs = changed ? await claService.updateContributorPRs(user.id, user.login) : 0;
+  res.json({ signer: updated ?? null, changed, updatedPRs });
+}));
+
+/**
+ * List audit entries, optionally for one subject (e.g. `?subject=user:octocat`)
+ */
+router.get('/audit', (req: Request, res: Response) => {
+  const entries = db.listAuditEntries((req.query.subject as string | undefined) || undefined, parseLimit(req));
+  res.json({ count: entries.length, entries });
+});
+
+export default router;
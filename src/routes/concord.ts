@@ -1,12 +1,77 @@
 import { Router, Request, Response } from 'express';
+import { config } from '../config';
 import { logger, serializeError } from '../utils/logger';
-import { ConcordWebhookPayload } from '../types';
-import * as githubService from '../services/github';
+import { RawBodyRequest, safeCompare, hmacSha256 } from '../utils/webhook';
+import { CLAStatus, ConcordWebhookPayload, CorporateCLARecord } from '../types';
+import * as concordService from '../services/concord';
+import * as queueService from '../services/queue';
+import * as metricsService from '../services/metrics';
+import * as claService from '../services/cla';
+import * as corporateClaService from '../services/corporateCla';
 import * as db from '../services/database';
-import { PRRecord } from '../types';
 
 const router = Router();
 
+// Allowed clock drift for events stamped slightly in the future
+const CLOCK_SKEW_MS = 60 * 1000;
+
+// Records that a late signature must not turn back into a signed CLA
+const CLOSED_STATUSES: CLAStatus[] = ['cancelled', 'expired', 'superseded'];
+
+/**
+ * Authenticate a Concord webhook with the shared-secret HMAC and/or the
+ * configured token. Returns the reason for rejection, or null if authentic.
+ */
+export function verifyWebhookAuthenticity(req: RawBodyRequest): string | null {
+  const { webhookSecret, webhookToken } = config.concord;
+
+  if (!webhookSecret && !webhookToken) {
+    logger.warn('Concord webhook authentication is disabled (no CONCORD_WEBHOOK_SECRET or CONCORD_WEBHOOK_TOKEN)');
+    return null;
+  }
+
+  if (webhookSecret) {
+    const signature = req.headers['x-concord-signature'] as string | undefined;
+    if (!signature || !req.rawBody) {
+      return 'Missing signature';
+    }
+    const digest = hmacSha256(webhookSecret, req.rawBody);
+    if (!safeCompare(digest, signature.replace(/^sha256=/, '').toLowerCase())) {
+      return 'Invalid signature';
+    }
+  }
+
+  if (webhookToken) {
+    const token = (req.headers['x-concord-token'] as string | undefined) || (req.query.token as string | undefined);
+    if (!token || !safeCompare(token, webhookToken)) {
+      return 'Invalid token';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reject events outside the replay window. Returns the reason, or null if fresh.
+ */
+export function checkEventFreshness(payload: ConcordWebhookPayload): string | null {
+  if (!payload.event_id || !payload.occured_at) {
+    return 'Missing event_id or occured_at';
+  }
+
+  const occurredAt = Date.parse(payload.occured_at);
+  if (Number.isNaN(occurredAt)) {
+    return 'Invalid occured_at';
+  }
+
+  const age = Date.now() - occurredAt;
+  if (age > config.concord.webhookMaxAgeSeconds * 1000 || age < -CLOCK_SKEW_MS) {
+    return 'Event outside the accepted time window';
+  }
+
+  return null;
+}
+
 /**
  * Handle agreement executed (fully signed) event
  */
@@ -27,10 +92,32 @@ async function handleAgreementExecuted(payload: ConcordWebhookPayload): Promise<
   }
 
   if (!claRecord) {
+    const corporateCLA = db.findCorporateCLAByAgreementUid(agreementUid)
+      ?? db.findCorporateCLAByAgreementUid(signedAgreementUid);
+    if (corporateCLA) {
+      await handleCorporateAgreementSigned(corporateCLA, payload);
+      return;
+    }
+
     logger.warn('No CLA record found for agreement', { agreementUid, signedAgreementUid });
     return;
   }
 
+  if (CLOSED_STATUSES.includes(claRecord.status)) {
+    logger.warn('Agreement executed for a closed CLA record, ignoring', {
+      agreementUid: claRecord.concord_agreement_uid,
+      status: claRecord.status,
+    });
+    return;
+  }
+
+  if (!await concordService.verifyAgreementSigned(claRecord.concord_agreement_uid)) {
+    logger.warn('Agreement reported as executed is not signed in Concord, ignoring', {
+      agreementUid: claRecord.concord_agreement_uid,
+    });
+    return;
+  }
+
   // Update CLA status to signed
   db.updateCLAStatusByAgreementUid(
     claRecord.concord_agreement_uid,
@@ -43,18 +130,21 @@ async function handleAgreementExecuted(payload: ConcordWebhookPayload): Promise<
     agreementUid: claRecord.concord_agreement_uid 
   });
 
-  // Find all PRs associated with this user
-  const prRecords = db.findPRRecordsByGitHubUserId(claRecord.github_user_id);
+  // Find all open PRs associated with this user
+  const prRecords = db.findOpenPRRecordsByGitHubUserId(claRecord.github_user_id);
+
+  // PRs closed because the CLA stayed unsigned are reopened
+  await claService.reopenExpiredPRs(claRecord.github_user_id);
 
   if (prRecords.length === 0) {
-    logger.info('No PR records found for user', { githubUsername: claRecord.github_username });
+    logger.info('No open PR records found for user', { githubUsername: claRecord.github_username });
     return;
   }
 
   // Update each PR
   for (const prRecord of prRecords) {
     try {
-      await updatePRAfterSigning(prRecord, claRecord.github_username);
+      await claService.updatePRAfterCLAChange(prRecord, claRecord.github_username);
     } catch (error) {
       logger.error('Failed to update PR after signing', {
         repoFullName: prRecord.repo_full_name,
@@ -66,98 +156,26 @@ async function handleAgreementExecuted(payload: ConcordWebhookPayload): Promise<
 }
 
 /**
- * Update a PR after the CLA has been signed
+ * Handle the signature of a corporate CLA: covered contributors' PRs are unblocked
  */
-async function updatePRAfterSigning(
-  prRecord: PRRecord,
-  githubUsername: string
+async function handleCorporateAgreementSigned(
+  corporateCLA: CorporateCLARecord,
+  payload: ConcordWebhookPayload
 ): Promise<void> {
-  const [owner, repo] = prRecord.repo_full_name.split('/');
-
-  logger.info('Updating PR after CLA signing', {
-    owner,
-    repo,
-    prNumber: prRecord.pr_number,
-    githubUsername,
-  });
-
-  // Get installation ID for the repo
-  const installations = await githubService.getAppInstallations();
-  
-  let installationId: number | null = null;
-  for (const installation of installations) {
-    try {
-      const repos = await githubService.getInstallationRepos(installation.id);
-      if (repos.some((r) => r.full_name === prRecord.repo_full_name)) {
-        installationId = installation.id;
-        break;
-      }
-    } catch (error) {
-      logger.debug('Could not check installation repos', { 
-        installationId: installation.id, 
-        error: serializeError(error),
-      });
-    }
-  }
-
-  if (!installationId) {
-    logger.error('Could not find installation for repo', { 
-      repoFullName: prRecord.repo_full_name 
-    });
+  if (corporateCLA.status === 'signed') {
+    logger.info('Corporate CLA already marked as signed, skipping', { id: corporateCLA.id });
     return;
   }
 
-  const octokit = await githubService.getInstallationOctokit(installationId);
-
-  // Get the PR to check if it's still open and get the latest SHA
-  let pr;
-  try {
-    pr = await githubService.getPullRequest(octokit, owner, repo, prRecord.pr_number);
-  } catch (error) {
-    logger.warn('Could not fetch PR', { 
-      owner, 
-      repo, 
-      prNumber: prRecord.pr_number, 
-      error: serializeError(error),
+  if (!await concordService.verifyAgreementSigned(corporateCLA.concord_agreement_uid)) {
+    logger.warn('Corporate agreement reported as signed is not signed in Concord, ignoring', {
+      agreementUid: corporateCLA.concord_agreement_uid,
     });
     return;
   }
 
-  // Update the comment if we have a comment ID
-  if (prRecord.comment_id) {
-    try {
-      await githubService.updateCommentCLASigned(
-        octokit,
-        owner,
-        repo,
-        prRecord.comment_id,
-        githubUsername
-      );
-    } catch (error) {
-      logger.warn('Could not update comment', { 
-        commentId: prRecord.comment_id, 
-        error: serializeError(error),
-      });
-    }
-  }
-
-  // Remove pending label
-  await githubService.removeCLAPendingLabel(octokit, owner, repo, prRecord.pr_number);
-
-  // Update commit status
-  await githubService.createCLAStatus(
-    octokit,
-    owner,
-    repo,
-    pr.head.sha,
-    true
-  );
-
-  logger.info('PR updated after CLA signing', {
-    owner,
-    repo,
-    prNumber: prRecord.pr_number,
-  });
+  // The signatory's Concord organization is their employer
+  await corporateClaService.handleCorporateCLASigned(corporateCLA, payload.content.user?.organization?.name);
 }
 
 /**
@@ -179,6 +197,12 @@ async function handleNewSignature(payload: ConcordWebhookPayload): Promise<void>
   const claRecord = db.findCLAByAgreementUid(agreementUid);
 
   if (!claRecord) {
+    const corporateCLA = db.findCorporateCLAByAgreementUid(agreementUid);
+    if (corporateCLA) {
+      await handleCorporateAgreementSigned(corporateCLA, payload);
+      return;
+    }
+
     logger.warn('No CLA record found for agreement (new signature)', { agreementUid });
     return;
   }
@@ -189,6 +213,16 @@ async function handleNewSignature(payload: ConcordWebhookPayload): Promise<void>
     return;
   }
 
+  if (CLOSED_STATUSES.includes(claRecord.status)) {
+    logger.warn('New signature on a closed CLA record, ignoring', { agreementUid, status: claRecord.status });
+    return;
+  }
+
+  if (!await concordService.verifyAgreementSigned(agreementUid)) {
+    logger.warn('Agreement reported with a new signature is not signed in Concord, ignoring', { agreementUid });
+    return;
+  }
+
   // Update CLA status to signed
   db.updateCLAStatusByAgreementUid(agreementUid, 'signed', new Date().toISOString());
 
@@ -197,17 +231,20 @@ async function handleNewSignature(payload: ConcordWebhookPayload): Promise<void>
     agreementUid,
   });
 
-  // Find all PRs associated with this user and update them
-  const prRecords = db.findPRRecordsByGitHubUserId(claRecord.github_user_id);
+  // Find all open PRs associated with this user and update them
+  const prRecords = db.findOpenPRRecordsByGitHubUserId(claRecord.github_user_id);
+
+  // PRs closed because the CLA stayed unsigned are reopened
+  await claService.reopenExpiredPRs(claRecord.github_user_id);
 
   if (prRecords.length === 0) {
-    logger.info('No PR records found for user', { githubUsername: claRecord.github_username });
+    logger.info('No open PR records found for user', { githubUsername: claRecord.github_username });
     return;
   }
 
   for (const prRecord of prRecords) {
     try {
-      await updatePRAfterSigning(prRecord, claRecord.github_username);
+      await claService.updatePRAfterCLAChange(prRecord, claRecord.github_username);
     } catch (error) {
       logger.error('Failed to update PR after new signature', {
         repoFullName: prRecord.repo_full_name,
@@ -219,15 +256,54 @@ async function handleNewSignature(payload: ConcordWebhookPayload): Promise<void>
 }
 
 /**
- * Handle agreement cancelled event
+ * Handle an agreement that no longer covers the contributor (cancelled, expired
+ * or sent back to review): every open PR of the contributor is blocked again and
+ * their next PR starts a new agreement.
  */
-async function handleAgreementCancelled(payload: ConcordWebhookPayload): Promise<void> {
+async function handleAgreementRevoked(
+  payload: ConcordWebhookPayload,
+  status: 'cancelled' | 'expired'
+): Promise<void> {
   const { agreement } = payload.content;
 
-  logger.info('Agreement cancelled', { agreementUid: agreement.uid });
+  logger.info('Agreement revoked', { agreementUid: agreement.uid, eventName: payload.event_name, status });
+
+  const claRecord = db.findCLAByAgreementUid(agreement.uid)
+    ?? (agreement.signedAgreementUid ? db.findCLAByAgreementUid(agreement.signedAgreementUid) : undefined);
+
+  if (!claRecord) {
+    const corporateCLA = db.findCorporateCLAByAgreementUid(agreement.uid)
+      ?? (agreement.signedAgreementUid ? db.findCorporateCLAByAgreementUid(agreement.signedAgreementUid) : undefined);
+    if (corporateCLA) {
+      await corporateClaService.handleCorporateCLARevoked(corporateCLA, status);
+      return;
+    }
+
+    logger.warn('No CLA record found for revoked agreement', { agreementUid: agreement.uid });
+    return;
+  }
+
+  db.updateCLAStatusByAgreementUid(claRecord.concord_agreement_uid, status);
+
+  logger.info('CLA marked as revoked', {
+    githubUsername: claRecord.github_username,
+    agreementUid: claRecord.concord_agreement_uid,
+    status,
+  });
 
-  // Update CLA status to cancelled
-  db.updateCLAStatusByAgreementUid(agreement.uid, 'cancelled');
+  const prRecords = db.findOpenPRRecordsByGitHubUserId(claRecord.github_user_id);
+
+  for (const prRecord of prRecords) {
+    try {
+      await claService.updatePRAfterCLAChange(prRecord, claRecord.github_username);
+    } catch (error) {
+      logger.error('Failed to re-block PR after revocation', {
+        repoFullName: prRecord.repo_full_name,
+        prNumber: prRecord.pr_number,
+        error: serializeError(error),
+      });
+    }
+  }
 }
 
 /**
@@ -236,46 +312,69 @@ async function handleAgreementCancelled(payload: ConcordWebhookPayload): Promise
 router.post('/webhook', async (req: Request, res: Response) => {
   const payload = req.body as ConcordWebhookPayload;
 
+  const authError = verifyWebhookAuthenticity(req as RawBodyRequest);
+  if (authError) {
+    logger.warn('Rejected Concord webhook', { reason: authError, eventId: payload?.event_id });
+    // The event name is not trusted before the webhook is authenticated
+    metricsService.recordWebhookReceived('concord', 'unknown', 'rejected');
+    return res.status(401).json({ error: authError });
+  }
+
+  const freshnessError = checkEventFreshness(payload);
+  if (freshnessError) {
+    logger.warn('Rejected Concord webhook', { reason: freshnessError, eventId: payload?.event_id });
+    metricsService.recordWebhookReceived('concord', payload?.event_name ?? 'unknown', 'rejected');
+    return res.status(400).json({ error: freshnessError });
+  }
+
+  // Persist the event and acknowledge right away. The event_id dedupes
+  // replays and Concord's own redeliveries.
+  const queued = queueService.enqueue('concord', payload.event_name, payload.event_id, payload);
+
   logger.info('Received Concord webhook', {
     eventId: payload.event_id,
     eventName: payload.event_name,
     agreementUid: payload.content?.agreement?.uid,
+    duplicate: !queued,
   });
 
-  try {
-    switch (payload.event_name) {
-      case 'AGREEMENT_EXECUTED':
-        await handleAgreementExecuted(payload);
-        break;
-
-      case 'AGREEMENT_NEW_SIGNATURE':
-        await handleNewSignature(payload);
-        break;
-
-      case 'AGREEMENT_CANCELLED':
-        await handleAgreementCancelled(payload);
-        break;
-
-      case 'AGREEMENT_MOVE_TO_SIGNING':
-        logger.info('Agreement moved to signing', { 
-          agreementUid: payload.content?.agreement?.uid 
-        });
-        break;
+  res.status(queued ? 202 : 200).json({ success: true, duplicate: !queued });
+});
 
-      default:
-        logger.debug('Unhandled Concord event', { eventName: payload.event_name });
-    }
+/**
+ * Process a queued Concord event. Errors are thrown so the queue retries.
+ */
+export async function processConcordEvent(eventName: string, payload: unknown): Promise<void> {
+  const concordPayload = payload as ConcordWebhookPayload;
+
+  switch (eventName) {
+    case 'AGREEMENT_EXECUTED':
+      await handleAgreementExecuted(concordPayload);
+      break;
+
+    case 'AGREEMENT_NEW_SIGNATURE':
+      await handleNewSignature(concordPayload);
+      break;
+
+    case 'AGREEMENT_CANCELLED':
+    case 'AGREEMENT_BACK_TO_REVIEW':
+      await handleAgreementRevoked(concordPayload, 'cancelled');
+      break;
+
+    case 'AGREEMENT_EXPIRED':
+      await handleAgreementRevoked(concordPayload, 'expired');
+      break;
+
+    case 'AGREEMENT_MOVE_TO_SIGNING':
+      logger.info('Agreement moved to signing', {
+        agreementUid: concordPayload.content?.agreement?.uid
+      });
+      break;
 
-    res.status(200).json({ success: true });
-  } catch (error) {
-    logger.error('Error handling Concord webhook', {
-      eventId: payload.event_id,
-      eventName: payload.event_name,
-      error: serializeError(error),
-    });
-    res.status(500).json({ error: 'Internal server error' });
+    default:
+      logger.debug('Unhandled Concord event', { eventName });
   }
-});
+}
 
 /**
  * Health check for Concord webhook configuration
@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import path from 'path';
+import express, { Router, Request, Response, NextFunction, CookieOptions } from 'express';
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { safeCompare } from '../utils/webhook';
+import { asyncRoute, parseCookies } from '../utils/http';
+import { CLAStatus, PRRecord } from '../types';
+import * as adminAuthService from '../services/adminAuth';
+import * as claService from '../services/cla';
+import * as commandService from '../services/commands';
+import * as db from '../services/database';
+import * as views from '../views/dashboard';
+
+const router = Router();
+
+const SESSION_COOKIE = 'cla_session';
+const STATE_COOKIE = 'cla_oauth_state';
+const PAGE_SIZE = 50;
+const CLA_STATUSES: CLAStatus[] = ['creating', 'pending', 'signed', 'expired', 'cancelled', 'superseded'];
+
+// Outcome shown after a PR action, passed as a code so the page cannot be made to show arbitrary text
+const ACTION_NOTICES: Record<string, string> = {
+  recheck: 'The CLA was re-checked and the bot comment on the pull request updated.',
+  resend: 'Signing invitations were resent to the contributors who have not signed.',
+  override: 'The CLA requirement was overridden for this pull request.',
+  failed: 'The action failed, see the server logs for details.',
+};
+
+function cookieOptions(maxAgeMs: number): CookieOptions {
+  return {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.publicUrl.startsWith('https://'),
+    path: '/dashboard',
+    maxAge: maxAgeMs,
+  };
+}
+
+function getRedirectUri(): string {
+  return `${config.publicUrl.replace(/\/$/, '')}/dashboard/callback`;
+}
+
+router.use((req, res, next) => {
+  if (!adminAuthService.isDashboardEnabled()) {
+    res.status(404).send(views.renderMessagePage('Not Found', 'The dashboard is disabled.'));
+    return;
+  }
+  next();
+});
+
+router.use(express.urlencoded({ extended: false, limit: '16kb' }));
+
+/**
+ * Start the GitHub sign-in
+ */
+router.get('/login', (req: Request, res: Response) => {
+  const state = crypto.randomBytes(16).toString('hex');
+  res.cookie(STATE_COOKIE, state, cookieOptions(10 * 60 * 1000));
+  res.redirect(adminAuthService.getOAuthAuthorizeUrl(state, getRedirectUri()));
+});
+
+/**
+ * GitHub sends the user back here after sign-in: only admin team members get a session
+ */
+router.get('/callback', asyncRoute(async (req: Request, res: Response) => {
+  const expectedState = parseCookies(req)[STATE_COOKIE];
+  const { code, state } = req.query as { code?: string; state?: string };
+  res.clearCookie(STATE_COOKIE, { path: '/dashboard' });
+
+  if (!code || !state || !expectedState || !safeCompare(state, expectedState)) {
+    return res.status(400).send(views.renderMessagePage('Sign-in failed', 'The sign-in request expired or was tampered with. Please sign in again.'));
+  }
+
+  let login: string | null;
+  try {
+    const token = await adminAuthService.exchangeOAuthCode(code, getRedirectUri());
+    login = await adminAuthService.authenticateGitHubToken(token);
+  } catch (error) {
+    logger.error('Dashboard sign-in failed', { error: serializeError(error) });
+    return res.status(502).send(views.renderMessagePage('Sign-in failed', 'GitHub could not confirm your identity. Please try again.'));
+  }
+
+  if (!login) {
+    const team = config.admin.githubTeam!;
+    return res.status(403).send(views.renderMessagePage(
+      'Access denied',
+      `The dashboard is restricted to members of the ${team.org}/${team.slug} team.`
+    ));
+  }
+
+  logger.info('Dashboard sign-in', { login });
+  res.cookie(SESSION_COOKIE, adminAuthService.createSession(login), cookieOptions(config.admin.sessionTtlHours * 60 * 60 * 1000));
+  res.redirect('/dashboard');
+}));
+
+/**
+ * Require a session of a current admin team member. The login and the form
+ * token are kept in `res.locals`; forms must send the token back.
+ */
+async function requireSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const session = parseCookies(req)[SESSION_COOKIE];
+  const login = session ? adminAuthService.verifySession(session) : null;
+
+  if (!session || !login) {
+    if (req.method === 'GET') {
+      res.redirect('/dashboard/login');
+    } else {
+      res.status(401).send(views.renderMessagePage('Signed out', 'Your session expired. Please sign in again.'));
+    }
+    return;
+  }
+
+  // Members removed from the team lose access without waiting for the session to expire
+  if (!await adminAuthService.isAdminTeamMember(login)) {
+    res.clearCookie(SESSION_COOKIE, { path: '/dashboard' });
+    res.status(403).send(views.renderMessagePage('Access denied', 'You are no longer a member of the admin team.'));
+    return;
+  }
+
+  res.locals.login = login;
+  res.locals.csrfToken = adminAuthService.getCsrfToken(session);
+
+  if (req.method === 'POST' && !safeCompare(String(req.body?.csrf ?? ''), res.locals.csrfToken)) {
+    res.status(403).send(views.renderMessagePage('Invalid form', 'The form expired. Please go back, reload the page and try again.'));
+    return;
+  }
+
+  next();
+}
+
+router.use((req, res, next) => void requireSession(req, res, next).catch(next));
+
+router.post('/logout', (req: Request, res: Response) => {
+  res.clearCookie(SESSION_COOKIE, { path: '/dashboard' });
+  res.send(views.renderMessagePage('Signed out', 'You are signed out of the dashboard.'));
+});
+
+/**
+ * Parse a date filter: a day ("2024-05-01") or an ISO 8601 timestamp.
+ * The end of a range given as a day includes that whole day.
+ */
+function parseDateFilter(value: unknown, endOfDay: boolean): string | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return undefined;
+  const isDay = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(isDay && endOfDay ? time + 24 * 60 * 60 * 1000 : time).toISOString();
+}
+
+/**
+ * Dashboard URL with the given query parameters, empty ones left out
+ */
+function buildLink(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '' && value !== 0) query.set(key, String(value));
+  }
+  const search = query.toString();
+  return search ? `/dashboard?${search}` : '/dashboard';
+}
+
+/**
+ * Signer table with filters and the pending CLA funnel
+ */
+router.get('/', (req: Request, res: Response) => {
+  const query = req.query as Record<string, string | undefined>;
+  const filters: views.SignerFilters = {
+    status: CLA_STATUSES.includes(query.status as CLAStatus) ? query.status as CLAStatus : undefined,
+    query: query.q?.trim() || undefined,
+    repoFullName: query.repo || undefined,
+    version: query.version || undefined,
+    since: query.since && parseDateFilter(query.since, false) ? query.since : undefined,
+    until: query.until && parseDateFilter(query.until, true) ? query.until : undefined,
+    offset: Math.max(0, parseInt(query.offset || '0', 10) || 0),
+    limit: PAGE_SIZE,
+  };
+
+  const { records, total } = db.searchCLARecords({
+    status: filters.status,
+    query: filters.query,
+    repoFullName: filters.repoFullName,
+    version: filters.version,
+    since: parseDateFilter(filters.since, false),
+    until: parseDateFilter(filters.until, true),
+    limit: filters.limit,
+    offset: filters.offset,
+  });
+
+  const linkParams = {
+    status: filters.status,
+    q: filters.query,
+    repo: filters.repoFullName,
+    version: filters.version,
+    since: filters.since,
+    until: filters.until,
+  };
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  res.send(views.renderSignersPage({
+    login: res.locals.login,
+    csrfToken: res.locals.csrfToken,
+    filters,
+    statuses: CLA_STATUSES,
+    statusCounts: db.countCLARecordsByStatus(),
+    funnel: db.getPendingCLAFunnel(),
+    funnelLinks: {
+      all: buildLink({ status: 'pending' }),
+      underOneDay: buildLink({ status: 'pending', since: daysAgo(1) }),
+      oneToSevenDays: buildLink({ status: 'pending', since: daysAgo(7), until: daysAgo(1) }),
+      sevenToThirtyDays: buildLink({ status: 'pending', since: daysAgo(30), until: daysAgo(7) }),
+      overThirtyDays: buildLink({ status: 'pending', until: daysAgo(30) }),
+    },
+    repositories: db.listPRRepositories(),
+    versions: db.listCLAVersions(),
+    records,
+    total,
+    pageLink: (offset) => buildLink({ ...linkParams, offset }),
+  }));
+});
+
+/**
+ * A contributor's CLA with their PRs and audit trail
+ */
+router.get('/signers/:username', (req: Request, res: Response) => {
+  const signer = db.findCLAByGitHubUsername(req.params.username);
+  if (!signer) {
+    return res.status(404).send(views.renderMessagePage('Not Found', `No CLA record for @${req.params.username}.`, res.locals.login, res.locals.csrfToken));
+  }
+
+  res.send(views.renderSignerPage({
+    login: res.locals.login,
+    csrfToken: res.locals.csrfToken,
+    signer,
+    evidence: db.findSignatureEvidence(signer.concord_agreement_uid),
+    pullRequests: db.findPRRecordsByGitHubUserId(signer.github_user_id),
+    audit: db.listAuditEntries(`user:${signer.github_username.toLowerCase()}`),
+  }));
+});
+
+/**
+ * Download the document stored with a manual signature
+ */
+router.get('/signers/:username/document', (req: Request, res: Response) => {
+  const signer = db.findCLAByGitHubUsername(req.params.username);
+  if (!signer?.signature_document) {
+    return res.status(404).send(views.renderMessagePage('Not Found', 'No document is stored for this signer.', res.locals.login, res.locals.csrfToken));
+  }
+
+  res.download(path.join(config.admin.documentsPath, signer.signature_document));
+});
+
+/**
+ * Tracked records of the PR in the URL, or undefined if the PR is unknown
+ */
+function findPullRequest(req: Request): { repoFullName: string; prNumber: number; records: PRRecord[] } | undefined {
+  const repoFullName = `${req.params.owner}/${req.params.repo}`;
+  const prNumber = parseInt(req.params.number, 10);
+  const records = Number.isNaN(prNumber) ? [] : db.findPRRecordsByPullRequest(repoFullName, prNumber);
+  return records.length > 0 ? { repoFullName: records[0].repo_full_name, prNumber, records } : undefined;
+}
+
+/**
+ * A PR's contributors and their CLAs, with the recheck, resend and override actions
+ */
+router.get('/prs/:owner/:repo/:number', (req: Request, res: Response) => {
+  const pullRequest = findPullRequest(req);
+  if (!pullRequest) {
+    return res.status(404).send(views.renderMessagePage('Not Found', 'This pull request is not tracked.', res.locals.login, res.locals.csrfToken));
+  }
+  const { repoFullName, prNumber, records } = pullRequest;
+
+  res.send(views.renderPullRequestPage({
+    login: res.locals.login,
+    csrfToken: res.locals.csrfToken,
+    repoFullName,
+    prNumber,
+    contributors: records.map((record) => ({ record, cla: db.findCLAByGitHubUserId(record.github_user_id) })),
+    override: db.findPROverride(repoFullName, prNumber),
+    exemptions: db.listPRExemptions(repoFullName, prNumber),
+    audit: db.listAuditEntries(`pr:${repoFullName}#${prNumber}`),
+    notice: ACTION_NOTICES[req.query.done as string],
+  }));
+});
+
+type PullRequestAction = 'recheck' | 'resend' | 'override';
+
+/**
+ * Run a `/cla` command on a PR on behalf of the signed-in user, then go back to the PR page
+ */
+function pullRequestAction(action: PullRequestAction) {
+  return asyncRoute(async (req: Request, res: Response) => {
+    const pullRequest = findPullRequest(req);
+    if (!pullRequest) {
+      return res.status(404).send(views.renderMessagePage('Not Found', 'This pull request is not tracked.', res.locals.login, res.locals.csrfToken));
+    }
+    const { repoFullName, prNumber, records } = pullRequest;
+    const [owner, repo] = repoFullName.split('/');
+    const actor = `@${res.locals.login}`;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (action === 'override' && !reason) {
+      return res.status(400).send(views.renderMessagePage('Reason required', 'An override needs a reason.', res.locals.login, res.locals.csrfToken));
+    }
+
+    let outcome: string = action;
+    try {
+      const installationId = await claService.resolveInstallationId(records[0]);
+      if (!installationId) {
+        throw new Error(`No installation found for ${repoFullName}`);
+      }
+
+      if (action === 'recheck') {
+        await commandService.recheckPullRequest(installationId, owner, repo, prNumber, actor);
+      } else if (action === 'resend') {
+        await commandService.resendPullRequest(installationId, owner, repo, prNumber, res.locals.login);
+      } else {
+        await commandService.overridePullRequest(installationId, owner, repo, prNumber, actor, reason);
+      }
+
+      // Overrides are audited by the command itself
+      if (action !== 'override') {
+        db.addAuditEntry(actor, action, `pr:${repoFullName}#${prNumber}`, { source: 'dashboard' });
+      }
+      logger.info('Dashboard action on pull request', { action, repoFullName, prNumber, actor });
+    } catch (error) {
+      logger.error('Dashboard action failed', { action, repoFullName, prNumber, actor, error: serializeError(error) });
+      outcome = 'failed';
+    }
+
+    res.redirect(303, `/dashboard/prs/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/${prNumber}?done=${outcome}`);
+  });
+}
+
+router.post('/prs/:owner/:repo/:number/recheck', pullRequestAction('recheck'));
+router.post('/prs/:owner/:repo/:number/resend', pullRequestAction('resend'));
+router.post('/prs/:owner/:repo/:number/override', pullRequestAction('override'));
+
+export default router;
@@ -1,28 +1,38 @@
-import { Router, Request, Response } from 'express';
-import crypto from 'crypto';
-import { config, isUserExempted } from '../config';
+import express, { Router, Request, Response } from 'express';
+import { config } from '../config';
 import { logger, serializeError } from '../utils/logger';
-import { PullRequestWebhookPayload, IssueCommentWebhookPayload } from '../types';
+import { safeCompare, hmacSha256 } from '../utils/webhook';
+import {
+  PullRequestWebhookPayload,
+  IssueCommentWebhookPayload,
+  CheckRunWebhookPayload,
+  InstallationWebhookPayload,
+  InstallationRepositoriesWebhookPayload,
+} from '../types';
 import * as githubService from '../services/github';
-import * as concordService from '../services/concord';
+import * as claService from '../services/cla';
+import * as clickthroughService from '../services/clickthrough';
+import * as commandService from '../services/commands';
+import * as queueService from '../services/queue';
+import * as metricsService from '../services/metrics';
 import * as db from '../services/database';
 
 const router = Router();
 
 /**
- * Verify GitHub webhook signature
+ * Verify GitHub webhook signature against the exact bytes received.
+ * Every accepted secret is tried in turn to allow secret rotation.
  */
-function verifySignature(payload: string, signature: string | undefined): boolean {
+function verifySignature(payload: Buffer, signature: string | undefined): boolean {
   if (!signature) return false;
 
-  const hmac = crypto.createHmac('sha256', config.github.webhookSecret);
-  const digest = 'sha256=' + hmac.update(payload).digest('hex');
-  
-  try {
-    return crypto.timingSafeEqual(Buffer.from(digest), Buffer.from(signature));
-  } catch {
-    return false;
-  }
+  return config.github.webhookSecrets.some((secret, index) => {
+    const matches = safeCompare('sha256=' + hmacSha256(secret, payload), signature);
+    if (matches && index > 0) {
+      logger.debug('Webhook signed with a previous secret', { secretIndex: index });
+    }
+    return matches;
+  });
 }
 
 /**
@@ -31,8 +41,13 @@ function verifySignature(payload: string, signature: string | undefined): boolea
 async function handlePullRequestEvent(payload: PullRequestWebhookPayload): Promise<void> {
   const { action, pull_request: pr, repository, installation } = payload;
 
-  // Only handle opened, synchronize, and reopened events
-  if (!['opened', 'synchronize', 'reopened'].includes(action)) {
+  if (action === 'closed') {
+    handlePullRequestClosed(payload);
+    return;
+  }
+
+  // Only handle opened, synchronize, reopened and ready_for_review events
+  if (!['opened', 'synchronize', 'reopened', 'ready_for_review'].includes(action)) {
     logger.debug('Ignoring PR action', { action });
     return;
   }
@@ -44,268 +59,363 @@ async function handlePullRequestEvent(payload: PullRequestWebhookPayload): Promi
 
   const owner = repository.owner.login;
   const repo = repository.name;
-  const repoFullName = repository.full_name;
-  const prNumber = pr.number;
-  const username = pr.user.login;
-  const userId = pr.user.id;
-  const sha = pr.head.sha;
 
   logger.info('Processing pull request', {
     action,
     owner,
     repo,
-    prNumber,
-    username,
-    sha,
+    prNumber: pr.number,
+    username: pr.user.login,
+    sha: pr.head.sha,
   });
 
+  if (action === 'reopened') {
+    db.updatePRRecordsState(repository.full_name, pr.number, 'open');
+    // A reopened PR gets a new final warning before auto_close closes it again
+    db.deletePRExpiration(repository.full_name, pr.number);
+  }
+
   const octokit = await githubService.getInstallationOctokit(installation.id);
 
-  // Check if user is exempted from CLA (whitelist or GitHub org member)
-  const isWhitelisted = isUserExempted(username);
-  const isOrgMember = !isWhitelisted && !config.cla.skipOrgMemberCheck && await githubService.isOrganizationMember(octokit, owner, username);
+  // Every commit author, committer and co-author must be covered, not only the PR author
+  await claService.evaluatePullRequest(octokit, installation.id, owner, repo, pr);
+}
 
-  if (isWhitelisted || isOrgMember) {
-    logger.info('User is exempted from CLA', { 
-      username, 
-      userId, 
-      reason: isWhitelisted ? 'whitelist' : 'org_member',
-      org: owner,
-    });
-    
-    // Set success status — no comment or label needed
-    await githubService.createCLAStatus(octokit, owner, repo, sha, true, undefined, 'CLA not required (organization member)');
-    
-    return;
-  }
+/**
+ * Record a closed or merged PR so that later signatures and revocations leave
+ * it alone. Merged PRs stay in the database for audits.
+ */
+function handlePullRequestClosed(payload: PullRequestWebhookPayload): void {
+  const { pull_request: pr, repository } = payload;
+  const merged = Boolean(pr.merged || pr.merged_at);
+
+  db.updatePRRecordsState(
+    repository.full_name,
+    pr.number,
+    merged ? 'merged' : 'closed',
+    pr.closed_at ?? new Date().toISOString(),
+    merged ? pr.merged_at ?? undefined : undefined
+  );
 
-  // Check if user has already signed the CLA (organization-wide, works across all repos)
-  const existingCLA = db.findCLAByGitHubUserId(userId);
+  logger.info(merged ? 'Pull request merged' : 'Pull request closed', {
+    repoFullName: repository.full_name,
+    prNumber: pr.number,
+  });
+}
 
-  if (existingCLA && existingCLA.status === 'signed') {
-    logger.info('User has already signed CLA', { username, userId });
-    
-    // Update status to success — no comment needed
-    await githubService.createCLAStatus(octokit, owner, repo, sha, true, undefined, 'CLA already signed');
-    
-    return;
-  }
+// Last `/cla recheck`, `/cla resend` and `/cla status` run per PR and command, keyed by "owner/repo#12:recheck"
+const commandCooldowns = new Map<string, { ranAt: number; notified: boolean }>();
 
-  // Check if there's an existing signed CLA in Concord by GitHub username
-  // (source of truth is the username, not the email which can change)
-  const existingConcordCLA = await concordService.findExistingCLA(username);
-  
-  if (existingConcordCLA && existingConcordCLA.status === 'CURRENT_CONTRACT') {
-    logger.info('Found existing signed CLA in Concord', { username, agreementUid: existingConcordCLA.uid });
-    
-    // Sync back to local database
-    db.createCLARecord({
-      github_username: username,
-      github_user_id: userId,
-      github_email: undefined,
-      concord_agreement_uid: existingConcordCLA.uid,
-      status: 'signed',
-      signed_at: existingConcordCLA.signatureDate 
-        ? new Date(existingConcordCLA.signatureDate).toISOString() 
-        : new Date().toISOString(),
-    });
+const GITHUB_USERNAME_ARGUMENT = /^@?([a-z\d](?:[a-z\d-]{0,38}))$/i;
 
-    await githubService.createCLAStatus(octokit, owner, repo, sha, true, undefined, 'CLA already signed');
-    
-    return;
-  }
+const COMMAND_HELP = `the CLA bot understands these commands, written at the start of a line of a comment on this pull request:
 
-  // If the user already has a pending CLA, reuse it for this PR instead of
-  // creating a duplicate agreement in Concord.
-  if (existingCLA && existingCLA.status === 'pending') {
-    let prRecord = db.findPRRecord(repoFullName, prNumber, userId);
+| Command | What it does |
+|---------|--------------|
+| \`/cla recheck\` | Check again whether every contributor has signed the CLA |
+| \`/cla resend\` | Resend the signing invitation to contributors who have not signed yet |
+| \`/cla status\` | Show the CLA state, agreement and invitation of every contributor |
+| \`/cla help\` | Show this help |
+| \`/cla override <reason>\` | Let the pull request through without every contributor having signed (maintainers only) |
+| \`/cla exempt @user\` | Exempt a contributor from the CLA on this pull request (maintainers only) |
 
-    if (prRecord) {
-      // PR record already exists, just refresh the commit status
-      await githubService.createCLAStatus(octokit, owner, repo, sha, false);
-      return;
-    }
+Commands can also be written as \`@${config.github.appSlug} <command>\`.`;
 
-    // New PR for the same user — register it and post the CLA comment
-    // so the contributor has the signing link on every PR.
-    let signingUrl: string | undefined;
-    try {
-      signingUrl = await concordService.createSharedLink(existingCLA.concord_agreement_uid);
-    } catch (error) {
-      logger.warn('Could not create shared signing link for additional PR', {
-        error: serializeError(error),
-        agreementUid: existingCLA.concord_agreement_uid,
-      });
-    }
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
-    prRecord = db.createPRRecord({
-      repo_full_name: repoFullName,
-      pr_number: prNumber,
-      github_username: username,
-      github_user_id: userId,
-      concord_agreement_uid: existingCLA.concord_agreement_uid,
-    });
+/**
+ * Find a `/cla <command> [arguments]` or `@<app> <command> [arguments]` line in
+ * a comment, or null if it has none. The arguments run to the end of the comment.
+ */
+export function parseCommand(body: string): { command: string; args: string } | null {
+  const mention = `@${escapeRegExp(config.github.appSlug)}(?:\\[bot\\])?`;
+  const pattern = new RegExp(`^[ \\t]*(?:${mention}[ \\t,:]+(?:/cla[ \\t]+)?|/cla[ \\t]+)([^\\s]+)([\\s\\S]*)$`, 'im');
+  const match = body.match(pattern);
+  return match ? { command: match[1].toLowerCase(), args: match[2].trim() } : null;
+}
 
-    await githubService.addCLAPendingLabel(octokit, owner, repo, prNumber);
-    const commentId = await githubService.createCLAPendingComment(
-      octokit, owner, repo, prNumber, username, signingUrl
-    );
-    db.updatePRRecordCommentId(repoFullName, prNumber, userId, commentId);
-    await githubService.createCLAStatus(octokit, owner, repo, sha, false);
+/**
+ * Start the cooldown of a command on a PR. Returns the cooldown entry if the
+ * command ran too recently and must be skipped.
+ */
+function startCommandCooldown(key: string): { ranAt: number; notified: boolean } | undefined {
+  const now = Date.now();
+  const cooldownMs = config.cla.commandCooldownSeconds * 1000;
 
-    logger.info('Linked additional PR to existing pending CLA', {
-      username,
-      prNumber,
-      agreementUid: existingCLA.concord_agreement_uid,
-    });
+  const previous = commandCooldowns.get(key);
+  if (previous && now - previous.ranAt < cooldownMs) {
+    return previous;
+  }
+
+  for (const [k, entry] of commandCooldowns) {
+    if (now - entry.ranAt >= cooldownMs) commandCooldowns.delete(k);
+  }
+  commandCooldowns.set(key, { ranAt: now, notified: false });
+  return undefined;
+}
+
+/**
+ * Reply to the author of a command comment
+ */
+async function replyToCommand(payload: IssueCommentWebhookPayload, body: string): Promise<void> {
+  const octokit = await githubService.getInstallationOctokit(payload.installation!.id);
+  await octokit.issues.createComment({
+    owner: payload.repository.owner.login,
+    repo: payload.repository.name,
+    issue_number: payload.issue.number,
+    body: `@${payload.comment.user.login} ${body}`,
+  });
+}
+
+/**
+ * Handle issue comment events (for bot commands)
+ */
+async function handleIssueCommentEvent(payload: IssueCommentWebhookPayload): Promise<void> {
+  const { action, comment, issue, repository, installation, changes } = payload;
+
+  // Only handle new and edited comments on pull requests, from people
+  if (!['created', 'edited'].includes(action) || !issue.pull_request || comment.user.login.endsWith('[bot]')) {
     return;
   }
 
-  // Get user email - try real commit emails first, then profile, then noreply fallback
-  let userEmail: string | null = null;
-  
-  const commitEmails = await githubService.getPRCommitEmails(octokit, owner, repo, prNumber);
-  if (commitEmails.length > 0) {
-    // Only use commit emails that are real (not noreply)
-    const realEmails = commitEmails.filter(
-      (e) => !e.includes('noreply.github.com')
-    );
-    userEmail = realEmails[0] || null;
+  // Signing with the agreement phrase is only accepted in a new comment, so
+  // that its date is the date of the signature
+  if (action === 'created' && clickthroughService.isSignPhrase(comment.body)) {
+    const reaction = await handleSignPhrase(payload);
+    if (installation?.id) {
+      const octokit = await githubService.getInstallationOctokit(installation.id);
+      await githubService.addCommentReaction(octokit, repository.owner.login, repository.name, comment.id, reaction);
+    }
+    return;
   }
 
-  if (!userEmail) {
-    userEmail = await githubService.getUserEmail(octokit, username);
+  const parsed = parseCommand(comment.body);
+  if (!parsed) {
+    return;
   }
 
-  if (!userEmail) {
-    // Use noreply GitHub email as last resort
-    userEmail = `${userId}+${username}@users.noreply.github.com`;
+  // Editing a comment runs its command only if the edit changed it
+  if (action === 'edited') {
+    const previous = changes?.body ? parseCommand(changes.body.from) : null;
+    if (previous && previous.command === parsed.command && previous.args === parsed.args) {
+      return;
+    }
   }
 
-  logger.info('User email determined', { username, userEmail });
+  if (!installation?.id) {
+    logger.error('No installation ID in webhook payload');
+    return;
+  }
 
-  // Create a new CLA agreement
-  let agreementResult;
-  try {
-    agreementResult = await concordService.createAgreementFromTemplate(
-      userEmail,
-      pr.user.name || username,
-      username,
-    );
-  } catch (error) {
-    logger.error('Failed to create CLA agreement', { 
-      error: serializeError(error),
-      username,
-      userEmail,
-      repoFullName,
-      prNumber,
-    });
-    
-    await githubService.addCLAPendingLabel(octokit, owner, repo, prNumber);
-    await githubService.createCLAStatus(octokit, owner, repo, sha, false);
-    
-    // Create a comment with error message
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: prNumber,
-      body: `## Contributor License Agreement
+  const reaction = await runCommand(payload, parsed.command, parsed.args);
 
-Hey @${username}!
+  const octokit = await githubService.getInstallationOctokit(installation.id);
+  await githubService.addCommentReaction(octokit, repository.owner.login, repository.name, comment.id, reaction);
+}
 
-We need you to sign our CLA before we can merge this pull request. Unfortunately, there was an issue creating your agreement automatically.
+/**
+ * Run a command and return the reaction acknowledging it: 👍 when it ran,
+ * 👎 when it was refused and 😕 when it was not understood
+ */
+async function runCommand(
+  payload: IssueCommentWebhookPayload,
+  command: string,
+  args: string
+): Promise<githubService.CommentReaction> {
+  const { issue, repository } = payload;
+
+  switch (command) {
+    case 'recheck':
+    case 'resend':
+    case 'status': {
+      // Anyone can run these: limit how often they hit GitHub and Concord
+      const key = `${repository.full_name}#${issue.number}:${command}`;
+      const cooldown = startCommandCooldown(key);
+      if (cooldown) {
+        logger.info('CLA command rate-limited', { command, repoFullName: repository.full_name, prNumber: issue.number });
+        if (!cooldown.notified) {
+          cooldown.notified = true;
+          await replyToCommand(payload, `\`/cla ${command}\` was run on this pull request less than ${config.cla.commandCooldownSeconds} seconds ago. Please wait a moment before trying again.`);
+        }
+        return '-1';
+      }
 
-Please contact the maintainers for assistance.
+      try {
+        await (command === 'recheck' ? handleCLARecheck(payload)
+          : command === 'resend' ? handleCLAResend(payload)
+          : handleCLAStatus(payload));
+      } catch (error) {
+        // Let the queue retry the command
+        commandCooldowns.delete(key);
+        throw error;
+      }
+      return '+1';
+    }
 
----
+    case 'help':
+      await replyToCommand(payload, COMMAND_HELP);
+      return '+1';
 
-:x: **CLA not signed yet**`,
-    });
-    
-    return;
+    case 'override':
+      return handleCLAOverride(payload, args);
+
+    case 'exempt':
+      return handleCLAExempt(payload, args);
+
+    default:
+      await replyToCommand(payload, `\`${command}\` is not a CLA command — ${COMMAND_HELP}`);
+      return 'confused';
   }
+}
 
-  // Generate a shared signing link so the contributor can sign directly
-  let signingUrl: string | undefined;
-  try {
-    signingUrl = await concordService.createSharedLink(agreementResult.agreementUid);
-  } catch (error) {
-    logger.warn('Could not create shared signing link', {
-      error: serializeError(error),
-      agreementUid: agreementResult.agreementUid,
-    });
+/**
+ * Whether the commenter may use a maintainer command; others get a polite reply
+ */
+async function checkMaintainer(payload: IssueCommentWebhookPayload, command: string): Promise<boolean> {
+  const { comment, issue, repository, installation } = payload;
+  const octokit = await githubService.getInstallationOctokit(installation!.id);
+
+  if (await commandService.isMaintainer(octokit, repository.owner.login, repository.name, comment.user.login)) {
+    return true;
   }
 
-  // Save CLA record
-  db.createCLARecord({
-    github_username: username,
-    github_user_id: userId,
-    github_email: userEmail,
-    concord_agreement_uid: agreementResult.agreementUid,
-    status: 'pending',
+  logger.warn('Unauthorized CLA command', {
+    command,
+    requestedBy: comment.user.login,
+    prNumber: issue.number,
+    repoFullName: repository.full_name,
   });
+  await replyToCommand(payload, `Sorry, only maintainers with write access to this repository can use \`/cla ${command}\`. If you think this pull request should not need a CLA, please ask one of them.`);
+  return false;
+}
 
-  // Save PR record
-  db.createPRRecord({
-    repo_full_name: repoFullName,
-    pr_number: prNumber,
-    github_username: username,
-    github_user_id: userId,
-    concord_agreement_uid: agreementResult.agreementUid,
-  });
+/**
+ * /cla override <reason> — Let the PR through without every contributor having
+ * signed (maintainers only)
+ */
+async function handleCLAOverride(payload: IssueCommentWebhookPayload, reason: string): Promise<githubService.CommentReaction> {
+  const { comment, issue, repository, installation } = payload;
 
-  // Add pending label and create comment
-  await githubService.addCLAPendingLabel(octokit, owner, repo, prNumber);
-  const commentId = await githubService.createCLAPendingComment(
-    octokit,
-    owner,
-    repo,
-    prNumber,
-    username,
-    signingUrl
+  if (!await checkMaintainer(payload, 'override')) {
+    return '-1';
+  }
+  if (!reason) {
+    await replyToCommand(payload, 'Please give a reason: `/cla override <reason>`.');
+    return 'confused';
+  }
+
+  await commandService.overridePullRequest(
+    installation!.id,
+    repository.owner.login,
+    repository.name,
+    issue.number,
+    `@${comment.user.login}`,
+    reason
   );
+  return '+1';
+}
 
-  // Update PR record with comment ID
-  db.updatePRRecordCommentId(repoFullName, prNumber, userId, commentId);
+/**
+ * /cla exempt @user — Exempt a contributor from the CLA on this PR (maintainers only)
+ */
+async function handleCLAExempt(payload: IssueCommentWebhookPayload, args: string): Promise<githubService.CommentReaction> {
+  const { comment, issue, repository, installation } = payload;
 
-  // Set commit status
-  await githubService.createCLAStatus(
-    octokit,
-    owner,
-    repo,
-    sha,
-    false
-  );
+  if (!await checkMaintainer(payload, 'exempt')) {
+    return '-1';
+  }
 
-  logger.info('CLA request created', {
+  const username = args.split(/\s+/)[0].match(GITHUB_USERNAME_ARGUMENT)?.[1];
+  if (!username) {
+    await replyToCommand(payload, 'Please name the contributor to exempt: `/cla exempt @username`.');
+    return 'confused';
+  }
+
+  const exempted = await commandService.exemptUserOnPullRequest(
+    installation!.id,
+    repository.owner.login,
+    repository.name,
+    issue.number,
     username,
-    agreementUid: agreementResult.agreementUid,
-    commentId,
-  });
+    `@${comment.user.login}`
+  );
+
+  // A new exemption shows in the bot comment
+  if (!exempted) {
+    await replyToCommand(payload, `@${username} is already exempted from the CLA on this pull request.`);
+  }
+  return '+1';
 }
 
 /**
- * Handle issue comment events (for bot commands)
+ * /cla status — Show the CLA state of every contributor of the PR, without
+ * creating agreements or sending invitations
  */
-async function handleIssueCommentEvent(payload: IssueCommentWebhookPayload): Promise<void> {
-  const { action, comment, issue, repository, installation } = payload;
+async function handleCLAStatus(payload: IssueCommentWebhookPayload): Promise<void> {
+  const { comment, issue, repository, installation } = payload;
 
-  // Only handle new comments on pull requests
-  if (action !== 'created' || !issue.pull_request) {
-    return;
-  }
+  logger.info('CLA status requested', {
+    requestedBy: comment.user.login,
+    prNumber: issue.number,
+    repoFullName: repository.full_name,
+  });
+
+  await commandService.reportPullRequestStatus(
+    installation!.id,
+    repository.owner.login,
+    repository.name,
+    issue.number,
+    comment.user.login
+  );
+}
+
+/**
+ * A contributor posted the agreement phrase: sign their pending click-through
+ * agreement with the comment as evidence, then update their open PRs.
+ * Returns 👍 when signed (or already signed) and 😕 when there is nothing to sign.
+ */
+async function handleSignPhrase(payload: IssueCommentWebhookPayload): Promise<githubService.CommentReaction> {
+  const { comment, issue, repository } = payload;
+  const { id: userId, login: username } = comment.user;
+
+  const outcome = await claService.withSignerLock(userId, async () => {
+    const record = db.findCLAByGitHubUserId(userId);
+    if (record?.status === 'signed') {
+      return 'already_signed';
+    }
+    if (!record || record.status !== 'pending' || record.signature_source !== 'clickthrough') {
+      return 'nothing_to_sign';
+    }
 
-  const body = comment.body.trim().toLowerCase();
+    const signed = clickthroughService.signAgreement(record, {
+      method: 'comment',
+      textHash: clickthroughService.hashAgreementText(clickthroughService.getAgreementText()),
+      sourceUrl: comment.html_url,
+    });
+    return signed ? 'signed' : 'nothing_to_sign';
+  });
 
-  if (body === '/cla recheck') {
-    await handleCLARecheck(payload);
-  } else if (body === '/cla resend') {
-    await handleCLAResend(payload);
+  if (outcome === 'already_signed') {
+    return '+1';
   }
+  if (outcome === 'nothing_to_sign') {
+    logger.info('Agreement phrase posted without a pending agreement', {
+      username,
+      repoFullName: repository.full_name,
+      prNumber: issue.number,
+    });
+    return 'confused';
+  }
+
+  db.addPRHistoryEntry(repository.full_name, issue.number, `@${username} signed the CLA with a comment`);
+  await claService.updateContributorPRs(userId, username);
+  return '+1';
 }
 
 /**
- * /cla recheck — Re-evaluate the CLA status for the PR author.
+ * /cla recheck — Re-evaluate the CLA status for every contributor of the PR.
  * Checks exemption list, local DB, and Concord. If the CLA is satisfied,
  * updates the commit status, removes the pending label, and updates the comment.
  */
@@ -319,116 +429,61 @@ async function handleCLARecheck(payload: IssueCommentWebhookPayload): Promise<vo
 
   const owner = repository.owner.login;
   const repo = repository.name;
-  const repoFullName = repository.full_name;
   const prNumber = issue.number;
-  const prAuthor = issue.user;
 
   logger.info('CLA recheck requested', {
     requestedBy: comment.user.login,
-    prAuthor: prAuthor.login,
+    prAuthor: issue.user.login,
     prNumber,
-    repoFullName,
+    repoFullName: repository.full_name,
   });
 
-  const octokit = await githubService.getInstallationOctokit(installation.id);
-  const pr = await githubService.getPullRequest(octokit, owner, repo, prNumber);
-  const sha = pr.head.sha;
-  const prRecord = db.findPRRecord(repoFullName, prNumber, prAuthor.id);
-
-  // 1. Check exemption list (whitelist or org member)
-  const isWhitelisted = isUserExempted(prAuthor.login);
-  const isOrgMember = !isWhitelisted && !config.cla.skipOrgMemberCheck
-    && await githubService.isOrganizationMember(octokit, owner, prAuthor.login);
-
-  if (isWhitelisted || isOrgMember) {
-    const reason = isWhitelisted ? 'exemption list' : 'organization membership';
-    logger.info('Recheck: user is exempted', { username: prAuthor.login, reason });
+  await commandService.recheckPullRequest(installation.id, owner, repo, prNumber, `@${comment.user.login}`);
+}
 
-    await markPRAsSatisfied(octokit, owner, repo, prNumber, sha, prAuthor.login, prRecord?.comment_id, `CLA not required (${reason})`);
+/**
+ * Handle check run events: the "Re-check" requested action and re-runs
+ * trigger the same logic as `/cla recheck`
+ */
+async function handleCheckRunEvent(payload: CheckRunWebhookPayload): Promise<void> {
+  const { action, check_run: checkRun, requested_action: requestedAction, repository, installation, sender } = payload;
 
-    await octokit.issues.createComment({
-      owner, repo, issue_number: prNumber,
-      body: `:white_check_mark: **CLA recheck passed** — @${prAuthor.login} is exempted from the CLA (${reason}).`,
-    });
+  if (checkRun.name !== config.cla.checkName) {
     return;
   }
 
-  // 2. Check local DB
-  const claRecord = db.findCLAByGitHubUserId(prAuthor.id);
-  if (claRecord && claRecord.status === 'signed') {
-    logger.info('Recheck: CLA already signed in DB', { username: prAuthor.login });
-
-    await markPRAsSatisfied(octokit, owner, repo, prNumber, sha, prAuthor.login, prRecord?.comment_id, 'CLA already signed');
-
-    await octokit.issues.createComment({
-      owner, repo, issue_number: prNumber,
-      body: `:white_check_mark: **CLA recheck passed** — @${prAuthor.login} has already signed the CLA.`,
-    });
+  const isRecheck = (action === 'requested_action' && requestedAction?.identifier === githubService.RECHECK_ACTION_ID)
+    || action === 'rerequested';
+  if (!isRecheck) {
     return;
   }
 
-  // 3. Check Concord by username
-  const existingConcordCLA = await concordService.findExistingCLA(prAuthor.login);
-  if (existingConcordCLA && existingConcordCLA.status === 'CURRENT_CONTRACT') {
-    logger.info('Recheck: found signed CLA in Concord', { username: prAuthor.login, agreementUid: existingConcordCLA.uid });
-
-    db.createCLARecord({
-      github_username: prAuthor.login,
-      github_user_id: prAuthor.id,
-      github_email: undefined,
-      concord_agreement_uid: existingConcordCLA.uid,
-      status: 'signed',
-      signed_at: existingConcordCLA.signatureDate
-        ? new Date(existingConcordCLA.signatureDate).toISOString()
-        : new Date().toISOString(),
-    });
+  if (!installation?.id) {
+    logger.error('No installation ID in webhook payload');
+    return;
+  }
 
-    await markPRAsSatisfied(octokit, owner, repo, prNumber, sha, prAuthor.login, prRecord?.comment_id, 'CLA already signed');
+  // Fork PRs are not listed in pull_requests, the PR number is kept in external_id
+  const prNumber = checkRun.pull_requests[0]?.number
+    ?? (checkRun.external_id ? parseInt(checkRun.external_id, 10) : NaN);
 
-    await octokit.issues.createComment({
-      owner, repo, issue_number: prNumber,
-      body: `:white_check_mark: **CLA recheck passed** — @${prAuthor.login} has already signed the CLA.`,
-    });
+  if (Number.isNaN(prNumber)) {
+    logger.warn('Could not determine PR for check run', { checkRunId: checkRun.id, sha: checkRun.head_sha });
     return;
   }
 
-  // Nothing found — still pending
-  await octokit.issues.createComment({
-    owner, repo, issue_number: prNumber,
-    body: `:x: **CLA recheck** — @${prAuthor.login} has not signed the CLA yet and is not on the exemption list.`,
+  logger.info('CLA recheck requested from check run', {
+    requestedBy: sender.login,
+    prNumber,
+    repoFullName: repository.full_name,
   });
-}
 
-/**
- * Mark a PR as CLA-satisfied: set success status, remove pending label,
- * and update the bot comment if one exists.
- */
-async function markPRAsSatisfied(
-  octokit: Awaited<ReturnType<typeof githubService.getInstallationOctokit>>,
-  owner: string,
-  repo: string,
-  prNumber: number,
-  sha: string,
-  username: string,
-  commentId: number | undefined,
-  description: string,
-): Promise<void> {
-  await githubService.createCLAStatus(octokit, owner, repo, sha, true, undefined, description);
-  await githubService.removeCLAPendingLabel(octokit, owner, repo, prNumber);
-
-  if (commentId) {
-    try {
-      await githubService.updateCommentCLASigned(octokit, owner, repo, commentId, username);
-    } catch (error) {
-      logger.warn('Could not update CLA comment during recheck', {
-        commentId, error: serializeError(error),
-      });
-    }
-  }
+  await commandService.recheckPullRequest(installation.id, repository.owner.login, repository.name, prNumber, `@${sender.login}`);
 }
 
 /**
- * /cla resend — Resend or recreate the CLA signing invitation.
+ * /cla resend — Resend or recreate the CLA signing invitation for every
+ * contributor of the PR who has not signed yet.
  */
 async function handleCLAResend(payload: IssueCommentWebhookPayload): Promise<void> {
   const { comment, issue, repository, installation } = payload;
@@ -440,223 +495,153 @@ async function handleCLAResend(payload: IssueCommentWebhookPayload): Promise<voi
 
   const owner = repository.owner.login;
   const repo = repository.name;
-  const repoFullName = repository.full_name;
   const prNumber = issue.number;
-  const prAuthor = issue.user;
 
   logger.info('CLA resend requested', {
     requestedBy: comment.user.login,
-    prAuthor: prAuthor.login,
+    prAuthor: issue.user.login,
     prNumber,
-    repoFullName,
+    repoFullName: repository.full_name,
   });
 
-  const octokit = await githubService.getInstallationOctokit(installation.id);
-
-  // Get user email for the PR author - try real commit emails first, then profile, then noreply fallback
-  let userEmail: string | null = null;
-  const commitEmails = await githubService.getPRCommitEmails(octokit, owner, repo, prNumber);
-  if (commitEmails.length > 0) {
-    const realEmails = commitEmails.filter((e) => !e.includes('noreply.github.com'));
-    userEmail = realEmails[0] || null;
-  }
-  if (!userEmail) {
-    userEmail = await githubService.getUserEmail(octokit, prAuthor.login);
-  }
-  if (!userEmail) {
-    userEmail = `${prAuthor.id}+${prAuthor.login}@users.noreply.github.com`;
-  }
-
-  // Check if there's an existing CLA record
-  const claRecord = db.findCLAByGitHubUserId(prAuthor.id);
-
-  // If there's an existing pending record, check if the agreement still exists in Concord
-  let needsNewAgreement = !claRecord;
-
-  if (claRecord && claRecord.status === 'pending') {
-    // If the stored email differs from the newly resolved email (e.g. was sent to a
-    // noreply address), the existing Concord agreement has the wrong signer — we must
-    // purge it and create a fresh one with the correct email.
-    const emailChanged = claRecord.github_email !== userEmail;
-
-    if (emailChanged) {
-      logger.info('Email changed since original agreement, will recreate', {
-        oldEmail: claRecord.github_email,
-        newEmail: userEmail,
-        agreementUid: claRecord.concord_agreement_uid,
-      });
-      needsNewAgreement = true;
-    } else {
-      try {
-        await concordService.getAgreement(claRecord.concord_agreement_uid);
-        // Agreement still exists with correct email — just resend the invitation
-        logger.info('Agreement still exists in Concord, resending invitation', {
-          agreementUid: claRecord.concord_agreement_uid,
-        });
-
-        await concordService.resendCLAInvitation(
-          claRecord.concord_agreement_uid,
-          userEmail,
-          prAuthor.name || prAuthor.login,
-          prAuthor.login
-        );
-
-        let resendSigningUrl: string | undefined;
-        try {
-          resendSigningUrl = await concordService.createSharedLink(claRecord.concord_agreement_uid);
-        } catch (linkError) {
-          logger.warn('Could not create shared signing link on resend', {
-            error: serializeError(linkError),
-            agreementUid: claRecord.concord_agreement_uid,
-          });
-        }
+  await commandService.resendPullRequest(installation.id, owner, repo, prNumber, comment.user.login);
+}
 
-        const resendBody = resendSigningUrl
-          ? `:email: CLA signing invitation has been resent and a signing link has been generated for **@${prAuthor.login}**.\n\n:link: **[Click here to sign the CLA directly](${resendSigningUrl})**\n\nYou can also check your email (including spam folder) for the signing invitation.`
-          : `:email: CLA signing invitation has been resent to **@${prAuthor.login}**. Please check your email (including spam folder).`;
-
-        await octokit.issues.createComment({
-          owner,
-          repo,
-          issue_number: prNumber,
-          body: resendBody,
-        });
-        return;
-      } catch {
-        // Agreement doesn't exist anymore in Concord — clean up and recreate
-        logger.info('Agreement no longer exists in Concord, will recreate', {
-          agreementUid: claRecord.concord_agreement_uid,
-        });
-        needsNewAgreement = true;
+/**
+ * Handle installation events: keep the repository → installation map current
+ */
+function handleInstallationEvent(payload: InstallationWebhookPayload): void {
+  const { action, installation, repositories } = payload;
+
+  switch (action) {
+    case 'created':
+    case 'unsuspend':
+      // Installations on all repositories do not list them; their repositories
+      // are mapped as their events come in
+      for (const repository of repositories ?? []) {
+        db.upsertRepoInstallation(repository.full_name, installation.id);
       }
-    }
-  } else if (claRecord && claRecord.status === 'signed') {
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: prNumber,
-      body: `:white_check_mark: @${prAuthor.login} has already signed the CLA — no resend needed.`,
-    });
-    return;
-  }
-
-  if (needsNewAgreement) {
-    // Clean up old records if any
-    if (claRecord) {
-      db.deleteCLAByGitHubUserId(prAuthor.id);
-    }
-
-    // Create a fresh agreement
-    try {
-      const agreementResult = await concordService.createAgreementFromTemplate(
-        userEmail,
-        prAuthor.name || prAuthor.login,
-        prAuthor.login,
-      );
-
-      // Save new CLA record
-      db.createCLARecord({
-        github_username: prAuthor.login,
-        github_user_id: prAuthor.id,
-        github_email: userEmail,
-        concord_agreement_uid: agreementResult.agreementUid,
-        status: 'pending',
+      logger.info('App installed', {
+        installationId: installation.id,
+        account: installation.account.login,
+        repositories: repositories?.length,
       });
+      break;
 
-      // Generate a shared signing link
-      let newSigningUrl: string | undefined;
-      try {
-        newSigningUrl = await concordService.createSharedLink(agreementResult.agreementUid);
-      } catch (linkError) {
-        logger.warn('Could not create shared signing link on resend (new agreement)', {
-          error: serializeError(linkError),
-          agreementUid: agreementResult.agreementUid,
-        });
-      }
-
-      // Update PR record with new agreement UID
-      db.updatePRRecordAgreementUid(repoFullName, prNumber, prAuthor.id, agreementResult.agreementUid);
-
-      // Get PR details for the commit status
-      const pr = await githubService.getPullRequest(octokit, owner, repo, prNumber);
-      await githubService.createCLAStatus(octokit, owner, repo, pr.head.sha, false);
-
-      const newAgreementBody = newSigningUrl
-        ? `:arrows_counterclockwise: A new CLA agreement has been created for **@${prAuthor.login}**.\n\n:link: **[Click here to sign the CLA directly](${newSigningUrl})**\n\nYou can also check your email (including spam folder) for the signing invitation.`
-        : `:arrows_counterclockwise: A new CLA agreement has been created and sent to **@${prAuthor.login}**. Please check your email (including spam folder) for the signing invitation.`;
+    case 'deleted':
+    case 'suspend': {
+      const removed = db.deleteInstallation(installation.id);
+      logger.info('App uninstalled', { installationId: installation.id, account: installation.account.login, action, removed });
+      break;
+    }
 
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: prNumber,
-        body: newAgreementBody,
-      });
+    default:
+      logger.debug('Ignoring installation action', { action });
+  }
+}
 
-      logger.info('New CLA agreement created via resend command', {
-        prAuthor: prAuthor.login,
-        agreementUid: agreementResult.agreementUid,
-      });
-    } catch (error) {
-      logger.error('Failed to create new CLA agreement via resend', {
-        error: serializeError(error),
-        prAuthor: prAuthor.login,
-      });
+/**
+ * Handle repositories being added to or removed from an installation
+ */
+function handleInstallationRepositoriesEvent(payload: InstallationRepositoriesWebhookPayload): void {
+  const { installation, repositories_added: added, repositories_removed: removed } = payload;
 
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: prNumber,
-        body: `@${comment.user.login} Failed to create a new CLA agreement. Please contact the maintainers for assistance.`,
-      });
-    }
+  for (const repository of added) {
+    db.upsertRepoInstallation(repository.full_name, installation.id);
+  }
+  for (const repository of removed) {
+    db.deleteRepoInstallation(repository.full_name);
   }
+
+  logger.info('Installation repositories changed', {
+    installationId: installation.id,
+    added: added.map((r) => r.full_name),
+    removed: removed.map((r) => r.full_name),
+  });
 }
 
 /**
  * GitHub webhook endpoint
  */
-router.post('/webhook', async (req: Request, res: Response) => {
+router.post('/webhook', express.raw({ type: () => true, limit: '25mb' }), async (req: Request, res: Response) => {
   const signature = req.headers['x-hub-signature-256'] as string;
   const event = req.headers['x-github-event'] as string;
   const deliveryId = req.headers['x-github-delivery'] as string;
 
   logger.debug('Received GitHub webhook', { event, deliveryId });
 
-  // Verify signature
-  const rawBody = JSON.stringify(req.body);
+  // Verify signature on the raw bytes — re-serializing the parsed JSON does
+  // not reproduce GitHub's payload byte for byte
+  const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
   if (!verifySignature(rawBody, signature)) {
     logger.warn('Invalid webhook signature', { deliveryId });
+    // The event header is not trusted before the signature is verified
+    metricsService.recordWebhookReceived('github', 'unknown', 'rejected');
     return res.status(401).json({ error: 'Invalid signature' });
   }
 
-  // Handle the event
   try {
-    switch (event) {
-      case 'pull_request':
-        await handlePullRequestEvent(req.body as PullRequestWebhookPayload);
-        break;
+    req.body = JSON.parse(rawBody.toString('utf-8'));
+  } catch {
+    logger.warn('Invalid webhook payload', { deliveryId });
+    metricsService.recordWebhookReceived('github', event || 'unknown', 'rejected');
+    return res.status(400).json({ error: 'Invalid payload' });
+  }
 
-      case 'issue_comment':
-        await handleIssueCommentEvent(req.body as IssueCommentWebhookPayload);
-        break;
+  if (event === 'ping') {
+    logger.info('Received ping event', { zen: req.body.zen });
+    return res.status(200).json({ success: true });
+  }
 
-      case 'ping':
-        logger.info('Received ping event', { zen: req.body.zen });
-        break;
+  if (!deliveryId) {
+    logger.warn('Missing delivery ID', { event });
+    metricsService.recordWebhookReceived('github', event || 'unknown', 'rejected');
+    return res.status(400).json({ error: 'Missing X-GitHub-Delivery header' });
+  }
 
-      default:
-        logger.debug('Unhandled event type', { event });
-    }
+  // Persist the event and acknowledge right away; the queue worker processes
+  // it asynchronously and retries on failure
+  const queued = queueService.enqueue('github', event, deliveryId, req.body);
+  res.status(queued ? 202 : 200).json({ success: true, duplicate: !queued });
+});
 
-    res.status(200).json({ success: true });
-  } catch (error) {
-    logger.error('Error handling webhook', { 
-      event, 
-      deliveryId, 
-      error: serializeError(error),
-    });
-    res.status(500).json({ error: 'Internal server error' });
+/**
+ * Process a queued GitHub event. Errors are thrown so the queue retries.
+ */
+export async function processGitHubEvent(event: string, payload: unknown): Promise<void> {
+  // Every repository event tells which installation has access to the repository
+  const { repository, installation } = payload as {
+    repository?: { full_name?: string };
+    installation?: { id?: number };
+  };
+  if (repository?.full_name && installation?.id) {
+    db.upsertRepoInstallation(repository.full_name, installation.id);
   }
-});
+
+  switch (event) {
+    case 'pull_request':
+      await handlePullRequestEvent(payload as PullRequestWebhookPayload);
+      break;
+
+    case 'issue_comment':
+      await handleIssueCommentEvent(payload as IssueCommentWebhookPayload);
+      break;
+
+    case 'check_run':
+      await handleCheckRunEvent(payload as CheckRunWebhookPayload);
+      break;
+
+    case 'installation':
+      handleInstallationEvent(payload as InstallationWebhookPayload);
+      break;
+
+    case 'installation_repositories':
+      handleInstallationRepositoriesEvent(payload as InstallationRepositoriesWebhookPayload);
+      break;
+
+    default:
+      logger.debug('Unhandled event type', { event });
+  }
+}
 
 export default router;
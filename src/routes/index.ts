@@ -1,2 +1,4 @@
 export { default as githubRoutes } from './github';
 export { default as concordRoutes } from './concord';
+export { default as adminRoutes } from './admin';
+export { default as signRoutes } from './sign';
@@ -0,0 +1,386 @@
+import crypto from 'crypto';
+import express, { Router, Request, Response, CookieOptions } from 'express';
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { safeCompare, hmacSha256 } from '../utils/webhook';
+import { asyncRoute, parseCookies } from '../utils/http';
+import { CLARecord } from '../types';
+import * as adminAuthService from '../services/adminAuth';
+import * as claService from '../services/cla';
+import * as clickthroughService from '../services/clickthrough';
+import * as signatureService from '../services/signature';
+import * as githubService from '../services/github';
+import * as db from '../services/database';
+import * as views from '../views/sign';
+
+const router = Router();
+
+const SESSION_COOKIE = 'cla_sign_session';
+const STATE_COOKIE = 'cla_sign_state';
+const SESSION_TTL_MS = 60 * 60 * 1000;
+
+interface SignSession {
+  id: number;
+  login: string;
+  name?: string;
+  // Verified emails of the GitHub account, read at sign-in
+  emails: string[];
+}
+
+type SignOutcome =
+  | { kind: 'signed' }
+  | { kind: 'changed'; record: CLARecord }
+  | { kind: 'refused'; title: string; message: string };
+
+type EmailOutcome =
+  | { kind: 'created'; record: CLARecord }
+  | { kind: 'changed'; record: CLARecord }
+  | { kind: 'refused'; title: string; message: string };
+
+function cookieOptions(maxAgeMs: number): CookieOptions {
+  return {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.publicUrl.startsWith('https://'),
+    path: '/sign',
+    maxAge: maxAgeMs,
+  };
+}
+
+function getRedirectUri(): string {
+  return `${config.publicUrl.replace(/\/$/, '')}/sign/callback`;
+}
+
+/**
+ * Signed session value for a GitHub user. The "sign:" prefix keeps it from
+ * being accepted as a dashboard session, and the other way round.
+ */
+export function createSignSession(user: SignSession): string {
+  const payload = Buffer.from(JSON.stringify({ ...user, expiresAt: Date.now() + SESSION_TTL_MS })).toString('base64url');
+  return `${payload}.${hmacSha256(config.admin.sessionSecret, `sign:${payload}`)}`;
+}
+
+/**
+ * GitHub user of a signing session, or null if it is forged or expired
+ */
+export function verifySignSession(session: string | undefined): SignSession | null {
+  const [payload, signature] = (session ?? '').split('.');
+  if (!payload || !signature || !safeCompare(hmacSha256(config.admin.sessionSecret, `sign:${payload}`), signature)) {
+    return null;
+  }
+
+  try {
+    const { id, login, name, emails, expiresAt } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    const valid = typeof id === 'number'
+      && typeof login === 'string'
+      && Array.isArray(emails) && emails.every((e) => typeof e === 'string')
+      && typeof expiresAt === 'number' && expiresAt > Date.now();
+    return valid ? { id, login, name: typeof name === 'string' ? name : undefined, emails } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getCsrfToken(session: string): string {
+  return hmacSha256(config.admin.sessionSecret, `sign-csrf:${session}`);
+}
+
+/**
+ * Where to go back to after sign-in, only ever a signing page
+ */
+export function getReturnPath(value: unknown): string {
+  const path = String(value ?? '');
+  return path.startsWith('/sign') && !path.startsWith('/sign/callback') ? path : '/sign';
+}
+
+/**
+ * The pending CLA of the signed-in contributor, or the page explaining why
+ * there is nothing to sign
+ */
+function findPendingCLA(session: SignSession): { record?: CLARecord; title: string; message: string } {
+  const record = db.findCLAByGitHubUserId(session.id);
+  if (!record) {
+    return {
+      title: 'Nothing to sign',
+      message: `No CLA signature is requested for @${session.login}. Please comment \`/cla recheck\` on your pull request if it is still waiting for one.`,
+    };
+  }
+  if (record.status === 'signed') {
+    return { title: 'Already signed', message: `@${record.github_username} has already signed the CLA. Thank you!` };
+  }
+  if (record.status !== 'pending') {
+    return { title: 'Link expired', message: 'This agreement can no longer be signed. Please comment `/cla recheck` on your pull request for a new link.' };
+  }
+  return { record, title: '', message: '' };
+}
+
+/**
+ * Page of a pending CLA: the agreement itself for click-through agreements,
+ * else the choice of the email the agreement is sent to
+ */
+function renderPendingPage(record: CLARecord, session: SignSession, sessionValue: string, notice?: string): string {
+  if (record.signature_source === 'clickthrough') {
+    const text = clickthroughService.getAgreementText();
+    return views.renderAgreementPage({
+      agreementUid: record.concord_agreement_uid,
+      login: session.login,
+      text,
+      textHash: clickthroughService.hashAgreementText(text),
+      csrfToken: getCsrfToken(sessionValue),
+      claVersion: record.cla_version,
+      notice,
+    });
+  }
+
+  return views.renderEmailPage({
+    login: session.login,
+    emails: session.emails,
+    currentEmail: record.concord_agreement_uid ? record.github_email : undefined,
+    csrfToken: getCsrfToken(sessionValue),
+    claVersion: record.cla_version,
+    notice,
+  });
+}
+
+router.use((req, res, next) => {
+  if (!signatureService.isSigningPageEnabled()) {
+    res.status(404).send(views.renderSignMessagePage('Not Found', 'The signing page is disabled.'));
+    return;
+  }
+  next();
+});
+
+router.use(express.urlencoded({ extended: false, limit: '16kb' }));
+
+/**
+ * Start the GitHub sign-in, then come back to the signing page
+ */
+router.get('/login', (req: Request, res: Response) => {
+  const returnPath = getReturnPath(req.query.return);
+  const state = crypto.randomBytes(16).toString('hex');
+  res.cookie(STATE_COOKIE, `${state}.${returnPath}`, cookieOptions(10 * 60 * 1000));
+  res.redirect(adminAuthService.getOAuthAuthorizeUrl(state, getRedirectUri(), 'user:email'));
+});
+
+/**
+ * GitHub sends the contributor back here after sign-in
+ */
+router.get('/callback', asyncRoute(async (req: Request, res: Response) => {
+  const stateCookie = parseCookies(req)[STATE_COOKIE] ?? '';
+  const separator = stateCookie.indexOf('.');
+  const expectedState = separator > 0 ? stateCookie.slice(0, separator) : '';
+  const returnPath = getReturnPath(separator > 0 ? stateCookie.slice(separator + 1) : '');
+  const { code, state } = req.query as { code?: string; state?: string };
+  res.clearCookie(STATE_COOKIE, { path: '/sign' });
+
+  if (!code || !state || !expectedState || !safeCompare(state, expectedState)) {
+    return res.status(400).send(views.renderSignMessagePage('Sign-in failed', 'The sign-in request expired or was tampered with. Please open the signing link again.'));
+  }
+
+  let token;
+  let user;
+  try {
+    token = await adminAuthService.exchangeOAuthCode(code, getRedirectUri());
+    user = await githubService.getTokenUser(token);
+  } catch (error) {
+    logger.error('Signing page sign-in failed', { error: serializeError(error) });
+  }
+  if (!token || !user) {
+    return res.status(502).send(views.renderSignMessagePage('Sign-in failed', 'GitHub could not confirm your identity. Please try again.'));
+  }
+
+  let emails: string[] = [];
+  try {
+    emails = await githubService.getTokenUserVerifiedEmails(token);
+  } catch (error) {
+    // Only needed to choose the email of emailed agreements
+    logger.warn('Could not read the verified emails of the GitHub account', {
+      login: user.login,
+      error: serializeError(error),
+    });
+  }
+
+  res.cookie(
+    SESSION_COOKIE,
+    createSignSession({ id: user.id, login: user.login, name: user.name, emails }),
+    cookieOptions(SESSION_TTL_MS)
+  );
+  res.redirect(returnPath);
+}));
+
+/**
+ * Signing page of the signed-in contributor. `user` is the GitHub user ID the
+ * link was made for: anyone else is turned away.
+ */
+router.get('/', (req: Request, res: Response) => {
+  const expectedUserId = req.query.user !== undefined ? Number(req.query.user) : undefined;
+  const sessionValue = parseCookies(req)[SESSION_COOKIE];
+  const session = verifySignSession(sessionValue);
+  if (!session) {
+    const returnPath = expectedUserId !== undefined ? `/sign?user=${encodeURIComponent(String(req.query.user))}` : '/sign';
+    return res.redirect(`/sign/login?return=${encodeURIComponent(returnPath)}`);
+  }
+
+  if (expectedUserId !== undefined && session.id !== expectedUserId) {
+    const expected = Number.isInteger(expectedUserId) ? db.findCLAByGitHubUserId(expectedUserId) : undefined;
+    const account = expected ? `@${expected.github_username}` : 'another GitHub account';
+    res.clearCookie(SESSION_COOKIE, { path: '/sign' });
+    return res.status(403).send(views.renderSignMessagePage(
+      'Wrong GitHub account',
+      `This link is for ${account}, but you are signed in as @${session.login}. Sign in to GitHub as ${account} and open the link again.`
+    ));
+  }
+
+  const { record, title, message } = findPendingCLA(session);
+  if (!record) {
+    return res.send(views.renderSignMessagePage(title, message));
+  }
+  res.send(renderPendingPage(record, session, sessionValue!));
+});
+
+/**
+ * Accept a click-through agreement, with the request as evidence
+ */
+router.post('/accept', asyncRoute(async (req: Request, res: Response) => {
+  const sessionValue = parseCookies(req)[SESSION_COOKIE];
+  const session = verifySignSession(sessionValue);
+  if (!session) {
+    return res.status(401).send(views.renderSignMessagePage('Signed out', 'Your session expired. Please open the signing link again.'));
+  }
+  if (!safeCompare(String(req.body?.csrf ?? ''), getCsrfToken(sessionValue!)) || req.body?.accept !== 'yes') {
+    return res.status(403).send(views.renderSignMessagePage('Invalid form', 'The form expired. Please go back, reload the page and try again.'));
+  }
+
+  const text = clickthroughService.getAgreementText();
+  const textHash = clickthroughService.hashAgreementText(text);
+
+  const outcome = await claService.withSignerLock(session.id, async (): Promise<SignOutcome> => {
+    const { record, title, message } = findPendingCLA(session);
+    if (!record) {
+      return { kind: 'refused', title, message };
+    }
+    if (
+      record.signature_source !== 'clickthrough'
+      || record.concord_agreement_uid !== String(req.body?.agreement ?? '')
+      || !safeCompare(String(req.body?.text_hash ?? ''), textHash)
+    ) {
+      return { kind: 'changed', record };
+    }
+
+    const signed = clickthroughService.signAgreement(record, {
+      method: 'web',
+      textHash,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+    return signed
+      ? { kind: 'signed' }
+      : { kind: 'refused', title: 'Link expired', message: 'This agreement can no longer be signed.' };
+  });
+
+  if (outcome.kind === 'changed') {
+    // The agreement was replaced or its text updated after the page was shown: the contributor reviews it again
+    return res.send(renderPendingPage(
+      outcome.record,
+      session,
+      sessionValue!,
+      'The agreement was updated while you were reading it. Please review it again.'
+    ));
+  }
+  if (outcome.kind === 'refused') {
+    return res.status(409).send(views.renderSignMessagePage(outcome.title, outcome.message));
+  }
+
+  for (const prRecord of db.findOpenPRRecordsByGitHubUserId(session.id)) {
+    db.addPRHistoryEntry(prRecord.repo_full_name, prRecord.pr_number, `@${session.login} signed the CLA on the signing page`);
+  }
+  await claService.updateContributorPRs(session.id, session.login);
+
+  res.send(views.renderSignMessagePage('CLA signed', 'Thank you for signing the CLA! Your pull requests have been updated.'));
+}));
+
+/**
+ * Create the agreement for the verified email the contributor chose, or open
+ * the one already sent to it, then take them to it
+ */
+router.post('/email', asyncRoute(async (req: Request, res: Response) => {
+  const sessionValue = parseCookies(req)[SESSION_COOKIE];
+  const session = verifySignSession(sessionValue);
+  if (!session) {
+    return res.status(401).send(views.renderSignMessagePage('Signed out', 'Your session expired. Please open the signing link again.'));
+  }
+  if (!safeCompare(String(req.body?.csrf ?? ''), getCsrfToken(sessionValue!))) {
+    return res.status(403).send(views.renderSignMessagePage('Invalid form', 'The form expired. Please go back, reload the page and try again.'));
+  }
+
+  const input = String(req.body?.email ?? '').trim().toLowerCase();
+  const email = session.emails.find((e) => e.toLowerCase() === input);
+
+  let outcome: EmailOutcome;
+  try {
+    outcome = await claService.withSignerLock(session.id, async (): Promise<EmailOutcome> => {
+      const { record, title, message } = findPendingCLA(session);
+      if (!record) {
+        return { kind: 'refused', title, message };
+      }
+      if (!email || record.signature_source === 'clickthrough') {
+        return { kind: 'changed', record };
+      }
+
+      const created = await claService.createAgreementForEmail(session, email);
+      return created
+        ? { kind: 'created', record: created }
+        : { kind: 'refused', title: 'Link expired', message: 'This agreement can no longer be signed. Please comment `/cla recheck` on your pull request for a new link.' };
+    });
+  } catch (error) {
+    logger.error('Failed to create CLA agreement from the signing page', {
+      login: session.login,
+      error: serializeError(error),
+    });
+    return res.status(502).send(views.renderSignMessagePage(
+      'Agreement not created',
+      'The agreement could not be created. Please try again later or contact the maintainers.'
+    ));
+  }
+
+  if (outcome.kind === 'changed') {
+    return res.status(400).send(renderPendingPage(
+      outcome.record,
+      session,
+      sessionValue!,
+      email ? undefined : 'Please choose one of the verified emails of your GitHub account.'
+    ));
+  }
+  if (outcome.kind === 'refused') {
+    return res.status(409).send(views.renderSignMessagePage(outcome.title, outcome.message));
+  }
+
+  const { record } = outcome;
+  const provider = signatureService.getAgreementProvider(record.signature_source);
+  try {
+    return res.redirect(await provider.getSigningUrl(record.concord_agreement_uid));
+  } catch (error) {
+    logger.warn('Could not create shared signing link', {
+      error: serializeError(error),
+      agreementUid: record.concord_agreement_uid,
+    });
+  }
+  res.send(views.renderSignMessagePage(
+    'Agreement sent',
+    `The agreement was sent to ${record.github_email}. Please follow the link in that email to sign it.`
+  ));
+}));
+
+/**
+ * Links to click-through agreements from before the signing page was shared
+ * with emailed agreements
+ */
+router.get('/:agreementUid', (req: Request, res: Response) => {
+  const record = db.findCLAByAgreementUid(req.params.agreementUid);
+  if (!record) {
+    return res.status(404).send(views.renderSignMessagePage('Not Found', 'This signing link is not valid.'));
+  }
+  res.redirect(`/sign?user=${record.github_user_id}`);
+});
+
+export default router;
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { Octokit } from '@octokit/rest';
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { hmacSha256, safeCompare } from '../utils/webhook';
+import * as githubService from './github';
+
+// Token and team membership checks are cached to avoid a GitHub round trip per request
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+
+const tokenCache = new Map<string, { login: string | null; expiresAt: number }>();
+const membershipCache = new Map<string, { member: boolean; expiresAt: number }>();
+
+function cacheSet<T extends { expiresAt: number }>(cache: Map<string, T>, key: string, entry: T): void {
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    for (const [k, v] of cache) {
+      if (v.expiresAt <= Date.now()) cache.delete(k);
+    }
+    if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+  }
+  cache.set(key, entry);
+}
+
+/**
+ * Whether the admin API and dashboard can be used at all
+ */
+export function isAdminEnabled(): boolean {
+  return config.admin.apiTokens.length > 0 || config.admin.githubTeam !== null;
+}
+
+/**
+ * Get an Octokit instance for the organization of the admin team
+ */
+export async function getAdminOrgOctokit(): Promise<Octokit | null> {
+  const team = config.admin.githubTeam;
+  if (!team) {
+    return null;
+  }
+
+  const installationId = await githubService.getOrgInstallationId(team.org);
+  if (!installationId) {
+    logger.error('The app is not installed on the admin team organization', { org: team.org });
+    return null;
+  }
+  return githubService.getInstallationOctokit(installationId);
+}
+
+/**
+ * Whether a GitHub user belongs to the configured admin team
+ */
+export async function isAdminTeamMember(login: string): Promise<boolean> {
+  const team = config.admin.githubTeam;
+  if (!team) {
+    return false;
+  }
+
+  const key = login.toLowerCase();
+  const cached = membershipCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.member;
+  }
+
+  const octokit = await getAdminOrgOctokit();
+  const member = octokit ? await githubService.isTeamMember(octokit, team.org, team.slug, login) : false;
+
+  cacheSet(membershipCache, key, { member, expiresAt: Date.now() + CACHE_TTL_MS });
+  return member;
+}
+
+/**
+ * Authenticate a GitHub user access token (OAuth or personal) of an admin team
+ * member. Returns the user's login, or null if the token is invalid or the user
+ * is not in the team.
+ */
+export async function authenticateGitHubToken(token: string): Promise<string | null> {
+  if (!config.admin.githubTeam) {
+    return null;
+  }
+
+  const key = crypto.createHash('sha256').update(token).digest('hex');
+  const cached = tokenCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.login;
+  }
+
+  let login: string | null = null;
+  try {
+    const user = await githubService.getTokenUser(token);
+    if (user && await isAdminTeamMember(user.login)) {
+      login = user.login;
+    } else if (user) {
+      logger.warn('GitHub user is not in the admin team', { login: user.login });
+    }
+  } catch (error) {
+    // Not cached: GitHub being unavailable must not lock admins out for minutes
+    logger.error('Could not verify GitHub token', { error: serializeError(error) });
+    return null;
+  }
+
+  cacheSet(tokenCache, key, { login, expiresAt: Date.now() + CACHE_TTL_MS });
+  return login;
+}
+
+/**
+ * Whether the dashboard can be used: it needs the admin team, the app's OAuth
+ * credentials and a session secret
+ */
+export function isDashboardEnabled(): boolean {
+  return Boolean(
+    config.admin.githubTeam
+    && config.github.clientId
+    && config.github.clientSecret
+    && config.admin.sessionSecret
+  );
+}
+
+/**
+ * GitHub page asking the user to sign in with the app. `scope` only applies to
+ * OAuth apps, GitHub Apps use their account permissions instead.
+ */
+export function getOAuthAuthorizeUrl(state: string, redirectUri: string, scope?: string): string {
+  const params = new URLSearchParams({
+    client_id: config.github.clientId,
+    redirect_uri: redirectUri,
+    state,
+    ...(scope ? { scope } : {}),
+  });
+  return `https://github.com/login/oauth/authorize?${params}`;
+}
+
+/**
+ * Exchange the code GitHub sends back after sign-in for a user access token
+ */
+export async function exchangeOAuthCode(code: string, redirectUri: string): Promise<string> {
+  const response = await fetch('https://github.com/login/oauth/access_token', {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      client_id: config.github.clientId,
+      client_secret: config.github.clientSecret,
+      code,
+      redirect_uri: redirectUri,
+    }),
+  });
+
+  const data = await response.json() as { access_token?: string; error?: string; error_description?: string };
+  if (!response.ok || !data.access_token) {
+    throw new Error(`GitHub OAuth error: ${data.error_description || data.error || response.statusText}`);
+  }
+  return data.access_token;
+}
+
+/**
+ * Signed dashboard session value for a GitHub login
+ */
+export function createSession(login: string): string {
+  const expiresAt = Date.now() + config.admin.sessionTtlHours * 60 * 60 * 1000;
+  const payload = Buffer.from(JSON.stringify({ login, expiresAt })).toString('base64url');
+  return `${payload}.${hmacSha256(config.admin.sessionSecret, payload)}`;
+}
+
+/**
+ * GitHub login of a dashboard session, or null if it is forged or expired
+ */
+export function verifySession(session: string): string | null {
+  const [payload, signature] = session.split('.');
+  if (!payload || !signature || !safeCompare(hmacSha256(config.admin.sessionSecret, payload), signature)) {
+    return null;
+  }
+
+  try {
+    const { login, expiresAt } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return typeof login === 'string' && typeof expiresAt === 'number' && expiresAt > Date.now() ? login : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Token that dashboard forms must send back, tied to the session
+ */
+export function getCsrfToken(session: string): string {
+  return hmacSha256(config.admin.sessionSecret, `csrf:${session}`);
+}
@@ -0,0 +1,108 @@
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { CLARecord } from '../types';
+import * as claService from './cla';
+import * as signatureService from './signature';
+import * as db from './database';
+
+// How often abandoned agreements are looked for
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+/**
+ * Cancel an abandoned agreement, unless it was signed or replaced since it was
+ * read or the contributor opened a PR meanwhile. Returns true if it was
+ * cancelled.
+ */
+async function cancelAbandonedAgreement(abandoned: CLARecord): Promise<boolean> {
+  return claService.withSignerLock(abandoned.github_user_id, async () => {
+    const record = db.findCLAByGitHubUserId(abandoned.github_user_id);
+    if (
+      record?.status !== 'pending'
+      || record.concord_agreement_uid !== abandoned.concord_agreement_uid
+      || db.findOpenPRRecordsByGitHubUserId(record.github_user_id).length > 0
+    ) {
+      return false;
+    }
+
+    if (!await claService.cancelAgreement(record, 'abandoned', 'system')) {
+      // Deleted in Concord meanwhile: the record is closed so it is not tried again every hour
+      if (await signatureService.getAgreementProvider(record.signature_source).agreementExists(record.concord_agreement_uid)) {
+        return false;
+      }
+      logger.info('Abandoned agreement no longer exists', {
+        username: record.github_username,
+        agreementUid: record.concord_agreement_uid,
+      });
+      db.updateCLAStatus(record.github_user_id, 'cancelled');
+      return false;
+    }
+    // The next PR of the contributor starts a new agreement
+    db.updateCLAStatus(record.github_user_id, 'cancelled');
+    return true;
+  });
+}
+
+/**
+ * Cancel the agreements left unsigned for CLA_ABANDONED_AGREEMENT_DAYS by
+ * contributors who have no open PR anymore, so they can no longer be signed.
+ * Returns how many agreements were cancelled.
+ */
+export async function cancelAbandonedAgreements(): Promise<number> {
+  if (running) return 0;
+  running = true;
+
+  let cancelled = 0;
+  try {
+    // Only Concord keeps agreements outside the CLA records
+    for (const abandoned of db.findAbandonedAgreements('concord', config.agreementCleanup.abandonedDays)) {
+      try {
+        if (await cancelAbandonedAgreement(abandoned)) {
+          cancelled++;
+        }
+      } catch (error) {
+        logger.error('Failed to cancel abandoned agreement', {
+          username: abandoned.github_username,
+          agreementUid: abandoned.concord_agreement_uid,
+          error: serializeError(error),
+        });
+      }
+    }
+  } finally {
+    running = false;
+  }
+
+  if (cancelled > 0) {
+    logger.info('Abandoned agreements cancelled', { cancelled });
+  }
+  return cancelled;
+}
+
+/**
+ * Look for abandoned agreements every hour
+ */
+export function startScheduler(): void {
+  if (timer) return;
+
+  if (config.agreementCleanup.abandonedDays <= 0) {
+    logger.info('Cleanup of abandoned agreements disabled');
+    return;
+  }
+
+  timer = setInterval(() => {
+    cancelAbandonedAgreements().catch((error) => {
+      logger.error('Cancelling abandoned agreements failed', { error: serializeError(error) });
+    });
+  }, CHECK_INTERVAL_MS);
+
+  logger.info('Abandoned agreement cleanup scheduler started', { days: config.agreementCleanup.abandonedDays });
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
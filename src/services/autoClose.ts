@@ -0,0 +1,195 @@
+import { Octokit } from '@octokit/rest';
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { ExpiringPRRecord, PullRequest, RepoConfig } from '../types';
+import * as claService from './cla';
+import * as githubService from './github';
+import * as repoConfigService from './repoConfig';
+import * as templateService from './templates';
+import * as db from './database';
+
+// How often PRs are checked against the auto_close policy of their repository
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+type AutoClosePolicy = NonNullable<RepoConfig['autoClose']>;
+
+/**
+ * What is due for a PR: the final warning once it has been pending for `days`
+ * minus `warningDays`, then the closing once it has been pending for `days` and
+ * warned at least `warningDays` ago
+ */
+export function getDueAction(prRecord: ExpiringPRRecord, policy: AutoClosePolicy): 'warn' | 'close' | undefined {
+  if (prRecord.warned_days === null) {
+    return prRecord.age_days >= policy.days - policy.warningDays ? 'warn' : undefined;
+  }
+  return prRecord.age_days >= policy.days && prRecord.warned_days >= policy.warningDays ? 'close' : undefined;
+}
+
+/**
+ * Warn or close a PR whose CLA is still unsigned. Returns what was done.
+ */
+async function applyPolicy(
+  octokit: Octokit,
+  installationId: number,
+  owner: string,
+  repo: string,
+  prRecord: ExpiringPRRecord,
+  repoConfig: RepoConfig,
+  policy: AutoClosePolicy,
+  action: 'warn' | 'close'
+): Promise<'warned' | 'closed' | undefined> {
+  const repoFullName = `${owner}/${repo}`;
+  let pr: PullRequest;
+  try {
+    pr = await githubService.getPullRequest(octokit, owner, repo, prRecord.pr_number);
+  } catch (error) {
+    logger.warn('Could not fetch PR', { repoFullName, prNumber: prRecord.pr_number, error: serializeError(error) });
+    return undefined;
+  }
+  // Closed PRs missed by the webhooks are recorded by the reconciliation
+  if (pr.state !== 'open') {
+    return undefined;
+  }
+
+  const { results, satisfied, skippedReason } = await claService.evaluatePullRequest(octokit, installationId, owner, repo, pr);
+  if (satisfied) {
+    db.deletePRExpiration(repoFullName, pr.number);
+    return undefined;
+  }
+  // Drafts waiting to be checked and invalid configurations are not the contributor's fault
+  if (skippedReason) {
+    return undefined;
+  }
+
+  const view = {
+    repo: repoFullName,
+    pr_number: pr.number,
+    cla_version: db.findCLAVersionAt()?.version,
+    pending_mentions: results
+      .filter((r) => !claService.isSignerSatisfied(r))
+      .map((r) => githubService.formatSigner(r.signer))
+      .join(', '),
+    days: policy.days,
+  };
+
+  if (action === 'warn') {
+    const closeInDays = Math.max(policy.days - prRecord.age_days, policy.warningDays);
+    const closeDate = new Date(Date.now() + closeInDays * DAY_MS).toISOString().split('T')[0];
+    await octokit.issues.createComment({
+      owner,
+      repo,
+      issue_number: pr.number,
+      body: templateService.renderMessage('comment_expiry_warning', { ...view, close_date: closeDate }, repoConfig),
+    });
+    db.markPRExpirationWarned(repoFullName, pr.number);
+    db.addPRHistoryEntry(repoFullName, pr.number, `Final warning posted: the pull request will be closed on ${closeDate} if the CLA is still unsigned`);
+    return 'warned';
+  }
+
+  await githubService.addCLALabel(octokit, owner, repo, pr.number, config.claExpiredLabel);
+  await octokit.issues.createComment({
+    owner,
+    repo,
+    issue_number: pr.number,
+    body: templateService.renderMessage('comment_expired', view, repoConfig),
+  });
+  await githubService.setPullRequestState(octokit, owner, repo, pr.number, 'closed');
+  db.markPRExpired(repoFullName, pr.number);
+  db.updatePRRecordsState(repoFullName, pr.number, 'closed', new Date().toISOString());
+  db.addPRHistoryEntry(repoFullName, pr.number, `Closed because the CLA was not signed within ${policy.days} days`);
+  return 'closed';
+}
+
+/**
+ * Apply the `auto_close` policy of every repository that opted in: PRs whose
+ * CLA stays unsigned get a final warning, then are closed with the
+ * `cla:expired` label. They are reopened once the CLA is signed.
+ */
+export async function closeExpiredPullRequests(): Promise<{ warned: number; closed: number }> {
+  const outcome = { warned: 0, closed: 0 };
+  if (running) return outcome;
+  running = true;
+
+  try {
+    const byRepo = new Map<string, ExpiringPRRecord[]>();
+    for (const prRecord of db.findExpiringPullRequests()) {
+      // No policy warns before a day, so younger PRs need no configuration lookup
+      if (prRecord.age_days < 1) continue;
+      byRepo.set(prRecord.repo_full_name, [...(byRepo.get(prRecord.repo_full_name) ?? []), prRecord]);
+    }
+
+    for (const [repoFullName, prRecords] of byRepo) {
+      const [owner, repo] = repoFullName.split('/');
+      try {
+        const installationId = await claService.resolveInstallationId(prRecords[0]);
+        if (!installationId) continue;
+
+        const octokit = await githubService.getInstallationOctokit(installationId);
+        let repoConfig: RepoConfig;
+        try {
+          repoConfig = await repoConfigService.getRepoConfig(octokit, owner, repo);
+        } catch (error) {
+          if (error instanceof repoConfigService.RepoConfigError) continue;
+          throw error;
+        }
+        const policy = repoConfig.autoClose;
+        if (!policy) continue;
+
+        for (const prRecord of prRecords) {
+          const action = getDueAction(prRecord, policy);
+          if (!action) continue;
+
+          try {
+            const done = await applyPolicy(octokit, installationId, owner, repo, prRecord, repoConfig, policy, action);
+            if (done) {
+              outcome[done]++;
+              logger.info(done === 'warned' ? 'Posted final CLA warning' : 'Closed PR whose CLA stayed unsigned', {
+                repoFullName,
+                prNumber: prRecord.pr_number,
+                pendingDays: Math.floor(prRecord.age_days),
+              });
+            }
+          } catch (error) {
+            logger.error('Failed to apply the auto_close policy to PR', {
+              repoFullName,
+              prNumber: prRecord.pr_number,
+              error: serializeError(error),
+            });
+          }
+        }
+      } catch (error) {
+        logger.error('Failed to apply the auto_close policy of repository', { repoFullName, error: serializeError(error) });
+      }
+    }
+  } finally {
+    running = false;
+  }
+
+  return outcome;
+}
+
+/**
+ * Apply the auto_close policies every hour
+ */
+export function startScheduler(): void {
+  if (timer) return;
+
+  timer = setInterval(() => {
+    closeExpiredPullRequests().catch((error) => {
+      logger.error('Applying the auto_close policies failed', { error: serializeError(error) });
+    });
+  }, CHECK_INTERVAL_MS);
+
+  logger.info('Auto-close scheduler started');
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
@@ -0,0 +1,1144 @@
+import { Octokit } from '@octokit/rest';
+import { config, isUserExempted } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { withLock } from '../utils/lock';
+import {
+  AgreementCancellationReason,
+  CLACommentState,
+  CLAEvaluation,
+  CLARecord,
+  CLASigner,
+  CLASignerResult,
+  CLAVersionRecord,
+  CorporateCLARecord,
+  GitHubUser,
+  PROverrideRecord,
+  PRRecord,
+  PRUpdateOutcome,
+  PullRequest,
+  RepoConfig,
+  SignatureProvider,
+  SignatureRequest,
+} from '../types';
+import * as githubService from './github';
+import * as signatureService from './signature';
+import * as repoConfigService from './repoConfig';
+import * as templateService from './templates';
+import * as db from './database';
+
+// How often to look for an agreement being created by another process
+const CLAIM_POLL_INTERVAL_MS = 500;
+
+/**
+ * Whether a signer no longer blocks the PR
+ */
+export function isSignerSatisfied(result: CLASignerResult): boolean {
+  return result.state === 'signed' || result.state === 'exempt';
+}
+
+/**
+ * Check if a GitHub user is exempted from the CLA (whitelist, repository
+ * configuration or GitHub org member).
+ * Returns the exemption reason, or null if the user has to sign.
+ */
+export async function getExemptionReason(
+  octokit: Octokit,
+  owner: string,
+  username: string,
+  repoConfig: RepoConfig = repoConfigService.getDefaultRepoConfig()
+): Promise<string | null> {
+  if (isUserExempted(username) || repoConfig.exempt.users.includes(username.toLowerCase())) {
+    return 'exemption list';
+  }
+
+  for (const team of repoConfig.exempt.teams) {
+    const [org, slug] = team.includes('/') ? team.split('/', 2) : [owner, team];
+    if (await githubService.isTeamMember(octokit, org, slug, username)) {
+      return `member of team ${org}/${slug}`;
+    }
+  }
+
+  if (!config.cla.skipOrgMemberCheck && await githubService.isOrganizationMember(octokit, owner, username)) {
+    return 'organization membership';
+  }
+  return null;
+}
+
+/**
+ * Determine the email to send the agreement to - real commit emails first,
+ * then the GitHub profile, then the noreply address as a last resort.
+ */
+export async function resolveSignerEmail(octokit: Octokit, signer: CLASigner): Promise<string> {
+  const realEmails = signer.emails.filter((e) => !e.includes('noreply.github.com'));
+  if (realEmails.length > 0) {
+    return realEmails[0];
+  }
+
+  const profileEmail = await githubService.getUserEmail(octokit, signer.githubUsername!);
+  if (profileEmail) {
+    return profileEmail;
+  }
+
+  return `${signer.githubUserId}+${signer.githubUsername}@users.noreply.github.com`;
+}
+
+/**
+ * Whether agreements of a provider are only created on the signing page, for a
+ * verified email the contributor chose, rather than sent to the email of their
+ * commits or profile
+ */
+export function createsAgreementOnSigningPage(provider: SignatureProvider): boolean {
+  return provider.sendsInvitations && signatureService.isSigningPageEnabled();
+}
+
+/**
+ * Link where the contributor signs: the signing page when it is enabled, else
+ * the provider's link to the agreement, or undefined if it cannot give one
+ */
+export async function getSigningUrl(
+  record: Pick<CLARecord, 'github_user_id' | 'concord_agreement_uid'>,
+  provider: SignatureProvider = signatureService.getSignatureProvider()
+): Promise<string | undefined> {
+  if (signatureService.isSigningPageEnabled()) {
+    return signatureService.getSigningPageUrl(record.github_user_id);
+  }
+
+  const agreementUid = record.concord_agreement_uid;
+  try {
+    return await provider.getSigningUrl(agreementUid);
+  } catch (error) {
+    logger.warn('Could not create shared signing link', {
+      error: serializeError(error),
+      agreementUid,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Work out where a single signer stands, creating their agreement and
+ * PR record if they have not signed yet.
+ */
+async function evaluateSigner(
+  octokit: Octokit,
+  owner: string,
+  repoFullName: string,
+  prNumber: number,
+  signer: CLASigner,
+  repoConfig: RepoConfig
+): Promise<CLASignerResult> {
+  if (!signer.githubUserId || !signer.githubUsername) {
+    return { signer, state: 'unlinked' };
+  }
+
+  const username = signer.githubUsername;
+  const userId = signer.githubUserId;
+
+  // Exempted on this PR by a maintainer with `/cla exempt`
+  const prExemption = db.findPRExemption(repoFullName, prNumber, username);
+  if (prExemption) {
+    logger.info('User is exempted on this PR', { username, userId, repoFullName, prNumber, actor: prExemption.actor });
+    return { signer, state: 'exempt', reason: `exempted by ${prExemption.actor}` };
+  }
+
+  const exemptionReason = await getExemptionReason(octokit, owner, username, repoConfig);
+  if (exemptionReason) {
+    logger.info('User is exempted from CLA', { username, userId, reason: exemptionReason, org: owner });
+    return { signer, state: 'exempt', reason: exemptionReason };
+  }
+
+  const corporateCLA = findCoveringCorporateCLA(signer);
+  if (corporateCLA) {
+    const company = getCompanyName(corporateCLA);
+    logger.info('User is covered by a corporate CLA', { username, userId, company });
+
+    // Track the PR so it is blocked again if the corporate CLA is revoked
+    db.createPRRecord({
+      repo_full_name: repoFullName,
+      pr_number: prNumber,
+      github_username: username,
+      github_user_id: userId,
+      corporate_cla_id: corporateCLA.id,
+      concord_agreement_uid: corporateCLA.concord_agreement_uid,
+    });
+
+    return { signer, state: 'signed', company, agreementUid: corporateCLA.concord_agreement_uid };
+  }
+
+  // Serialize per contributor so concurrent PR events never create two agreements
+  return withSignerLock(userId, () => resolveSignerAgreement(octokit, repoFullName, prNumber, signer, repoConfig));
+}
+
+/**
+ * Name shown for the company of a corporate CLA
+ */
+export function getCompanyName(corporateCLA: CorporateCLARecord): string {
+  return corporateCLA.company_name || corporateCLA.signer_email.split('@')[1];
+}
+
+/**
+ * Find a signed corporate CLA covering a signer, by GitHub username or by the
+ * domain of a commit email GitHub attributed to their account (which GitHub
+ * only does for verified emails)
+ */
+export function findCoveringCorporateCLA(signer: CLASigner): CorporateCLARecord | undefined {
+  if (!signer.githubUsername) {
+    return undefined;
+  }
+
+  const domains = signer.emails
+    .filter((e) => !e.endsWith('noreply.github.com'))
+    .map((e) => e.split('@')[1])
+    .filter(Boolean);
+
+  return db.findCoveringCorporateCLA(signer.githubUsername, Array.from(new Set(domains)));
+}
+
+/**
+ * Template and version of the CLA new agreements are created for. A template
+ * set in the repository configuration overrides the version's template.
+ */
+export function getAgreementTemplate(repoConfig: RepoConfig): { templateId: string; version?: string } {
+  const current = db.findCLAVersionAt();
+  return {
+    templateId: repoConfig.concord.templateId || current?.template_id || config.concord.templateId,
+    version: current?.version,
+  };
+}
+
+/**
+ * The current CLA version if an agreement for `signedVersion` has to be signed
+ * again, i.e. a version requiring re-signing took effect after it
+ */
+export function getResignVersion(signedVersion: string | undefined): CLAVersionRecord | undefined {
+  const current = db.findCLAVersionAt();
+  if (!current || signedVersion === current.version) {
+    return undefined;
+  }
+
+  const signed = signedVersion ? db.findCLAVersion(signedVersion) : undefined;
+  const signedAt = signed ? Date.parse(signed.effective_date) : -Infinity;
+  const now = Date.now();
+
+  const requiresResign = db.listCLAVersions().some((v) => {
+    const effectiveAt = Date.parse(v.effective_date);
+    return v.resign_policy === 'resign' && effectiveAt > signedAt && effectiveAt <= now;
+  });
+
+  return requiresResign ? current : undefined;
+}
+
+/**
+ * Why a contributor with a pending agreement is asked to sign again, if they
+ * had signed an earlier CLA version
+ */
+function getResignInfo(
+  record: Pick<CLARecord, 'cla_version' | 'previous_cla_version'>
+): Pick<CLASignerResult, 'reason' | 'resign'> {
+  const version = record.cla_version ? db.findCLAVersion(record.cla_version) : undefined;
+  if (!version || !record.previous_cla_version || record.cla_version === record.previous_cla_version) {
+    return {};
+  }
+
+  return {
+    reason: `CLA updated to version ${version.version}`,
+    resign: { previousVersion: record.previous_cla_version, version },
+  };
+}
+
+/**
+ * What a signature provider needs to create an agreement for a contributor,
+ * including the invitation email
+ */
+export function buildSignatureRequest(
+  repoConfig: RepoConfig,
+  repoFullName: string | undefined,
+  signer: CLASigner,
+  email: string,
+  template: { templateId: string; version?: string }
+): SignatureRequest {
+  const username = signer.githubUsername!;
+  return {
+    email,
+    name: signer.name || username,
+    username,
+    githubUserId: signer.githubUserId!,
+    message: templateService.renderInvitationEmail(repoConfig, {
+      name: signer.name || username,
+      username,
+      email,
+      repo: repoFullName,
+      claVersion: template.version,
+    }),
+    templateId: template.templateId,
+    claVersion: template.version,
+  };
+}
+
+/**
+ * Run `fn` while holding the in-process lock of a contributor
+ */
+export function withSignerLock<T>(githubUserId: number, fn: () => Promise<T>): Promise<T> {
+  return withLock(`cla:${githubUserId}`, fn);
+}
+
+/**
+ * Wait for another process to finish creating a contributor's agreement.
+ * Returns the record once it is no longer 'creating', or undefined on timeout.
+ */
+async function waitForCLACreation(githubUserId: number): Promise<CLARecord | undefined> {
+  const deadline = Date.now() + config.cla.creationClaimTimeoutSeconds * 1000;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, CLAIM_POLL_INTERVAL_MS));
+    const record = db.findCLAByGitHubUserId(githubUserId);
+    if (!record || record.status !== 'creating') {
+      return record;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the signed or pending agreement of a contributor, creating it if needed.
+ * Must run under the contributor's lock.
+ */
+export async function resolveSignerAgreement(
+  octokit: Octokit,
+  repoFullName: string,
+  prNumber: number,
+  signer: CLASigner,
+  repoConfig: RepoConfig
+): Promise<CLASignerResult> {
+  const username = signer.githubUsername!;
+  const userId = signer.githubUserId!;
+
+  // Check if user has already signed the CLA (organization-wide, works across all repos)
+  let existingCLA = db.findCLAByGitHubUserId(userId);
+  const provider = signatureService.getSignatureProvider();
+
+  // Another process is creating this contributor's agreement — wait and reuse it
+  if (existingCLA && existingCLA.status === 'creating') {
+    existingCLA = await waitForCLACreation(userId) ?? existingCLA;
+  }
+
+  // A pending agreement of a provider that is no longer used cannot be signed anymore
+  if (existingCLA && existingCLA.status === 'pending' && (existingCLA.signature_source ?? 'concord') !== provider.name) {
+    logger.info('Pending agreement belongs to another signature provider, cancelling it', {
+      username,
+      agreementUid: existingCLA.concord_agreement_uid,
+      signatureSource: existingCLA.signature_source,
+      provider: provider.name,
+    });
+    if (existingCLA.concord_agreement_uid) {
+      await cancelAgreement(existingCLA, 'superseded', 'system');
+    }
+    db.updateCLAStatus(userId, 'cancelled');
+    existingCLA = { ...existingCLA, status: 'cancelled' };
+  }
+
+  // Signature requested on the signing page, which was disabled since: the agreement is emailed instead
+  if (
+    existingCLA
+    && existingCLA.status === 'pending'
+    && !existingCLA.concord_agreement_uid
+    && !createsAgreementOnSigningPage(provider)
+  ) {
+    db.updateCLAStatus(userId, 'cancelled');
+    existingCLA = { ...existingCLA, status: 'cancelled' };
+  }
+
+  // An agreement for an outdated CLA version is superseded: the contributor signs the current one.
+  // A pending one is cancelled once it is replaced, so it can no longer be signed.
+  let supersededAgreement: CLARecord | undefined;
+  if (existingCLA && (existingCLA.status === 'signed' || existingCLA.status === 'pending')) {
+    const resignVersion = getResignVersion(existingCLA.cla_version);
+    if (resignVersion) {
+      logger.info('CLA version requires a new signature', {
+        username,
+        signedVersion: existingCLA.cla_version,
+        currentVersion: resignVersion.version,
+        status: existingCLA.status,
+      });
+      db.updateCLAStatus(userId, 'superseded', existingCLA.signed_at);
+      if (existingCLA.status === 'pending' && existingCLA.concord_agreement_uid) {
+        supersededAgreement = existingCLA;
+      }
+      existingCLA = { ...existingCLA, status: 'superseded' };
+    }
+  }
+
+  if (existingCLA && existingCLA.status === 'signed') {
+    logger.info('User has already signed CLA', { username, userId });
+
+    // Track the PR anyway so it can be blocked again if the CLA is revoked
+    db.createPRRecord({
+      repo_full_name: repoFullName,
+      pr_number: prNumber,
+      github_username: username,
+      github_user_id: userId,
+      concord_agreement_uid: existingCLA.concord_agreement_uid,
+    });
+
+    return { signer, state: 'signed', agreementUid: existingCLA.concord_agreement_uid };
+  }
+
+  // An expired, cancelled or superseded agreement is never trusted again: a new one is started instead
+  const revokedCLA = existingCLA && ['expired', 'cancelled', 'superseded'].includes(existingCLA.status)
+    ? existingCLA
+    : undefined;
+
+  // Check if the provider knows of a signed agreement missing from the database
+  const providerCLA = await provider.findSignedAgreement(username, userId);
+  const providerSignedAt = providerCLA?.signedAt ?? new Date().toISOString();
+  // The agreement was created for the version in effect when it was signed
+  const providerVersion = providerCLA ? db.findCLAVersionAt(providerSignedAt)?.version : undefined;
+
+  if (
+    providerCLA
+    && providerCLA.agreementUid !== revokedCLA?.concord_agreement_uid
+    && !getResignVersion(providerVersion)
+  ) {
+    logger.info('Found existing signed CLA with the signature provider', {
+      username,
+      agreementUid: providerCLA.agreementUid,
+      provider: provider.name,
+    });
+
+    // Sync back to local database
+    db.createCLARecord({
+      github_username: username,
+      github_user_id: userId,
+      github_email: undefined,
+      concord_agreement_uid: providerCLA.agreementUid,
+      status: 'signed',
+      signed_at: providerSignedAt,
+      cla_version: providerVersion,
+      signature_source: provider.name,
+    });
+
+    if (supersededAgreement) {
+      await cancelAgreement(supersededAgreement, 'superseded', 'system', providerCLA.agreementUid);
+    }
+
+    db.createPRRecord({
+      repo_full_name: repoFullName,
+      pr_number: prNumber,
+      github_username: username,
+      github_user_id: userId,
+      concord_agreement_uid: providerCLA.agreementUid,
+    });
+
+    return { signer, state: 'signed', agreementUid: providerCLA.agreementUid };
+  }
+
+  // If the user already has a pending CLA, reuse it for this PR instead of
+  // creating a duplicate agreement.
+  if (existingCLA && existingCLA.status === 'pending') {
+    db.createPRRecord({
+      repo_full_name: repoFullName,
+      pr_number: prNumber,
+      github_username: username,
+      github_user_id: userId,
+      concord_agreement_uid: existingCLA.concord_agreement_uid || undefined,
+    });
+
+    return {
+      signer,
+      state: 'pending',
+      ...getResignInfo(existingCLA),
+      agreementUid: existingCLA.concord_agreement_uid || undefined,
+      signingUrl: await getSigningUrl(existingCLA, provider),
+    };
+  }
+
+  // Version the contributor signed before being asked to sign the current one
+  const resignedVersion = revokedCLA?.status === 'superseded' && revokedCLA.signed_at
+    ? revokedCLA.cla_version
+    : undefined;
+
+  if (createsAgreementOnSigningPage(provider)) {
+    return requestSignerAgreement(
+      octokit, repoFullName, prNumber, signer, repoConfig, revokedCLA, resignedVersion, supersededAgreement
+    );
+  }
+
+  const userEmail = await resolveSignerEmail(octokit, signer);
+  logger.info('User email determined', { username, userEmail });
+
+  if (!db.claimCLACreation(username, userId, userEmail, config.cla.creationClaimTimeoutSeconds)) {
+    // Lost the race to another process: reuse its agreement once created
+    const created = await waitForCLACreation(userId);
+    if (created && created.status === 'pending') {
+      return resolveSignerAgreement(octokit, repoFullName, prNumber, signer, repoConfig);
+    }
+    logger.warn('Agreement creation claimed by another process did not complete', { username, userId });
+    return { signer, state: 'error' };
+  }
+
+  // Create a new CLA agreement
+  const template = getAgreementTemplate(repoConfig);
+  let agreementResult;
+  try {
+    agreementResult = await provider.createAgreement(
+      buildSignatureRequest(repoConfig, repoFullName, signer, userEmail, template)
+    );
+  } catch (error) {
+    logger.error('Failed to create CLA agreement', {
+      error: serializeError(error),
+      username,
+      userEmail,
+      repoFullName,
+      prNumber,
+    });
+
+    db.releaseCLACreationClaim(userId);
+
+    // The record of the superseded agreement was replaced by the claim: it would never be found again
+    if (supersededAgreement) {
+      await cancelAgreement(supersededAgreement, 'superseded', 'system');
+    }
+
+    db.createPRRecord({
+      repo_full_name: repoFullName,
+      pr_number: prNumber,
+      github_username: username,
+      github_user_id: userId,
+    });
+
+    return { signer, state: 'error' };
+  }
+
+  db.createCLARecord({
+    github_username: username,
+    github_user_id: userId,
+    github_email: userEmail,
+    concord_agreement_uid: agreementResult.agreementUid,
+    status: 'pending',
+    cla_version: template.version,
+    previous_cla_version: resignedVersion,
+    signature_source: provider.name,
+  });
+
+  if (supersededAgreement) {
+    await cancelAgreement(supersededAgreement, 'superseded', 'system', agreementResult.agreementUid);
+  }
+
+  db.createPRRecord({
+    repo_full_name: repoFullName,
+    pr_number: prNumber,
+    github_username: username,
+    github_user_id: userId,
+    concord_agreement_uid: agreementResult.agreementUid,
+  });
+
+  logger.info('CLA request created', {
+    username,
+    agreementUid: agreementResult.agreementUid,
+    provider: provider.name,
+  });
+
+  const resignInfo = getResignInfo({ cla_version: template.version, previous_cla_version: resignedVersion });
+
+  return {
+    signer,
+    state: 'pending',
+    reason: revokedCLA ? `previous agreement ${revokedCLA.status}` : undefined,
+    ...resignInfo,
+    agreementUid: agreementResult.agreementUid,
+    signingUrl: await getSigningUrl({ github_user_id: userId, concord_agreement_uid: agreementResult.agreementUid }, provider),
+  };
+}
+
+/**
+ * Ask a contributor to sign on the signing page, where their agreement is
+ * created once they chose a verified email. A pending agreement for an outdated
+ * version is cancelled right away, as the request replaces its record.
+ * Must run under the contributor's lock.
+ */
+async function requestSignerAgreement(
+  octokit: Octokit,
+  repoFullName: string,
+  prNumber: number,
+  signer: CLASigner,
+  repoConfig: RepoConfig,
+  revokedCLA: CLARecord | undefined,
+  resignedVersion: string | undefined,
+  supersededAgreement: CLARecord | undefined
+): Promise<CLASignerResult> {
+  const username = signer.githubUsername!;
+  const userId = signer.githubUserId!;
+  const provider = signatureService.getSignatureProvider();
+  const template = getAgreementTemplate(repoConfig);
+
+  const requested = db.requestCLASignature({
+    github_username: username,
+    github_user_id: userId,
+    cla_version: template.version,
+    previous_cla_version: resignedVersion,
+    signature_source: provider.name,
+  }, config.cla.creationClaimTimeoutSeconds);
+
+  if (!requested) {
+    // Requested or created by another process in the meantime
+    const current = await waitForCLACreation(userId);
+    if (current && current.status === 'pending') {
+      return resolveSignerAgreement(octokit, repoFullName, prNumber, signer, repoConfig);
+    }
+    logger.warn('Agreement creation claimed by another process did not complete', { username, userId });
+    return { signer, state: 'error' };
+  }
+
+  if (supersededAgreement) {
+    await cancelAgreement(supersededAgreement, 'superseded', 'system');
+  }
+
+  db.createPRRecord({
+    repo_full_name: repoFullName,
+    pr_number: prNumber,
+    github_username: username,
+    github_user_id: userId,
+  });
+
+  logger.info('CLA signature requested on the signing page', { username, provider: provider.name });
+
+  return {
+    signer,
+    state: 'pending',
+    reason: revokedCLA ? `previous agreement ${revokedCLA.status}` : undefined,
+    ...getResignInfo({ cla_version: template.version, previous_cla_version: resignedVersion }),
+    signingUrl: signatureService.getSigningPageUrl(userId),
+  };
+}
+
+/**
+ * Repository configuration of a tracked PR, for the templates and language of
+ * messages sent outside of its events. The defaults if it cannot be read.
+ */
+async function getPRRecordRepoConfig(prRecord: PRRecord): Promise<RepoConfig> {
+  const [owner, repo] = prRecord.repo_full_name.split('/');
+  try {
+    const installationId = await resolveInstallationId(prRecord);
+    if (installationId) {
+      const octokit = await githubService.getInstallationOctokit(installationId);
+      return await repoConfigService.getRepoConfig(octokit, owner, repo);
+    }
+  } catch (error) {
+    logger.warn('Could not read repository configuration, using the defaults', {
+      repoFullName: prRecord.repo_full_name,
+      error: serializeError(error),
+    });
+  }
+  return repoConfigService.getDefaultRepoConfig();
+}
+
+/**
+ * Create the agreement of a contributor's pending CLA for the verified email
+ * they chose on the signing page. An agreement already sent to that email is
+ * kept; one sent to another email is replaced. Must run under the contributor's
+ * lock. Returns the pending CLA, or undefined if it is not pending anymore.
+ */
+export async function createAgreementForEmail(user: GitHubUser, email: string): Promise<CLARecord | undefined> {
+  const record = db.findCLAByGitHubUserId(user.id);
+  if (!record || record.status !== 'pending') {
+    return undefined;
+  }
+  if (record.concord_agreement_uid && record.github_email?.toLowerCase() === email.toLowerCase()) {
+    return record;
+  }
+
+  const provider = signatureService.getAgreementProvider(record.signature_source);
+  if (!db.claimPendingCLACreation(user.id, record.concord_agreement_uid, email)) {
+    return undefined;
+  }
+
+  // The repository of one of the contributor's PRs picks the template and the language of the invitation
+  const prRecord = db.findOpenPRRecordsByGitHubUserId(user.id)[0];
+  const repoConfig = prRecord ? await getPRRecordRepoConfig(prRecord) : repoConfigService.getDefaultRepoConfig();
+  const template = getAgreementTemplate(repoConfig);
+  const signer: CLASigner = {
+    githubUserId: user.id,
+    githubUsername: user.login,
+    name: user.name,
+    emails: [email],
+    roles: [],
+  };
+
+  let agreementResult;
+  try {
+    agreementResult = await provider.createAgreement(
+      buildSignatureRequest(repoConfig, prRecord?.repo_full_name, signer, email, template)
+    );
+  } catch (error) {
+    db.releasePendingCLAClaim(user.id, record.concord_agreement_uid, record.github_email);
+    throw error;
+  }
+
+  const created = db.createCLARecord({
+    github_username: user.login,
+    github_user_id: user.id,
+    github_email: email,
+    concord_agreement_uid: agreementResult.agreementUid,
+    status: 'pending',
+    cla_version: template.version,
+    previous_cla_version: record.previous_cla_version,
+    signature_source: provider.name,
+  });
+
+  for (const openPR of db.findOpenPRRecordsByGitHubUserId(user.id)) {
+    db.updatePRRecordAgreementUid(openPR.repo_full_name, openPR.pr_number, user.id, agreementResult.agreementUid);
+  }
+
+  // The agreement sent to the previous email must not be signed anymore
+  if (record.concord_agreement_uid) {
+    await cancelAgreement(record, 'superseded', `@${user.login}`, agreementResult.agreementUid);
+  }
+
+  logger.info('CLA agreement created for the email chosen on the signing page', {
+    username: user.login,
+    agreementUid: agreementResult.agreementUid,
+    replacedAgreementUid: record.concord_agreement_uid || undefined,
+    provider: provider.name,
+  });
+
+  return created;
+}
+
+/**
+ * Email the invitation of a contributor's pending agreement again, in the
+ * language of the repository of one of their open PRs
+ */
+export async function resendPendingInvitation(record: CLARecord): Promise<void> {
+  const provider = signatureService.getAgreementProvider(record.signature_source);
+  const prRecord = db.findOpenPRRecordsByGitHubUserId(record.github_user_id)[0];
+  const repoConfig = prRecord ? await getPRRecordRepoConfig(prRecord) : repoConfigService.getDefaultRepoConfig();
+  const email = record.github_email!;
+  const signer: CLASigner = {
+    githubUserId: record.github_user_id,
+    githubUsername: record.github_username,
+    emails: [email],
+    roles: [],
+  };
+
+  await provider.resendInvitation(
+    record.concord_agreement_uid,
+    buildSignatureRequest(repoConfig, prRecord?.repo_full_name, signer, email, {
+      templateId: getAgreementTemplate(repoConfig).templateId,
+      version: record.cla_version,
+    })
+  );
+}
+
+/**
+ * Cancel a pending agreement with its signature provider, and record it in the
+ * audit log so legal can trace every agreement that was withdrawn. A failure is
+ * only logged: a leftover agreement must not block the contributor. Returns
+ * true if the agreement was cancelled.
+ */
+export async function cancelAgreement(
+  record: Pick<CLARecord, 'github_username' | 'github_email' | 'concord_agreement_uid' | 'signature_source' | 'cla_version' | 'created_at'>,
+  reason: AgreementCancellationReason,
+  actor: string,
+  replacedBy?: string
+): Promise<boolean> {
+  const provider = signatureService.getAgreementProvider(record.signature_source);
+  try {
+    await provider.cancelAgreement(record.concord_agreement_uid);
+  } catch (error) {
+    logger.warn('Could not cancel agreement', {
+      username: record.github_username,
+      agreementUid: record.concord_agreement_uid,
+      reason,
+      error: serializeError(error),
+    });
+    return false;
+  }
+
+  db.addAuditEntry(actor, 'cancel_agreement', `user:${record.github_username.toLowerCase()}`, {
+    agreementUid: record.concord_agreement_uid,
+    provider: provider.name,
+    email: record.github_email,
+    claVersion: record.cla_version,
+    sentAt: record.created_at,
+    reason,
+    replacedBy,
+  });
+  logger.info('Agreement cancelled', {
+    username: record.github_username,
+    agreementUid: record.concord_agreement_uid,
+    reason,
+    replacedBy,
+  });
+  return true;
+}
+
+/**
+ * Evaluate the CLA for every contributor of a PR and reflect the outcome on
+ * GitHub: check run / commit status, pending label and the bot comment. The
+ * status only turns green once every contributor has signed or is exempted.
+ */
+export async function evaluatePullRequest(
+  octokit: Octokit,
+  installationId: number,
+  owner: string,
+  repo: string,
+  pr: PullRequest
+): Promise<CLAEvaluation> {
+  const repoFullName = `${owner}/${repo}`;
+  const head = { number: pr.number, sha: pr.head.sha };
+
+  if (pr.state !== 'open') {
+    logger.info('Skipping closed PR', { repoFullName, prNumber: pr.number });
+    return { results: [], satisfied: false, skippedReason: 'the pull request is closed' };
+  }
+
+  let repoConfig: RepoConfig;
+  try {
+    repoConfig = await repoConfigService.getRepoConfig(octokit, owner, repo);
+  } catch (error) {
+    if (error instanceof repoConfigService.RepoConfigError) {
+      await githubService.reportCLAConfigError(octokit, owner, repo, head, error.source, error.problems);
+      await syncCLAComment(octokit, installationId, owner, repo, pr, {
+        kind: 'config_error',
+        source: error.source,
+        problems: error.problems,
+      }, undefined);
+      return { results: [], satisfied: false, skippedReason: `invalid configuration in ${error.source}` };
+    }
+    throw error;
+  }
+
+  const override = db.findPROverride(repoFullName, pr.number);
+  if (override) {
+    logger.info('CLA overridden for pull request', { repoFullName, prNumber: pr.number, actor: override.actor });
+    const description = `CLA overridden by ${override.actor}`;
+    await markPRAsSatisfied(octokit, installationId, owner, repo, pr, description, [], repoConfig, override);
+    return { results: [], satisfied: true, skippedReason: description };
+  }
+
+  if (repoConfigService.isBranchIgnored(repoConfig, pr.base.ref)) {
+    logger.info('CLA not enforced on base branch', { repoFullName, prNumber: pr.number, branch: pr.base.ref });
+    const description = `CLA not required on branch ${pr.base.ref}`;
+    await githubService.reportCLAStatus(octokit, owner, repo, head, true, description, []);
+    await syncCLAComment(octokit, installationId, owner, repo, pr, { kind: 'skipped', reason: description }, repoConfig);
+    return { results: [], satisfied: true, skippedReason: description };
+  }
+
+  if (pr.draft && repoConfig.drafts === 'skip') {
+    logger.info('Skipping draft PR', { repoFullName, prNumber: pr.number });
+    const reason = 'draft pull requests are checked once ready for review';
+    await syncCLAComment(octokit, installationId, owner, repo, pr, { kind: 'skipped', reason }, repoConfig);
+    return { results: [], satisfied: false, skippedReason: reason };
+  }
+
+  const signers = await githubService.getPRSigners(octokit, owner, repo, pr);
+
+  const results: CLASignerResult[] = [];
+  for (const signer of signers) {
+    results.push(await evaluateSigner(octokit, owner, repoFullName, pr.number, signer, repoConfig));
+  }
+
+  // Later updates (signature, revocation) reach the PR through this installation
+  db.updatePRRecordsInstallationId(repoFullName, pr.number, installationId);
+
+  const blocking = results.filter((r) => !isSignerSatisfied(r));
+
+  logger.info('CLA evaluated for pull request', {
+    repoFullName,
+    prNumber: pr.number,
+    signers: results.map((r) => ({ signer: githubService.formatSigner(r.signer), state: r.state })),
+  });
+
+  if (blocking.length === 0) {
+    const allExempt = results.every((r) => r.state === 'exempt');
+    const companies = Array.from(new Set(results.map((r) => r.company).filter((c): c is string => Boolean(c))));
+    const description = allExempt
+      ? 'CLA not required (organization member)'
+      : results.length === 1 && companies.length === 1
+      ? `CLA covered by the ${companies[0]} corporate CLA`
+      : results.length === 1 ? 'CLA already signed'
+      : companies.length > 0
+      ? `CLA signed by all contributors (corporate CLA: ${companies.join(', ')})`
+      : 'CLA signed by all contributors';
+
+    await markPRAsSatisfied(octokit, installationId, owner, repo, pr, description, results, repoConfig);
+    return { results, satisfied: true };
+  }
+
+  await githubService.addCLALabel(octokit, owner, repo, pr.number, repoConfig.label);
+
+  await syncCLAComment(octokit, installationId, owner, repo, pr, { kind: 'pending', results }, repoConfig);
+
+  const description = results.length > 1
+    ? `CLA signature required (${results.length - blocking.length} of ${results.length} contributors signed)`
+    : 'CLA signature required';
+  await githubService.reportCLAStatus(octokit, owner, repo, head, false, description, results);
+
+  return { results, satisfied: false };
+}
+
+/**
+ * Re-render the bot comment of a PR from its current state and history. It is
+ * created for pending and invalid-configuration outcomes, or once something was
+ * recorded in the history (e.g. a `/cla recheck`); otherwise only an existing
+ * comment is updated, so PRs that pass right away stay free of bot comments.
+ */
+async function syncCLAComment(
+  octokit: Octokit,
+  installationId: number,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  state: CLACommentState,
+  repoConfig: RepoConfig | undefined
+): Promise<void> {
+  const repoFullName = `${owner}/${repo}`;
+  const prRecords = db.findPRRecordsByPullRequest(repoFullName, pr.number);
+  const storedId = prRecords.find((r) => r.comment_id)?.comment_id;
+  const history = db.listPRHistory(repoFullName, pr.number);
+  const create = state.kind === 'pending' || state.kind === 'config_error' || history.length > 0;
+
+  const body = githubService.buildCLACommentBody(state, history, {
+    repoFullName,
+    prNumber: pr.number,
+    claVersion: db.findCLAVersionAt()?.version,
+    repoConfig,
+  });
+
+  let commentId: number | undefined;
+  try {
+    commentId = await githubService.upsertCLAComment(octokit, owner, repo, pr.number, storedId, body, create);
+  } catch (error) {
+    // Contributors must be told how to sign: let the event be retried
+    if (state.kind === 'pending') throw error;
+    logger.warn('Could not update CLA comment', { repoFullName, prNumber: pr.number, error: serializeError(error) });
+    return;
+  }
+
+  if (!commentId || commentId === storedId) {
+    return;
+  }
+
+  // The comment is tracked on the PR records; when no contributor has one (e.g.
+  // only signers without a GitHub account block the PR), anchor it on the PR author.
+  if (prRecords.length === 0) {
+    db.createPRRecord({
+      repo_full_name: repoFullName,
+      pr_number: pr.number,
+      github_username: pr.user.login,
+      github_user_id: pr.user.id,
+      installation_id: installationId,
+    });
+  }
+  db.updatePRRecordsCommentId(repoFullName, pr.number, commentId);
+}
+
+/**
+ * Mark a PR as CLA-satisfied: set success status, remove pending label,
+ * and re-render the bot comment (to explain the override, if any).
+ */
+export async function markPRAsSatisfied(
+  octokit: Octokit,
+  installationId: number,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  description: string,
+  results: CLASignerResult[],
+  repoConfig: RepoConfig,
+  override?: PROverrideRecord,
+): Promise<void> {
+  await githubService.reportCLAStatus(octokit, owner, repo, { number: pr.number, sha: pr.head.sha }, true, description, results);
+  await githubService.removeCLALabel(octokit, owner, repo, pr.number, repoConfig.label);
+
+  await syncCLAComment(
+    octokit,
+    installationId,
+    owner,
+    repo,
+    pr,
+    override ? { kind: 'overridden', override } : { kind: 'signed', results },
+    repoConfig
+  );
+}
+
+/**
+ * Installation with access to the repository of a PR: the one stored with the
+ * PR, else the repository map, else asked from GitHub for records created
+ * before installations were tracked
+ */
+export async function resolveInstallationId(prRecord: PRRecord): Promise<number | null> {
+  if (prRecord.installation_id) {
+    return prRecord.installation_id;
+  }
+
+  const knownInstallationId = db.findInstallationIdByRepo(prRecord.repo_full_name);
+  if (knownInstallationId) {
+    return knownInstallationId;
+  }
+
+  const [owner, repo] = prRecord.repo_full_name.split('/');
+  const installationId = await githubService.getRepoInstallationId(owner, repo);
+  if (installationId) {
+    db.upsertRepoInstallation(prRecord.repo_full_name, installationId);
+  }
+  return installationId;
+}
+
+/**
+ * Re-evaluate an open PR after the CLA of one of its contributors was signed or revoked
+ */
+export async function updatePRAfterCLAChange(
+  prRecord: PRRecord,
+  githubUsername: string
+): Promise<PRUpdateOutcome> {
+  const [owner, repo] = prRecord.repo_full_name.split('/');
+
+  logger.info('Updating PR after CLA change', {
+    owner,
+    repo,
+    prNumber: prRecord.pr_number,
+    githubUsername,
+  });
+
+  const installationId = await resolveInstallationId(prRecord);
+  if (!installationId) {
+    logger.error('Could not find installation for repo', { 
+      repoFullName: prRecord.repo_full_name 
+    });
+    return 'skipped';
+  }
+
+  const octokit = await githubService.getInstallationOctokit(installationId);
+
+  // Get the PR to check if it's still open and get the latest SHA
+  let pr;
+  try {
+    pr = await githubService.getPullRequest(octokit, owner, repo, prRecord.pr_number);
+  } catch (error) {
+    logger.warn('Could not fetch PR', { 
+      owner, 
+      repo, 
+      prNumber: prRecord.pr_number, 
+      error: serializeError(error),
+    });
+    return 'skipped';
+  }
+
+  if (pr.state !== 'open') {
+    // The close event was missed (e.g. the app was not installed at the time)
+    const merged = Boolean(pr.merged || pr.merged_at);
+    db.updatePRRecordsState(
+      prRecord.repo_full_name,
+      prRecord.pr_number,
+      merged ? 'merged' : 'closed',
+      pr.closed_at ?? undefined,
+      merged ? pr.merged_at ?? undefined : undefined
+    );
+    logger.debug('Skipping closed PR', { owner, repo, prNumber: prRecord.pr_number });
+    return 'closed';
+  }
+
+  // Re-evaluate the whole PR: the status only turns green once every
+  // contributor of the PR is covered, and turns back to pending when a
+  // contributor's CLA is revoked
+  await evaluatePullRequest(octokit, installationId, owner, repo, pr);
+
+  logger.info('PR updated after CLA change', {
+    owner,
+    repo,
+    prNumber: prRecord.pr_number,
+  });
+  return 'evaluated';
+}
+
+/**
+ * Re-evaluate every open PR of a contributor after their CLA was changed
+ * outside of Concord events (admin actions, click-through signatures).
+ * Returns how many PRs were updated.
+ */
+export async function updateContributorPRs(githubUserId: number, githubUsername: string): Promise<number> {
+  const prRecords = db.findOpenPRRecordsByGitHubUserId(githubUserId);
+  let updated = await reopenExpiredPRs(githubUserId);
+
+  for (const prRecord of prRecords) {
+    try {
+      await updatePRAfterCLAChange(prRecord, githubUsername);
+      updated++;
+    } catch (error) {
+      logger.error('Failed to update PR after CLA change', {
+        repoFullName: prRecord.repo_full_name,
+        prNumber: prRecord.pr_number,
+        error: serializeError(error),
+      });
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Reopen a PR closed by `auto_close` if every contributor is now covered: it is
+ * evaluated as if it were open, which also refreshes its status and comment.
+ * Returns true if it was reopened.
+ */
+export async function reopenExpiredPR(
+  octokit: Octokit,
+  installationId: number,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  actor?: string
+): Promise<boolean> {
+  const repoFullName = `${owner}/${repo}`;
+  if (pr.state === 'open' || pr.merged || pr.merged_at || !db.findPRExpiration(repoFullName, pr.number)?.closed_at) {
+    return false;
+  }
+
+  const { satisfied } = await evaluatePullRequest(octokit, installationId, owner, repo, { ...pr, state: 'open' });
+  if (!satisfied) {
+    return false;
+  }
+
+  await githubService.setPullRequestState(octokit, owner, repo, pr.number, 'open');
+  await githubService.removeCLALabel(octokit, owner, repo, pr.number, config.claExpiredLabel);
+  db.deletePRExpiration(repoFullName, pr.number);
+  db.updatePRRecordsState(repoFullName, pr.number, 'open');
+  db.addPRHistoryEntry(repoFullName, pr.number, `Reopened${actor ? ` after a recheck by ${actor}` : ''}: the CLA is now signed`);
+
+  logger.info('Reopened pull request closed while its CLA was unsigned', { repoFullName, prNumber: pr.number, actor });
+  return true;
+}
+
+/**
+ * Reopen the PRs of a contributor closed because their CLA stayed unsigned,
+ * once they signed it. Returns how many PRs were reopened.
+ */
+export async function reopenExpiredPRs(githubUserId: number): Promise<number> {
+  if (db.findCLAByGitHubUserId(githubUserId)?.status !== 'signed') {
+    return 0;
+  }
+
+  let reopened = 0;
+  for (const prRecord of db.findExpiredPRRecordsByGitHubUserId(githubUserId)) {
+    const [owner, repo] = prRecord.repo_full_name.split('/');
+    try {
+      const installationId = await resolveInstallationId(prRecord);
+      if (!installationId) continue;
+
+      const octokit = await githubService.getInstallationOctokit(installationId);
+      const pr = await githubService.getPullRequest(octokit, owner, repo, prRecord.pr_number);
+      if (await reopenExpiredPR(octokit, installationId, owner, repo, pr)) {
+        reopened++;
+      }
+    } catch (error) {
+      logger.error('Failed to reopen PR after CLA change', {
+        repoFullName: prRecord.repo_full_name,
+        prNumber: prRecord.pr_number,
+        error: serializeError(error),
+      });
+    }
+  }
+
+  return reopened;
+}
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { CLARecord, ClickthroughSignatureMethod, SignatureProvider } from '../types';
+import * as db from './database';
+
+/**
+ * Text of the agreement, read on every use so that it can be updated without
+ * a restart. Register a new CLA version when it changes.
+ */
+export function getAgreementText(): string {
+  return fs.readFileSync(config.clickthrough.agreementPath, 'utf-8');
+}
+
+/**
+ * SHA-256 of an agreement text, stored as evidence of what was accepted
+ */
+export function hashAgreementText(text: string): string {
+  return crypto.createHash('sha256').update(text, 'utf-8').digest('hex');
+}
+
+/**
+ * Comment that signs the CLA, when contributors sign click-through agreements
+ */
+export function getSignPhrase(): string | undefined {
+  return config.cla.signatureProvider === 'clickthrough' ? config.clickthrough.signPhrase : undefined;
+}
+
+/**
+ * Whether a PR comment is the agreement phrase, exactly as configured
+ */
+export function isSignPhrase(body: string): boolean {
+  const phrase = getSignPhrase();
+  return phrase !== undefined && body.trim() === phrase;
+}
+
+/**
+ * Agreements accepted on the bot's own signing page or with a PR comment,
+ * without any external service
+ */
+export const clickthroughProvider: SignatureProvider = {
+  name: 'clickthrough',
+  sendsInvitations: false,
+
+  async createAgreement() {
+    // The agreement only exists as the contributor's pending CLA record
+    return { agreementUid: `clickthrough-${crypto.randomUUID()}` };
+  },
+
+  async getSigningUrl() {
+    // Only the signing page links to the agreement, see signatureService.getSigningPageUrl
+    throw new Error('The signing page needs GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET and DASHBOARD_SESSION_SECRET');
+  },
+
+  async agreementExists(agreementUid) {
+    return db.findCLAByAgreementUid(agreementUid) !== undefined;
+  },
+
+  async resendInvitation() {
+    // Nothing is sent: the signing link and the agreement phrase are in the PR comment
+  },
+
+  async isAgreementSigned(agreementUid) {
+    return db.findSignatureEvidence(agreementUid) !== undefined;
+  },
+
+  async cancelAgreement() {
+    // Nothing to withdraw: the agreement only exists as the CLA record
+  },
+
+  async findSignedAgreement(_githubUsername, githubUserId) {
+    const evidence = db.findLatestSignatureEvidence(githubUserId);
+    return evidence ? { agreementUid: evidence.agreement_uid, signedAt: evidence.signed_at } : null;
+  },
+};
+
+export interface ClickthroughSignature {
+  method: ClickthroughSignatureMethod;
+  // Hash of the agreement text the contributor was shown
+  textHash: string;
+  ipAddress?: string;
+  userAgent?: string;
+  sourceUrl?: string;
+}
+
+/**
+ * Sign a contributor's pending click-through agreement and store the evidence.
+ * Returns false if the agreement is not pending anymore.
+ */
+export function signAgreement(record: CLARecord, signature: ClickthroughSignature): boolean {
+  const signed = db.recordClickthroughSignature({
+    agreement_uid: record.concord_agreement_uid,
+    github_username: record.github_username,
+    github_user_id: record.github_user_id,
+    cla_version: record.cla_version,
+    method: signature.method,
+    text_hash: signature.textHash,
+    ip_address: signature.ipAddress,
+    user_agent: signature.userAgent,
+    source_url: signature.sourceUrl,
+    signed_at: new Date().toISOString(),
+  });
+
+  if (signed) {
+    logger.info('Click-through CLA signed', {
+      githubUsername: record.github_username,
+      agreementUid: record.concord_agreement_uid,
+      method: signature.method,
+    });
+  }
+  return signed;
+}
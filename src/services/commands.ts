@@ -0,0 +1,463 @@
+import { Octokit } from '@octokit/rest';
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { CLARecord, CLASigner, PROverrideRecord, PullRequest, RepoConfig } from '../types';
+import * as githubService from './github';
+import * as claService from './cla';
+import * as repoConfigService from './repoConfig';
+import * as signatureService from './signature';
+import * as db from './database';
+
+/**
+ * Re-evaluate every contributor of a PR. The outcome is shown in the bot
+ * comment, with the recheck in its history.
+ * Shared by `/cla recheck`, the check run "Re-check" button and the dashboard.
+ * `actor` is "@login".
+ */
+export async function recheckPullRequest(
+  installationId: number,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  actor: string
+): Promise<void> {
+  const octokit = await githubService.getInstallationOctokit(installationId);
+  const pr = await githubService.getPullRequest(octokit, owner, repo, prNumber);
+  if (pr.state === 'open') {
+    db.addPRHistoryEntry(`${owner}/${repo}`, prNumber, `${actor} requested a recheck`);
+  } else if (await claService.reopenExpiredPR(octokit, installationId, owner, repo, pr, actor)) {
+    // Closed by auto_close, the evaluation was done while reopening it
+    return;
+  }
+
+  const { results, skippedReason } = await claService.evaluatePullRequest(octokit, installationId, owner, repo, pr);
+
+  logger.info('CLA rechecked', {
+    repoFullName: `${owner}/${repo}`,
+    prNumber,
+    actor,
+    skippedReason,
+    blocking: results.filter((r) => !claService.isSignerSatisfied(r)).map((r) => githubService.formatSigner(r.signer)),
+  });
+}
+
+/**
+ * Hide most of an email address in public comments: "jane.doe@example.com" → "ja***@ex***.com"
+ */
+function maskEmail(email: string): string {
+  const [local, domain = ''] = email.split('@');
+  const dot = domain.lastIndexOf('.');
+  const host = dot > 0 ? domain.slice(0, dot) : domain;
+  const tld = dot > 0 ? domain.slice(dot) : '';
+  return `${local.slice(0, 2)}***@${host.slice(0, 2)}***${tld}`;
+}
+
+/**
+ * State of a signer as shown by `/cla status`, from what is already known:
+ * unlike an evaluation, it never creates agreements or sends invitations.
+ */
+async function describeSigner(
+  octokit: Octokit,
+  owner: string,
+  repoFullName: string,
+  prNumber: number,
+  signer: CLASigner,
+  repoConfig: RepoConfig | undefined
+): Promise<{ state: string; agreementUid?: string; sentAt?: string; sentTo?: string }> {
+  if (!signer.githubUserId || !signer.githubUsername) {
+    return { state: ':grey_question: Not linked to a GitHub account' };
+  }
+
+  const prExemption = db.findPRExemption(repoFullName, prNumber, signer.githubUsername);
+  if (prExemption) {
+    return { state: `:white_check_mark: Exempted by ${prExemption.actor}` };
+  }
+
+  const exemptionReason = repoConfig && await claService.getExemptionReason(octokit, owner, signer.githubUsername, repoConfig);
+  if (exemptionReason) {
+    return { state: `:white_check_mark: Exempted (${exemptionReason})` };
+  }
+
+  const corporateCLA = claService.findCoveringCorporateCLA(signer);
+  if (corporateCLA) {
+    return {
+      state: `:white_check_mark: Covered by the corporate CLA of ${claService.getCompanyName(corporateCLA)}`,
+      agreementUid: corporateCLA.concord_agreement_uid,
+    };
+  }
+
+  const record = db.findCLAByGitHubUserId(signer.githubUserId);
+  if (!record) {
+    return { state: ':x: No agreement yet' };
+  }
+
+  const details = {
+    agreementUid: record.status === 'creating' ? undefined : record.concord_agreement_uid,
+    sentAt: record.created_at,
+    // Click-through agreements are not emailed
+    sentTo: record.github_email && signatureService.getAgreementProvider(record.signature_source).sendsInvitations
+      ? maskEmail(record.github_email)
+      : undefined,
+  };
+  const resignVersion = record.status === 'signed' || record.status === 'superseded'
+    ? claService.getResignVersion(record.cla_version)
+    : undefined;
+
+  if (resignVersion) {
+    return { state: `:arrows_counterclockwise: Must sign CLA version ${resignVersion.version}`, ...details };
+  }
+  switch (record.status) {
+    case 'signed':
+      return { state: `:white_check_mark: Signed${record.cla_version ? ` (version ${record.cla_version})` : ''}`, ...details };
+    case 'pending':
+      return record.concord_agreement_uid
+        ? { state: ':hourglass: Waiting for signature', ...details }
+        : { state: ':hourglass: Waiting for the contributor to open the signing page', ...details };
+    case 'creating':
+      return { state: ':hourglass: Agreement being created', ...details };
+    default:
+      return { state: `:x: Agreement ${record.status}`, ...details };
+  }
+}
+
+/**
+ * Reply with the CLA state of every contributor of the PR: agreement, when the
+ * invitation was sent and to which (masked) email. Used by `/cla status`.
+ */
+export async function reportPullRequestStatus(
+  installationId: number,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  requestedBy: string
+): Promise<void> {
+  const repoFullName = `${owner}/${repo}`;
+  const octokit = await githubService.getInstallationOctokit(installationId);
+  const pr = await githubService.getPullRequest(octokit, owner, repo, prNumber);
+  const signers = await githubService.getPRSigners(octokit, owner, repo, pr);
+
+  let repoConfig: RepoConfig | undefined;
+  let configProblem: string | undefined;
+  try {
+    repoConfig = await repoConfigService.getRepoConfig(octokit, owner, repo);
+  } catch (error) {
+    if (!(error instanceof repoConfigService.RepoConfigError)) throw error;
+    configProblem = error.message;
+  }
+
+  const rows: string[] = [];
+  for (const signer of signers) {
+    const status = await describeSigner(octokit, owner, repoFullName, prNumber, signer, repoConfig);
+    rows.push(`| ${githubService.formatSigner(signer)} | ${status.state} | ${status.agreementUid ? `\`${status.agreementUid}\`` : '—'} | ${status.sentAt ?? '—'} | ${status.sentTo ?? '—'} |`);
+  }
+
+  const override = db.findPROverride(repoFullName, prNumber);
+  const notes = [
+    override && `:unlock: The CLA was overridden on this pull request by ${override.actor}: ${override.reason}`,
+    configProblem && `:warning: The CLA configuration of this repository is invalid: ${configProblem}`,
+  ].filter(Boolean);
+
+  await octokit.issues.createComment({
+    owner,
+    repo,
+    issue_number: prNumber,
+    body: `@${requestedBy} **CLA status** of this pull request:
+
+| Contributor | CLA | Agreement | Invitation sent | Sent to |
+|-------------|-----|-----------|-----------------|---------|
+${rows.join('\n')}
+${notes.length > 0 ? `\n${notes.join('\n\n')}\n` : ''}`,
+  });
+}
+
+/**
+ * Resend or recreate the CLA signing invitation for every contributor of the
+ * PR who has not signed yet. What was done is added to the bot comment history.
+ * Shared by `/cla resend` and the dashboard.
+ */
+export async function resendPullRequest(
+  installationId: number,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  requestedBy: string
+): Promise<void> {
+  const octokit = await githubService.getInstallationOctokit(installationId);
+  const pr = await githubService.getPullRequest(octokit, owner, repo, prNumber);
+  if (pr.state !== 'open') {
+    logger.info('Ignoring CLA resend on closed PR', { repoFullName: `${owner}/${repo}`, prNumber });
+    return;
+  }
+
+  const repoFullName = `${owner}/${repo}`;
+  const signers = await githubService.getPRSigners(octokit, owner, repo, pr);
+  let repoConfig: RepoConfig;
+  try {
+    repoConfig = await repoConfigService.getRepoConfig(octokit, owner, repo);
+  } catch (error) {
+    if (!(error instanceof repoConfigService.RepoConfigError)) throw error;
+
+    // The evaluation shows the configuration problem in the bot comment
+    db.addPRHistoryEntry(repoFullName, prNumber, `Signing invitations could not be resent (requested by @${requestedBy}): invalid CLA configuration`);
+    await claService.evaluatePullRequest(octokit, installationId, owner, repo, pr);
+    return;
+  }
+
+  let resent = 0;
+  for (const signer of signers) {
+    if (!signer.githubUserId || !signer.githubUsername) continue;
+    if (db.findPRExemption(repoFullName, prNumber, signer.githubUsername)) continue;
+    if (await claService.getExemptionReason(octokit, owner, signer.githubUsername, repoConfig)) continue;
+
+    const message = await resendCLAForSigner(octokit, owner, repo, pr, signer, repoConfig, requestedBy);
+    db.addPRHistoryEntry(repoFullName, prNumber, `${message} (requested by @${requestedBy})`);
+    resent++;
+  }
+
+  if (resent === 0) {
+    return;
+  }
+
+  // Refresh the comment and check run with the new signing links and the history
+  await claService.evaluatePullRequest(octokit, installationId, owner, repo, pr);
+}
+
+/**
+ * Resend or recreate the agreement of a single signer. An agreement sent to an
+ * email that changed is cancelled once its replacement is created.
+ * Returns what was done, for the history of the bot comment.
+ */
+async function resendCLAForSigner(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  signer: CLASigner,
+  repoConfig: RepoConfig,
+  requestedBy: string,
+): Promise<string> {
+  const repoFullName = `${owner}/${repo}`;
+  const username = signer.githubUsername!;
+  const userId = signer.githubUserId!;
+  const provider = signatureService.getSignatureProvider();
+  // The contributor chooses a verified email on the signing page instead of the one guessed here
+  const onSigningPage = claService.createsAgreementOnSigningPage(provider);
+  const userEmail = onSigningPage ? undefined : await claService.resolveSignerEmail(octokit, signer);
+
+  // Hold the contributor's lock so a concurrent PR event cannot create a second agreement
+  return claService.withSignerLock(userId, async () => {
+    // Check if there's an existing CLA record
+    const claRecord = db.findCLAByGitHubUserId(userId);
+    let supersededCLA: CLARecord | undefined;
+
+    if (claRecord && claRecord.status === 'signed' && !claService.getResignVersion(claRecord.cla_version)) {
+      return `@${username} has already signed the CLA, no resend needed`;
+    }
+
+    if (claRecord && claRecord.status === 'creating') {
+      return `A CLA agreement for @${username} is already being created, nothing resent`;
+    }
+
+    if (
+      claRecord
+      && claRecord.status === 'pending'
+      && !claService.getResignVersion(claRecord.cla_version)
+      && (claRecord.signature_source ?? 'concord') === provider.name
+    ) {
+      if (!provider.sendsInvitations) {
+        return `@${username} can sign the CLA with the link or the agreement phrase in this comment, nothing to resend`;
+      }
+      if (onSigningPage && !claRecord.concord_agreement_uid) {
+        return `@${username} can sign the CLA with the link in this comment, nothing to resend`;
+      }
+
+      // If the stored email differs from the newly resolved email (e.g. was sent to a
+      // noreply address), the existing agreement has the wrong signer — we must
+      // purge it and create a fresh one with the correct email. An email chosen
+      // on the signing page was verified and is kept.
+      const email = userEmail ?? claRecord.github_email!;
+      const emailChanged = claRecord.github_email !== email;
+
+      if (emailChanged) {
+        logger.info('Email changed since original agreement, will recreate', {
+          oldEmail: claRecord.github_email,
+          newEmail: userEmail,
+          agreementUid: claRecord.concord_agreement_uid,
+        });
+        supersededCLA = claRecord;
+      } else if (await provider.agreementExists(claRecord.concord_agreement_uid)) {
+        // Agreement still exists with correct email — just resend the invitation
+        logger.info('Agreement still exists, resending invitation', {
+          agreementUid: claRecord.concord_agreement_uid,
+          provider: provider.name,
+        });
+
+        await provider.resendInvitation(
+          claRecord.concord_agreement_uid,
+          claService.buildSignatureRequest(repoConfig, repoFullName, signer, email, {
+            templateId: claService.getAgreementTemplate(repoConfig).templateId,
+            version: claRecord.cla_version,
+          })
+        );
+
+        return `Signing invitation resent to @${username}`;
+      } else {
+        // Agreement doesn't exist anymore — clean up and recreate
+        logger.info('Agreement no longer exists, will recreate', {
+          agreementUid: claRecord.concord_agreement_uid,
+          provider: provider.name,
+        });
+      }
+    }
+
+    // Clean up old records if any
+    if (claRecord) {
+      db.deleteCLAByGitHubUserId(userId);
+    }
+
+    // Previous signed version replaced by the new agreement
+    const previousVersion = claRecord?.signed_at && ['signed', 'superseded'].includes(claRecord.status)
+      ? claRecord.cla_version
+      : claRecord?.previous_cla_version;
+
+    if (!userEmail) {
+      // The new agreement is created once the contributor chose an email on the signing page
+      db.requestCLASignature({
+        github_username: username,
+        github_user_id: userId,
+        cla_version: claService.getAgreementTemplate(repoConfig).version,
+        previous_cla_version: previousVersion,
+        signature_source: provider.name,
+      }, config.cla.creationClaimTimeoutSeconds);
+      db.createPRRecord({
+        repo_full_name: repoFullName,
+        pr_number: pr.number,
+        github_username: username,
+        github_user_id: userId,
+      });
+      return `@${username} can sign the CLA with the link in this comment, choosing the email to sign with`;
+    }
+
+    if (!db.claimCLACreation(username, userId, userEmail, config.cla.creationClaimTimeoutSeconds)) {
+      return `A CLA agreement for @${username} is already being created, nothing resent`;
+    }
+
+    // Create a fresh agreement
+    const template = claService.getAgreementTemplate(repoConfig);
+    try {
+      const agreementResult = await provider.createAgreement(
+        claService.buildSignatureRequest(repoConfig, repoFullName, signer, userEmail, template)
+      );
+
+      // Save new CLA record, remembering the signed version it replaces
+      db.createCLARecord({
+        github_username: username,
+        github_user_id: userId,
+        github_email: userEmail,
+        concord_agreement_uid: agreementResult.agreementUid,
+        status: 'pending',
+        cla_version: template.version,
+        previous_cla_version: previousVersion,
+        signature_source: provider.name,
+      });
+
+      // Link the PR to the new agreement
+      db.createPRRecord({
+        repo_full_name: repoFullName,
+        pr_number: pr.number,
+        github_username: username,
+        github_user_id: userId,
+        concord_agreement_uid: agreementResult.agreementUid,
+      });
+
+      logger.info('New CLA agreement created via resend command', {
+        username,
+        agreementUid: agreementResult.agreementUid,
+      });
+
+      if (supersededCLA) {
+        await claService.cancelAgreement(supersededCLA, 'superseded', `@${requestedBy}`, agreementResult.agreementUid);
+      }
+
+      return `New CLA agreement created and sent to @${username}`;
+    } catch (error) {
+      logger.error('Failed to create new CLA agreement via resend', {
+        error: serializeError(error),
+        username,
+      });
+
+      db.releaseCLACreationClaim(userId);
+
+      // The record of the superseded agreement was deleted: it would never be found again
+      if (supersededCLA) {
+        await claService.cancelAgreement(supersededCLA, 'superseded', `@${requestedBy}`);
+      }
+
+      return `A new CLA agreement could not be created for @${username}, please contact the maintainers`;
+    }
+  });
+}
+
+/**
+ * Whether a user may override the CLA on a repository: write access or above
+ */
+export async function isMaintainer(octokit: Octokit, owner: string, repo: string, username: string): Promise<boolean> {
+  const permission = await githubService.getRepoPermission(octokit, owner, repo, username);
+  return permission === 'admin' || permission === 'write';
+}
+
+/**
+ * Exempt a contributor from the CLA on a single PR, then re-evaluate it: once
+ * every other contributor is covered the PR is marked as satisfied.
+ * Returns false if the contributor was already exempted.
+ */
+export async function exemptUserOnPullRequest(
+  installationId: number,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  username: string,
+  actor: string
+): Promise<boolean> {
+  const repoFullName = `${owner}/${repo}`;
+  if (!db.addPRExemption(repoFullName, prNumber, username, actor)) {
+    return false;
+  }
+
+  db.addAuditEntry(actor, 'exempt', `pr:${repoFullName}#${prNumber}`, { username });
+  db.addPRHistoryEntry(repoFullName, prNumber, `@${username} exempted from the CLA by ${actor}`);
+  logger.info('Contributor exempted on pull request', { repoFullName, prNumber, username, actor });
+
+  const octokit = await githubService.getInstallationOctokit(installationId);
+  const pr = await githubService.getPullRequest(octokit, owner, repo, prNumber);
+  await claService.evaluatePullRequest(octokit, installationId, owner, repo, pr);
+  return true;
+}
+
+/**
+ * Let a PR through without every contributor having signed: the override is
+ * recorded, audited and shown in the bot comment, and the check stays green on
+ * later pushes.
+ * `actor` is "@login" or "admin-token".
+ */
+export async function overridePullRequest(
+  installationId: number,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  actor: string,
+  reason: string
+): Promise<PROverrideRecord> {
+  const repoFullName = `${owner}/${repo}`;
+  const override = db.setPROverride(repoFullName, prNumber, actor, reason);
+
+  db.addAuditEntry(actor, 'override', `pr:${repoFullName}#${prNumber}`, { reason });
+  db.addPRHistoryEntry(repoFullName, prNumber, `CLA overridden by ${actor}: ${reason.replace(/\s+/g, ' ')}`);
+  logger.info('CLA overridden', { repoFullName, prNumber, actor, reason });
+
+  const octokit = await githubService.getInstallationOctokit(installationId);
+  const pr = await githubService.getPullRequest(octokit, owner, repo, prNumber);
+  await claService.evaluatePullRequest(octokit, installationId, owner, repo, pr);
+
+  return override;
+}
@@ -1,6 +1,7 @@
 import { config } from '../config';
 import { logger, serializeError } from '../utils/logger';
-import { ConcordAgreement, CreateAgreementResult } from '../types';
+import { ConcordAgreement, CreateAgreementResult, EmailMessage } from '../types';
+import * as metricsService from './metrics';
 
 const API_BASE = config.concord.apiUrl;
 const ORG_ID = config.concord.organizationId;
@@ -36,6 +37,7 @@ async function concordFetch<T>(
       headers,
     });
   } catch (fetchError) {
+    metricsService.recordConcordRequest(options.method || 'GET', endpoint, 'error');
     logger.error('Concord API fetch failed (network error)', {
       url,
       method: options.method || 'GET',
@@ -44,6 +46,8 @@ async function concordFetch<T>(
     throw fetchError;
   }
 
+  metricsService.recordConcordRequest(options.method || 'GET', endpoint, response.status);
+
   logger.debug('Concord API response', {
     status: response.status,
     statusText: response.statusText,
@@ -112,6 +116,13 @@ export async function listAutomatedTemplates(): Promise<Array<{ uid: string; tit
   }
 }
 
+/**
+ * Title of a contributor's agreement, which `findExistingCLA` searches by
+ */
+function agreementTitle(githubUsername: string): string {
+  return `${config.cla.organizationName} CLA - ${githubUsername}`;
+}
+
 /**
  * Create a new agreement from the CLA template and invite the contributor to sign
  * 
@@ -123,9 +134,9 @@ export async function createAgreementFromTemplate(
   contributorEmail: string,
   contributorName: string,
   githubUsername: string,
+  message: EmailMessage,
+  templateId: string = config.concord.templateId,
 ): Promise<CreateAgreementResult> {
-  const templateId = config.concord.templateId;
-  
   logger.info('Creating agreement from automated template', {
     templateId,
     contributorEmail,
@@ -139,7 +150,7 @@ export async function createAgreementFromTemplate(
     {
       method: 'POST',
       body: JSON.stringify({
-        title: `Filigran CLA - ${githubUsername}`,
+        title: agreementTitle(githubUsername),
         description: `Contributor License Agreement for GitHub user @${githubUsername}`,
         tags: ['CLA', 'GitHub'],
         signatureRequired: 1,
@@ -154,17 +165,8 @@ export async function createAgreementFromTemplate(
           [contributorEmail]: 'NO_EDIT',
         },
         sendWithDocument: true,
-        customMessageTitle: 'Filigran Contributor License Agreement',
-        customMessageContent: `Hello ${contributorName || githubUsername},
-
-Thank you for your contribution to Filigran's open source projects!
-
-Before we can merge your pull request, we need you to sign the Contributor License Agreement (CLA). This is a one-time process that covers all future contributions.
-
-Please review and sign the CLA using the link below.
-
-Best regards,
-The Filigran Team`,
+        customMessageTitle: message.subject,
+        customMessageContent: message.content,
       }),
     }
   );
@@ -182,14 +184,67 @@ The Filigran Team`,
   };
 }
 
+/**
+ * Create a corporate CLA (CCLA) from its automated template and invite the
+ * company's authorized signatory to sign
+ */
+export async function createCorporateAgreement(
+  signerEmail: string,
+  signerName: string,
+  companyName: string | undefined,
+  message: EmailMessage,
+  templateId: string = config.concord.corporateTemplateId,
+): Promise<CreateAgreementResult> {
+  const company = companyName || signerEmail.split('@')[1];
+
+  logger.info('Creating corporate agreement from automated template', {
+    templateId,
+    signerEmail,
+    company,
+  });
+
+  const createResponse = await concordFetch<{ uid: string; status: string }>(
+    `/organizations/${ORG_ID}/auto/${templateId}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        title: `${config.cla.organizationName} Corporate CLA - ${company}`,
+        description: `Corporate Contributor License Agreement for ${company}`,
+        tags: ['CLA', 'CCLA', 'GitHub'],
+        signatureRequired: 1,
+        variables: {
+          company_name: companyName || '',
+          signer_name: signerName,
+          signer_email: signerEmail,
+          date: new Date().toISOString().split('T')[0],
+        },
+        inviteNowEmails: {
+          [signerEmail]: 'NO_EDIT',
+        },
+        sendWithDocument: true,
+        customMessageTitle: message.subject,
+        customMessageContent: message.content,
+      }),
+    }
+  );
+
+  logger.info('Corporate agreement created from automated template', {
+    agreementUid: createResponse.uid,
+    status: createResponse.status,
+  });
+
+  return {
+    agreementUid: createResponse.uid,
+  };
+}
+
 /**
  * Invite a member to the agreement
  */
 async function inviteMemberToSign(
   agreementUid: string,
   email: string,
-  name: string,
-  githubUsername: string
+  message: EmailMessage
 ): Promise<void> {
   logger.info('Inviting member to agreement', { agreementUid, email });
 
@@ -203,19 +258,7 @@ async function inviteMemberToSign(
             permission: 'NO_EDIT',
           },
         },
-        message: {
-          subject: 'Filigran Contributor License Agreement',
-          content: `Hello ${name || githubUsername},
-
-Thank you for your contribution to Filigran's open source projects!
-
-Before we can merge your pull request, we need you to sign the Contributor License Agreement (CLA). This is a one-time process that covers all future contributions.
-
-Please click below to review and sign the CLA.
-
-Best regards,
-The Filigran Team`,
-        },
+        message,
         sendWithDocument: true,
       }),
     }
@@ -271,11 +314,26 @@ export async function createSharedLink(agreementUid: string): Promise<string> {
 export async function resendCLAInvitation(
   agreementUid: string,
   email: string,
-  name: string,
-  githubUsername: string
+  githubUsername: string,
+  message: EmailMessage
 ): Promise<void> {
   logger.info('Resending CLA invitation', { agreementUid, email, githubUsername });
-  await inviteMemberToSign(agreementUid, email, name, githubUsername);
+  await inviteMemberToSign(agreementUid, email, message);
+}
+
+/**
+ * Delete a pending agreement, which withdraws its signature request. Signed
+ * agreements are never deleted.
+ */
+export async function cancelAgreement(agreementUid: string): Promise<void> {
+  const agreement = await getAgreement(agreementUid);
+  if (agreement.status === 'CURRENT_CONTRACT') {
+    throw new Error(`Agreement ${agreementUid} is signed and cannot be cancelled`);
+  }
+
+  await concordFetch(`/organizations/${ORG_ID}/agreements/${agreementUid}`, { method: 'DELETE' });
+
+  logger.info('Agreement cancelled', { agreementUid, status: agreement.status });
 }
 
 /**
@@ -317,10 +375,35 @@ export async function getSignatureStatus(agreementUid: string): Promise<{
   return response;
 }
 
+/**
+ * Confirm with Concord that an agreement really is signed.
+ * Webhook payloads are never trusted on their own to mark a CLA as signed.
+ */
+export async function verifyAgreementSigned(agreementUid: string): Promise<boolean> {
+  const agreement = await getAgreement(agreementUid);
+  if (agreement.status === 'CURRENT_CONTRACT') {
+    return true;
+  }
+
+  const signature = await getSignatureStatus(agreementUid);
+  const signed = signature.signatureCount >= Math.max(1, signature.signatureRequired);
+
+  logger.debug('Verified agreement signature status', {
+    agreementUid,
+    agreementStatus: agreement.status,
+    signatureCount: signature.signatureCount,
+    signatureRequired: signature.signatureRequired,
+    signed,
+  });
+
+  return signed;
+}
+
 /**
  * Search for an existing CLA agreement in Concord by GitHub username.
- * Agreements are titled "Filigran CLA - {username}", so a search by
+ * Agreements are titled "{organization} CLA - {username}", so a search by
  * username is the most reliable deduplication key (emails can change).
+ * Agreements sent before a change of CLA_ORGANIZATION_NAME are not found.
  */
 export async function findExistingCLA(githubUsername: string): Promise<ConcordAgreement | null> {
   try {
@@ -333,13 +416,13 @@ export async function findExistingCLA(githubUsername: string): Promise<ConcordAg
       }>;
       total: number;
     }>(
-      `/user/me/organizations/${ORG_ID}/agreements?statuses=CURRENT_CONTRACT,UNKNOWN_CONTRACT&search=${encodeURIComponent(`Filigran CLA - ${githubUsername}`)}`
+      `/user/me/organizations/${ORG_ID}/agreements?statuses=CURRENT_CONTRACT,UNKNOWN_CONTRACT&search=${encodeURIComponent(agreementTitle(githubUsername))}`
     );
 
     if (response.items && response.items.length > 0) {
       // Match on exact title to avoid partial-username collisions
       const exactMatch = response.items.find(
-        (item) => item.title === `Filigran CLA - ${githubUsername}`
+        (item) => item.title === agreementTitle(githubUsername)
       );
       if (exactMatch) {
         return {
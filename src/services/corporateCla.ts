@@ -0,0 +1,170 @@
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { CorporateCLAMemberType, CorporateCLARecord, PRRecord } from '../types';
+import * as concordService from './concord';
+import * as claService from './cla';
+import * as templateService from './templates';
+import * as db from './database';
+
+const GITHUB_USERNAME_PATTERN = /^[a-z\d](?:[a-z\d-]{0,38})$/;
+const DOMAIN_PATTERN = /^[a-z\d-]+(?:\.[a-z\d-]+)+$/;
+
+/**
+ * Normalize a GitHub username ("@" prefix allowed) or email domain ("@" prefix
+ * allowed) for a corporate CLA allowlist. Returns null if it is not valid.
+ */
+export function normalizeMemberValue(memberType: CorporateCLAMemberType, value: string): string | null {
+  const normalized = value.trim().replace(/^@/, '').toLowerCase();
+  const pattern = memberType === 'user' ? GITHUB_USERNAME_PATTERN : DOMAIN_PATTERN;
+  return pattern.test(normalized) ? normalized : null;
+}
+
+/**
+ * Create a corporate CLA in Concord and send it to the company's signatory
+ */
+export async function requestCorporateCLA(
+  signerEmail: string,
+  signerName: string,
+  companyName?: string
+): Promise<CorporateCLARecord> {
+  if (!config.concord.corporateTemplateId) {
+    throw new Error('Corporate CLAs are not enabled (CONCORD_CCLA_TEMPLATE_ID is not set)');
+  }
+
+  const { agreementUid } = await concordService.createCorporateAgreement(
+    signerEmail,
+    signerName,
+    companyName,
+    templateService.renderCorporateInvitationEmail({
+      signerName,
+      signerEmail,
+      company: companyName || signerEmail.split('@')[1],
+    })
+  );
+
+  const record = db.createCorporateCLA({
+    company_name: companyName,
+    concord_agreement_uid: agreementUid,
+    signer_email: signerEmail,
+    signer_name: signerName,
+  });
+
+  logger.info('Corporate CLA requested', { id: record.id, company: companyName, signerEmail, agreementUid });
+  return record;
+}
+
+/**
+ * Re-evaluate every open PR of the given records once, returning how many were updated
+ */
+async function updatePRs(prRecords: PRRecord[], reason: string): Promise<number> {
+  const seen = new Set<string>();
+  let updated = 0;
+
+  for (const prRecord of prRecords) {
+    const key = `${prRecord.repo_full_name}#${prRecord.pr_number}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    try {
+      await claService.updatePRAfterCLAChange(prRecord, prRecord.github_username);
+      updated++;
+    } catch (error) {
+      logger.error('Failed to update PR after corporate CLA change', {
+        repoFullName: prRecord.repo_full_name,
+        prNumber: prRecord.pr_number,
+        reason,
+        error: serializeError(error),
+      });
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Open PRs of everyone on the allowlist of a corporate CLA
+ */
+function findOpenPRRecordsOfMembers(corporateCLAId: number): PRRecord[] {
+  return db.listCorporateCLAMembers(corporateCLAId)
+    .flatMap((member) => db.findOpenPRRecordsByCorporateCLAMember(member.member_type, member.value));
+}
+
+/**
+ * Add a GitHub user or email domain to a corporate CLA and unblock their open PRs.
+ * Returns false if it was already listed.
+ */
+export async function addMember(
+  corporateCLA: CorporateCLARecord,
+  memberType: CorporateCLAMemberType,
+  value: string,
+  addedBy?: string
+): Promise<boolean> {
+  if (!db.addCorporateCLAMember(corporateCLA.id!, memberType, value, addedBy)) {
+    return false;
+  }
+
+  logger.info('Corporate CLA member added', { id: corporateCLA.id, memberType, value, addedBy });
+
+  if (corporateCLA.status === 'signed') {
+    await updatePRs(db.findOpenPRRecordsByCorporateCLAMember(memberType, value), 'member added');
+  }
+  return true;
+}
+
+/**
+ * Remove a GitHub user or email domain from a corporate CLA and re-evaluate the
+ * PRs it covered. Returns false if it was not listed.
+ */
+export async function removeMember(
+  corporateCLA: CorporateCLARecord,
+  memberType: CorporateCLAMemberType,
+  value: string
+): Promise<boolean> {
+  if (!db.removeCorporateCLAMember(corporateCLA.id!, memberType, value)) {
+    return false;
+  }
+
+  logger.info('Corporate CLA member removed', { id: corporateCLA.id, memberType, value });
+
+  await updatePRs(db.findOpenPRRecordsByCorporateCLA(corporateCLA.id!), 'member removed');
+  return true;
+}
+
+/**
+ * Mark a corporate CLA as signed and unblock the open PRs of its members.
+ * The signer's Concord organization names the company if it was not given.
+ */
+export async function handleCorporateCLASigned(
+  corporateCLA: CorporateCLARecord,
+  organizationName?: string
+): Promise<void> {
+  db.updateCorporateCLAStatus(corporateCLA.id!, 'signed', new Date().toISOString(), organizationName);
+
+  const updated = db.findCorporateCLAById(corporateCLA.id!)!;
+  logger.info('Corporate CLA marked as signed', {
+    id: corporateCLA.id,
+    company: claService.getCompanyName(updated),
+    agreementUid: corporateCLA.concord_agreement_uid,
+  });
+
+  await updatePRs(findOpenPRRecordsOfMembers(corporateCLA.id!), 'corporate CLA signed');
+}
+
+/**
+ * Mark a corporate CLA as cancelled or expired and block the PRs it covered again
+ */
+export async function handleCorporateCLARevoked(
+  corporateCLA: CorporateCLARecord,
+  status: 'cancelled' | 'expired'
+): Promise<void> {
+  db.updateCorporateCLAStatus(corporateCLA.id!, status);
+
+  logger.info('Corporate CLA marked as revoked', {
+    id: corporateCLA.id,
+    company: claService.getCompanyName(corporateCLA),
+    agreementUid: corporateCLA.concord_agreement_uid,
+    status,
+  });
+
+  await updatePRs(db.findOpenPRRecordsByCorporateCLA(corporateCLA.id!), `corporate CLA ${status}`);
+}
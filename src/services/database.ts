@@ -2,7 +2,31 @@ import { DatabaseSync, StatementSync } from 'node:sqlite';
 import path from 'path';
 import fs from 'fs';
 import { config } from '../config';
-import { CLARecord, CLAStatus, PRRecord } from '../types';
+import {
+  AuditLogRecord,
+  CLARecord,
+  CLAReminderRecord,
+  CLAStatus,
+  CLAVersionRecord,
+  CorporateCLAMemberRecord,
+  CorporateCLAMemberType,
+  CorporateCLARecord,
+  ExpiringPRRecord,
+  PendingCLAFunnel,
+  PendingCLAReminder,
+  PRExemptionRecord,
+  PRExpirationRecord,
+  PRHistoryRecord,
+  PROverrideRecord,
+  PRRecord,
+  PRState,
+  ReconciliationRunRecord,
+  RepoInstallationRecord,
+  SignatureEvidenceRecord,
+  WebhookEventRecord,
+  WebhookEventStatus,
+  WebhookSource,
+} from '../types';
 import { logger } from '../utils/logger';
 
 let db: DatabaseSync;
@@ -29,31 +53,259 @@ export function initDatabase(): void {
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now')),
       status TEXT NOT NULL DEFAULT 'pending',
+      cla_version TEXT,
+      previous_cla_version TEXT,
+      signature_source TEXT NOT NULL DEFAULT 'concord',
+      signature_reference TEXT,
+      signature_document TEXT,
       UNIQUE(github_user_id)
     );
 
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      actor TEXT NOT NULL,
+      action TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      details TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS pr_overrides (
+      repo_full_name TEXT NOT NULL,
+      pr_number INTEGER NOT NULL,
+      actor TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY(repo_full_name, pr_number)
+    );
+
+    CREATE TABLE IF NOT EXISTS pr_exemptions (
+      repo_full_name TEXT NOT NULL,
+      pr_number INTEGER NOT NULL,
+      github_username TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY(repo_full_name, pr_number, github_username)
+    );
+
+    CREATE TABLE IF NOT EXISTS pr_comment_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      repo_full_name TEXT NOT NULL,
+      pr_number INTEGER NOT NULL,
+      message TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS signature_evidence (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agreement_uid TEXT NOT NULL UNIQUE,
+      github_username TEXT NOT NULL,
+      github_user_id INTEGER NOT NULL,
+      cla_version TEXT,
+      method TEXT NOT NULL,
+      text_hash TEXT NOT NULL,
+      ip_address TEXT,
+      user_agent TEXT,
+      source_url TEXT,
+      signed_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS cla_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      version TEXT NOT NULL UNIQUE,
+      template_id TEXT NOT NULL,
+      effective_date TEXT NOT NULL,
+      resign_policy TEXT NOT NULL DEFAULT 'keep',
+      notes TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
     CREATE TABLE IF NOT EXISTS pr_records (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       repo_full_name TEXT NOT NULL,
       pr_number INTEGER NOT NULL,
       github_username TEXT NOT NULL,
       github_user_id INTEGER NOT NULL,
+      installation_id INTEGER,
+      corporate_cla_id INTEGER,
       comment_id INTEGER,
       concord_agreement_uid TEXT,
+      pr_state TEXT NOT NULL DEFAULT 'open',
+      closed_at TEXT,
+      merged_at TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now')),
       UNIQUE(repo_full_name, pr_number, github_user_id)
     );
 
+    CREATE TABLE IF NOT EXISTS corporate_clas (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      company_name TEXT,
+      concord_agreement_uid TEXT NOT NULL UNIQUE,
+      signer_email TEXT NOT NULL,
+      signer_name TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      signed_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS corporate_cla_members (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      corporate_cla_id INTEGER NOT NULL,
+      member_type TEXT NOT NULL,
+      value TEXT NOT NULL,
+      added_by TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(corporate_cla_id, member_type, value)
+    );
+
+    CREATE TABLE IF NOT EXISTS repo_installations (
+      repo_full_name TEXT PRIMARY KEY COLLATE NOCASE,
+      installation_id INTEGER NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      delivery_id TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL DEFAULT (datetime('now')),
+      last_error TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(source, delivery_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS reconciliation_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      triggered_by TEXT NOT NULL,
+      actor TEXT,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      drift_found INTEGER NOT NULL DEFAULT 0,
+      drift_fixed INTEGER NOT NULL DEFAULT 0,
+      api_calls INTEGER NOT NULL DEFAULT 0,
+      report TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS pr_expirations (
+      repo_full_name TEXT NOT NULL,
+      pr_number INTEGER NOT NULL,
+      warned_at TEXT,
+      closed_at TEXT,
+      PRIMARY KEY(repo_full_name, pr_number)
+    );
+
+    CREATE TABLE IF NOT EXISTS cla_reminders (
+      agreement_uid TEXT NOT NULL,
+      github_user_id INTEGER NOT NULL,
+      days INTEGER NOT NULL,
+      sent_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY(agreement_uid, days)
+    );
+
     CREATE INDEX IF NOT EXISTS idx_cla_github_user_id ON cla_records(github_user_id);
     CREATE INDEX IF NOT EXISTS idx_cla_github_username ON cla_records(github_username);
     CREATE INDEX IF NOT EXISTS idx_cla_agreement_uid ON cla_records(concord_agreement_uid);
     CREATE INDEX IF NOT EXISTS idx_pr_agreement_uid ON pr_records(concord_agreement_uid);
+    CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_repo_installations_installation_id ON repo_installations(installation_id);
+    CREATE INDEX IF NOT EXISTS idx_corporate_cla_members_value ON corporate_cla_members(member_type, value);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_subject ON audit_log(subject);
+    CREATE INDEX IF NOT EXISTS idx_pr_comment_history_pr ON pr_comment_history(repo_full_name, pr_number);
+    CREATE INDEX IF NOT EXISTS idx_signature_evidence_user_id ON signature_evidence(github_user_id);
+  `);
+
+  migrateDatabase();
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_pr_user_state ON pr_records(github_user_id, pr_state);
   `);
 
   logger.info('Database initialized', { path: config.database.path });
 }
 
+function hasColumn(table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Bring databases created by earlier versions up to the current schema
+ */
+function migrateDatabase(): void {
+  if (!hasColumn('pr_records', 'installation_id')) {
+    db.exec('ALTER TABLE pr_records ADD COLUMN installation_id INTEGER');
+    logger.info('Added installation_id to pr_records');
+  }
+
+  if (!hasColumn('pr_records', 'pr_state')) {
+    // Existing rows are assumed open; closed PRs are detected on their next update
+    db.exec(`
+      ALTER TABLE pr_records ADD COLUMN pr_state TEXT NOT NULL DEFAULT 'open';
+      ALTER TABLE pr_records ADD COLUMN closed_at TEXT;
+      ALTER TABLE pr_records ADD COLUMN merged_at TEXT;
+    `);
+    logger.info('Added PR state tracking to pr_records');
+  }
+
+  if (!hasColumn('pr_records', 'corporate_cla_id')) {
+    db.exec('ALTER TABLE pr_records ADD COLUMN corporate_cla_id INTEGER');
+    logger.info('Added corporate_cla_id to pr_records');
+  }
+
+  if (!hasColumn('cla_records', 'cla_version')) {
+    db.exec(`
+      ALTER TABLE cla_records ADD COLUMN cla_version TEXT;
+      ALTER TABLE cla_records ADD COLUMN previous_cla_version TEXT;
+    `);
+    logger.info('Added cla_version to cla_records');
+  }
+
+  if (!hasColumn('cla_records', 'signature_source')) {
+    db.exec(`
+      ALTER TABLE cla_records ADD COLUMN signature_source TEXT NOT NULL DEFAULT 'concord';
+      ALTER TABLE cla_records ADD COLUMN signature_reference TEXT;
+      ALTER TABLE cla_records ADD COLUMN signature_document TEXT;
+    `);
+    logger.info('Added manual signature columns to cla_records');
+  }
+
+  // The template configured before versions existed becomes the first version,
+  // which every existing agreement was created for
+  const versionCount = db.prepare('SELECT COUNT(*) AS count FROM cla_versions').get() as { count: number };
+  if (versionCount.count === 0 && config.concord.templateId) {
+    db.prepare(`
+      INSERT INTO cla_versions (version, template_id, effective_date, resign_policy, notes)
+      VALUES (?, ?, '1970-01-01T00:00:00.000Z', 'keep', NULL)
+    `).run(config.cla.initialVersion, config.concord.templateId);
+
+    const result = db.prepare('UPDATE cla_records SET cla_version = ? WHERE cla_version IS NULL')
+      .run(config.cla.initialVersion);
+    logger.info('Registered initial CLA version', {
+      version: config.cla.initialVersion,
+      templateId: config.concord.templateId,
+      claRecords: Number(result.changes),
+    });
+  }
+
+  // Rows created before the installation was stored get it from the repository map
+  // when known; the others are resolved on their next update
+  db.exec(`
+    UPDATE pr_records
+    SET installation_id = (
+      SELECT installation_id FROM repo_installations
+      WHERE repo_installations.repo_full_name = pr_records.repo_full_name
+    )
+    WHERE installation_id IS NULL
+  `);
+}
+
 export function getDatabase(): DatabaseSync {
   if (!db) {
     throw new Error('Database not initialized. Call initDatabase() first.');
@@ -85,11 +337,25 @@ export function findCLAByAgreementUid(agreementUid: string): CLARecord | undefin
 
 export function createCLARecord(record: Omit<CLARecord, 'id' | 'created_at' | 'updated_at'>): CLARecord {
   const stmt = db.prepare(`
-    INSERT INTO cla_records (github_username, github_user_id, github_email, concord_agreement_uid, status)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO cla_records (
+      github_username, github_user_id, github_email, concord_agreement_uid, status, signed_at,
+      cla_version, previous_cla_version, signature_source, signature_reference, signature_document
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(github_user_id) DO UPDATE SET
       concord_agreement_uid = excluded.concord_agreement_uid,
       status = excluded.status,
+      signed_at = excluded.signed_at,
+      cla_version = excluded.cla_version,
+      previous_cla_version = excluded.previous_cla_version,
+      signature_source = excluded.signature_source,
+      signature_reference = excluded.signature_reference,
+      signature_document = excluded.signature_document,
+      -- When the current agreement was sent, which reminders are scheduled from
+      created_at = CASE
+        WHEN cla_records.concord_agreement_uid = excluded.concord_agreement_uid THEN cla_records.created_at
+        ELSE datetime('now')
+      END,
       updated_at = datetime('now')
   `);
   
@@ -98,12 +364,194 @@ export function createCLARecord(record: Omit<CLARecord, 'id' | 'created_at' | 'u
     record.github_user_id,
     record.github_email || null,
     record.concord_agreement_uid,
-    record.status
+    record.status,
+    record.signed_at || null,
+    record.cla_version || null,
+    record.previous_cla_version || null,
+    record.signature_source || 'concord',
+    record.signature_reference || null,
+    record.signature_document || null
   );
 
   return findCLAByGitHubUserId(record.github_user_id)!;
 }
 
+/**
+ * Claim the creation of a contributor's agreement with a 'creating' row, so that
+ * only one agreement is ever created per contributor. Fails if the contributor
+ * already has a pending or signed CLA, or if another live claim exists.
+ * Returns true if the caller holds the claim.
+ */
+export function claimCLACreation(
+  githubUsername: string,
+  githubUserId: number,
+  githubEmail: string,
+  staleAfterSeconds: number
+): boolean {
+  const stmt = db.prepare(`
+    INSERT INTO cla_records (github_username, github_user_id, github_email, concord_agreement_uid, status)
+    VALUES (?, ?, ?, '', 'creating')
+    ON CONFLICT(github_user_id) DO UPDATE SET
+      github_username = excluded.github_username,
+      github_email = excluded.github_email,
+      concord_agreement_uid = '',
+      status = 'creating',
+      signed_at = NULL,
+      updated_at = datetime('now')
+    WHERE cla_records.status NOT IN ('pending', 'signed', 'creating')
+      OR (cla_records.status = 'creating' AND cla_records.updated_at < datetime('now', ?))
+  `);
+  const result = stmt.run(githubUsername, githubUserId, githubEmail, `-${staleAfterSeconds} seconds`);
+  return Number(result.changes) > 0;
+}
+
+/**
+ * Drop a 'creating' claim after the agreement could not be created
+ */
+export function releaseCLACreationClaim(githubUserId: number): void {
+  const stmt = db.prepare(`
+    DELETE FROM cla_records WHERE github_user_id = ? AND status = 'creating'
+  `);
+  stmt.run(githubUserId);
+}
+
+/**
+ * Pending CLAs of a provider with an agreement to check, the most recent first
+ */
+export function findPendingCLAsWithAgreement(signatureSource: CLARecord['signature_source']): CLARecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM cla_records
+    WHERE status = 'pending' AND signature_source = ? AND concord_agreement_uid != ''
+    ORDER BY created_at DESC
+  `);
+  return stmt.all(signatureSource ?? 'concord') as unknown as CLARecord[];
+}
+
+/**
+ * Pending CLAs of a provider with an agreement, with the age of the agreement in
+ * days and the last reminder sent for it, the oldest first
+ */
+export function findPendingCLAReminders(signatureSource: CLARecord['signature_source']): PendingCLAReminder[] {
+  const stmt = db.prepare(`
+    SELECT
+      cla_records.*,
+      julianday('now') - julianday(cla_records.created_at) AS age_days,
+      (
+        SELECT MAX(days) FROM cla_reminders
+        WHERE cla_reminders.agreement_uid = cla_records.concord_agreement_uid
+      ) AS last_reminder_days
+    FROM cla_records
+    WHERE status = 'pending' AND signature_source = ? AND concord_agreement_uid != ''
+    ORDER BY created_at
+  `);
+  return stmt.all(signatureSource ?? 'concord') as unknown as PendingCLAReminder[];
+}
+
+/**
+ * Pending agreements created more than `days` ago whose contributor has no open
+ * PR left, oldest first
+ */
+export function findAbandonedAgreements(signatureSource: CLARecord['signature_source'], days: number): CLARecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM cla_records
+    WHERE status = 'pending' AND signature_source = ? AND concord_agreement_uid != ''
+      AND created_at < datetime('now', ?)
+      AND NOT EXISTS (
+        SELECT 1 FROM pr_records
+        WHERE pr_records.github_user_id = cla_records.github_user_id AND pr_records.pr_state = 'open'
+      )
+    ORDER BY created_at
+  `);
+  return stmt.all(signatureSource ?? 'concord', `-${days} days`) as unknown as CLARecord[];
+}
+
+/**
+ * Record a reminder before it is sent, so it is sent once even across restarts.
+ * Returns false if it was already sent.
+ */
+export function claimCLAReminder(reminder: Omit<CLAReminderRecord, 'sent_at'>): boolean {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO cla_reminders (agreement_uid, github_user_id, days)
+    VALUES (?, ?, ?)
+  `);
+  return Number(stmt.run(reminder.agreement_uid, reminder.github_user_id, reminder.days).changes) > 0;
+}
+
+/**
+ * Forget a reminder that could not be sent, so that it is tried again
+ */
+export function releaseCLAReminder(agreementUid: string, days: number): void {
+  const stmt = db.prepare(`
+    DELETE FROM cla_reminders WHERE agreement_uid = ? AND days = ?
+  `);
+  stmt.run(agreementUid, days);
+}
+
+/**
+ * Ask a contributor to sign on the signing page: a pending row without
+ * agreement, which is created once they chose their email. Fails like
+ * claimCLACreation if the contributor already has a pending or signed CLA.
+ */
+export function requestCLASignature(
+  record: Pick<CLARecord, 'github_username' | 'github_user_id' | 'cla_version' | 'previous_cla_version' | 'signature_source'>,
+  staleAfterSeconds: number
+): boolean {
+  const stmt = db.prepare(`
+    INSERT INTO cla_records (github_username, github_user_id, concord_agreement_uid, status, cla_version, previous_cla_version, signature_source)
+    VALUES (?, ?, '', 'pending', ?, ?, ?)
+    ON CONFLICT(github_user_id) DO UPDATE SET
+      github_username = excluded.github_username,
+      github_email = NULL,
+      concord_agreement_uid = '',
+      status = 'pending',
+      signed_at = NULL,
+      cla_version = excluded.cla_version,
+      previous_cla_version = excluded.previous_cla_version,
+      signature_source = excluded.signature_source,
+      signature_reference = NULL,
+      signature_document = NULL,
+      updated_at = datetime('now')
+    WHERE cla_records.status NOT IN ('pending', 'signed', 'creating')
+      OR (cla_records.status = 'creating' AND cla_records.updated_at < datetime('now', ?))
+  `);
+  const result = stmt.run(
+    record.github_username,
+    record.github_user_id,
+    record.cla_version || null,
+    record.previous_cla_version || null,
+    record.signature_source || 'concord',
+    `-${staleAfterSeconds} seconds`
+  );
+  return Number(result.changes) > 0;
+}
+
+/**
+ * Claim the creation of the agreement of a pending CLA, for the email the
+ * contributor chose. Fails if it was signed, replaced or claimed since
+ * `agreementUid` was read. Returns true if the caller holds the claim.
+ */
+export function claimPendingCLACreation(githubUserId: number, agreementUid: string, githubEmail: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE cla_records
+    SET status = 'creating', github_email = ?, updated_at = datetime('now')
+    WHERE github_user_id = ? AND status = 'pending' AND concord_agreement_uid = ?
+  `);
+  return Number(stmt.run(githubEmail, githubUserId, agreementUid).changes) > 0;
+}
+
+/**
+ * Give back a claim from claimPendingCLACreation after the agreement could not
+ * be created, restoring the pending agreement and its email
+ */
+export function releasePendingCLAClaim(githubUserId: number, agreementUid: string, githubEmail: string | undefined): void {
+  const stmt = db.prepare(`
+    UPDATE cla_records
+    SET status = 'pending', concord_agreement_uid = ?, github_email = ?, updated_at = datetime('now')
+    WHERE github_user_id = ? AND status = 'creating'
+  `);
+  stmt.run(agreementUid, githubEmail || null, githubUserId);
+}
+
 export function updateCLAStatus(githubUserId: number, status: CLAStatus, signedAt?: string): void {
   const stmt = db.prepare(`
     UPDATE cla_records
@@ -122,6 +570,101 @@ export function updateCLAStatusByAgreementUid(agreementUid: string, status: CLAS
   stmt.run(status, signedAt || null, agreementUid);
 }
 
+/**
+ * Search CLA records, most recently updated first. `since` and `until` apply to
+ * the signature date, or to the request date of agreements not signed yet;
+ * `repoFullName` keeps contributors with a PR in that repository.
+ */
+export function searchCLARecords(
+  options: {
+    status?: CLAStatus;
+    query?: string;
+    repoFullName?: string;
+    version?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+    offset?: number;
+  } = {}
+): { records: CLARecord[]; total: number } {
+  const where = `
+    WHERE (? IS NULL OR status = ?)
+      AND (? IS NULL OR github_username LIKE ? ESCAPE '\\' OR github_email LIKE ? ESCAPE '\\')
+      AND (? IS NULL OR cla_version = ?)
+      AND (? IS NULL OR julianday(COALESCE(signed_at, created_at)) >= julianday(?))
+      AND (? IS NULL OR julianday(COALESCE(signed_at, created_at)) < julianday(?))
+      AND (? IS NULL OR EXISTS (
+        SELECT 1 FROM pr_records
+        WHERE pr_records.github_user_id = cla_records.github_user_id
+          AND pr_records.repo_full_name = ? COLLATE NOCASE
+      ))
+  `;
+  const status = options.status ?? null;
+  const pattern = options.query ? `%${options.query.replace(/[%_\\]/g, '\\$&')}%` : null;
+  const version = options.version ?? null;
+  const since = options.since ?? null;
+  const until = options.until ?? null;
+  const repo = options.repoFullName ?? null;
+  const params = [status, status, pattern, pattern, pattern, version, version, since, since, until, until, repo, repo];
+
+  const records = db.prepare(`
+    SELECT * FROM cla_records ${where}
+    ORDER BY updated_at DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, options.limit ?? 50, options.offset ?? 0) as unknown as CLARecord[];
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) AS total FROM cla_records ${where}
+  `).get(...params) as { total: number };
+
+  return { records, total };
+}
+
+/**
+ * How many pending CLAs have been waiting for a signature, and for how long
+ */
+export function getPendingCLAFunnel(): PendingCLAFunnel {
+  const stmt = db.prepare(`
+    SELECT
+      COUNT(*) AS total,
+      COALESCE(SUM(age < 1), 0) AS underOneDay,
+      COALESCE(SUM(age >= 1 AND age < 7), 0) AS oneToSevenDays,
+      COALESCE(SUM(age >= 7 AND age < 30), 0) AS sevenToThirtyDays,
+      COALESCE(SUM(age >= 30), 0) AS overThirtyDays,
+      MIN(created_at) AS oldestCreatedAt
+    FROM (
+      SELECT created_at, julianday('now') - julianday(created_at) AS age
+      FROM cla_records WHERE status = 'pending'
+    )
+  `);
+  const funnel = stmt.get() as unknown as PendingCLAFunnel;
+  return { ...funnel, oldestCreatedAt: funnel.oldestCreatedAt ?? undefined };
+}
+
+/**
+ * Number of CLA records in each status
+ */
+export function countCLARecordsByStatus(): Partial<Record<CLAStatus, number>> {
+  const rows = db.prepare(`
+    SELECT status, COUNT(*) AS count FROM cla_records GROUP BY status
+  `).all() as Array<{ status: CLAStatus; count: number }>;
+  return Object.fromEntries(rows.map((r) => [r.status, r.count]));
+}
+
+/**
+ * Seconds between the request and the signature of every signed agreement.
+ * Manual signatures and agreements found already signed are left out.
+ */
+export function listSignatureDelaysSeconds(): number[] {
+  const rows = db.prepare(`
+    SELECT (julianday(signed_at) - julianday(created_at)) * 86400 AS seconds
+    FROM cla_records
+    WHERE status IN ('signed', 'superseded') AND signed_at IS NOT NULL AND signature_source != 'manual'
+      AND julianday(signed_at) >= julianday(created_at)
+  `).all() as Array<{ seconds: number }>;
+  return rows.map((r) => r.seconds);
+}
+
 export function deleteCLAByGitHubUserId(githubUserId: number): void {
   const stmt = db.prepare(`
     DELETE FROM cla_records WHERE github_user_id = ?
@@ -129,6 +672,47 @@ export function deleteCLAByGitHubUserId(githubUserId: number): void {
   stmt.run(githubUserId);
 }
 
+// CLA Version Operations
+
+export function createCLAVersion(record: Omit<CLAVersionRecord, 'id' | 'created_at'>): CLAVersionRecord {
+  const stmt = db.prepare(`
+    INSERT INTO cla_versions (version, template_id, effective_date, resign_policy, notes)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  stmt.run(record.version, record.template_id, record.effective_date, record.resign_policy, record.notes || null);
+  return findCLAVersion(record.version)!;
+}
+
+export function findCLAVersion(version: string): CLAVersionRecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM cla_versions WHERE version = ?
+  `);
+  return stmt.get(version) as CLAVersionRecord | undefined;
+}
+
+/**
+ * Every CLA version, oldest effective date first
+ */
+export function listCLAVersions(): CLAVersionRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM cla_versions ORDER BY julianday(effective_date), id
+  `);
+  return stmt.all() as unknown as CLAVersionRecord[];
+}
+
+/**
+ * The CLA version in effect at a date (now by default)
+ */
+export function findCLAVersionAt(date: string = new Date().toISOString()): CLAVersionRecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM cla_versions
+    WHERE julianday(effective_date) <= julianday(?)
+    ORDER BY julianday(effective_date) DESC, id DESC
+    LIMIT 1
+  `);
+  return stmt.get(date) as CLAVersionRecord | undefined;
+}
+
 // PR Record Operations
 export function findPRRecord(repoFullName: string, prNumber: number, githubUserId: number): PRRecord | undefined {
   const stmt = db.prepare(`
@@ -138,6 +722,13 @@ export function findPRRecord(repoFullName: string, prNumber: number, githubUserI
   return stmt.get(repoFullName, prNumber, githubUserId) as PRRecord | undefined;
 }
 
+export function findPRRecordsByPullRequest(repoFullName: string, prNumber: number): PRRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM pr_records WHERE repo_full_name = ? AND pr_number = ?
+  `);
+  return stmt.all(repoFullName, prNumber) as unknown as PRRecord[];
+}
+
 export function findPRRecordsByAgreementUid(agreementUid: string): PRRecord[] {
   const stmt = db.prepare(`
     SELECT * FROM pr_records WHERE concord_agreement_uid = ?
@@ -152,11 +743,77 @@ export function findPRRecordsByGitHubUserId(githubUserId: number): PRRecord[] {
   return stmt.all(githubUserId) as unknown as PRRecord[];
 }
 
+export function findOpenPRRecordsByGitHubUserId(githubUserId: number): PRRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM pr_records WHERE github_user_id = ? AND pr_state = 'open'
+  `);
+  return stmt.all(githubUserId) as unknown as PRRecord[];
+}
+
+/**
+ * One record per open PR, the PRs updated longest ago first
+ */
+export function findOpenPullRequests(): PRRecord[] {
+  const stmt = db.prepare(`
+    SELECT *, MIN(updated_at) AS last_updated_at FROM pr_records
+    WHERE pr_state = 'open'
+    GROUP BY repo_full_name, pr_number
+    ORDER BY last_updated_at
+  `);
+  return stmt.all() as unknown as PRRecord[];
+}
+
+/**
+ * Record that a PR was opened again, closed or merged
+ */
+export function updatePRRecordsState(
+  repoFullName: string,
+  prNumber: number,
+  state: PRState,
+  closedAt?: string,
+  mergedAt?: string
+): void {
+  const stmt = db.prepare(`
+    UPDATE pr_records
+    SET pr_state = ?, closed_at = ?, merged_at = ?, updated_at = datetime('now')
+    WHERE repo_full_name = ? AND pr_number = ?
+  `);
+  stmt.run(state, closedAt || null, mergedAt || null, repoFullName, prNumber);
+}
+
+/**
+ * Merged PR records, for audits. With `unsignedOnly`, only contributors who had
+ * no signed CLA when the PR was merged.
+ */
+export function findMergedPRRecords(
+  options: { repoFullName?: string; unsignedOnly?: boolean; limit?: number } = {}
+): Array<PRRecord & { cla_status: CLAStatus | null; signed_at: string | null }> {
+  const stmt = db.prepare(`
+    SELECT pr_records.*, cla_records.status AS cla_status, cla_records.signed_at
+    FROM pr_records
+    LEFT JOIN cla_records ON cla_records.github_user_id = pr_records.github_user_id
+    WHERE pr_records.pr_state = 'merged'
+      AND (? IS NULL OR pr_records.repo_full_name = ? COLLATE NOCASE)
+      AND (? = 0 OR cla_records.signed_at IS NULL OR julianday(cla_records.signed_at) > julianday(pr_records.merged_at))
+    ORDER BY pr_records.merged_at DESC
+    LIMIT ?
+  `);
+  const repoFullName = options.repoFullName ?? null;
+  return stmt.all(
+    repoFullName,
+    repoFullName,
+    options.unsignedOnly ? 1 : 0,
+    options.limit ?? 100
+  ) as unknown as Array<PRRecord & { cla_status: CLAStatus | null; signed_at: string | null }>;
+}
+
 export function createPRRecord(record: Omit<PRRecord, 'id' | 'created_at' | 'updated_at'>): PRRecord {
   const stmt = db.prepare(`
-    INSERT INTO pr_records (repo_full_name, pr_number, github_username, github_user_id, comment_id, concord_agreement_uid)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO pr_records (repo_full_name, pr_number, github_username, github_user_id, installation_id, corporate_cla_id, comment_id, concord_agreement_uid)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(repo_full_name, pr_number, github_user_id) DO UPDATE SET
+      installation_id = COALESCE(excluded.installation_id, pr_records.installation_id),
+      corporate_cla_id = excluded.corporate_cla_id,
       comment_id = COALESCE(excluded.comment_id, pr_records.comment_id),
       concord_agreement_uid = COALESCE(excluded.concord_agreement_uid, pr_records.concord_agreement_uid),
       updated_at = datetime('now')
@@ -167,6 +824,8 @@ export function createPRRecord(record: Omit<PRRecord, 'id' | 'created_at' | 'upd
     record.pr_number,
     record.github_username,
     record.github_user_id,
+    record.installation_id || null,
+    record.corporate_cla_id || null,
     record.comment_id || null,
     record.concord_agreement_uid || null
   );
@@ -174,13 +833,13 @@ export function createPRRecord(record: Omit<PRRecord, 'id' | 'created_at' | 'upd
   return findPRRecord(record.repo_full_name, record.pr_number, record.github_user_id)!;
 }
 
-export function updatePRRecordCommentId(repoFullName: string, prNumber: number, githubUserId: number, commentId: number): void {
+export function updatePRRecordsCommentId(repoFullName: string, prNumber: number, commentId: number): void {
   const stmt = db.prepare(`
     UPDATE pr_records
     SET comment_id = ?, updated_at = datetime('now')
-    WHERE repo_full_name = ? AND pr_number = ? AND github_user_id = ?
+    WHERE repo_full_name = ? AND pr_number = ?
   `);
-  stmt.run(commentId, repoFullName, prNumber, githubUserId);
+  stmt.run(commentId, repoFullName, prNumber);
 }
 
 export function updatePRRecordAgreementUid(repoFullName: string, prNumber: number, githubUserId: number, agreementUid: string): void {
@@ -192,6 +851,615 @@ export function updatePRRecordAgreementUid(repoFullName: string, prNumber: numbe
   stmt.run(agreementUid, repoFullName, prNumber, githubUserId);
 }
 
+/**
+ * Record the installation of a PR's repository on all of its records
+ */
+export function updatePRRecordsInstallationId(repoFullName: string, prNumber: number, installationId: number): void {
+  const stmt = db.prepare(`
+    UPDATE pr_records
+    SET installation_id = ?, updated_at = datetime('now')
+    WHERE repo_full_name = ? AND pr_number = ? AND installation_id IS NOT ?
+  `);
+  stmt.run(installationId, repoFullName, prNumber, installationId);
+}
+
+/**
+ * Repositories with tracked PRs, for filters
+ */
+export function listPRRepositories(): string[] {
+  const rows = db.prepare(`
+    SELECT DISTINCT repo_full_name FROM pr_records ORDER BY repo_full_name COLLATE NOCASE
+  `).all() as Array<{ repo_full_name: string }>;
+  return rows.map((r) => r.repo_full_name);
+}
+
+// PR Override Operations
+
+export function findPROverride(repoFullName: string, prNumber: number): PROverrideRecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM pr_overrides WHERE repo_full_name = ? COLLATE NOCASE AND pr_number = ?
+  `);
+  return stmt.get(repoFullName, prNumber) as PROverrideRecord | undefined;
+}
+
+/**
+ * Let a PR through without every contributor having signed, replacing any earlier override
+ */
+export function setPROverride(repoFullName: string, prNumber: number, actor: string, reason: string): PROverrideRecord {
+  const stmt = db.prepare(`
+    INSERT INTO pr_overrides (repo_full_name, pr_number, actor, reason)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(repo_full_name, pr_number) DO UPDATE SET
+      actor = excluded.actor,
+      reason = excluded.reason,
+      created_at = datetime('now')
+  `);
+  stmt.run(repoFullName, prNumber, actor, reason);
+  return findPROverride(repoFullName, prNumber)!;
+}
+
+// PR Exemption Operations
+
+export function findPRExemption(repoFullName: string, prNumber: number, githubUsername: string): PRExemptionRecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM pr_exemptions
+    WHERE repo_full_name = ? COLLATE NOCASE AND pr_number = ? AND github_username = ?
+  `);
+  return stmt.get(repoFullName, prNumber, githubUsername.toLowerCase()) as PRExemptionRecord | undefined;
+}
+
+export function listPRExemptions(repoFullName: string, prNumber: number): PRExemptionRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM pr_exemptions
+    WHERE repo_full_name = ? COLLATE NOCASE AND pr_number = ?
+    ORDER BY created_at
+  `);
+  return stmt.all(repoFullName, prNumber) as unknown as PRExemptionRecord[];
+}
+
+/**
+ * Exempt a contributor from the CLA on a single PR. Returns false if they already were.
+ */
+export function addPRExemption(repoFullName: string, prNumber: number, githubUsername: string, actor: string): boolean {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO pr_exemptions (repo_full_name, pr_number, github_username, actor)
+    VALUES (?, ?, ?, ?)
+  `);
+  return Number(stmt.run(repoFullName, prNumber, githubUsername.toLowerCase(), actor).changes) > 0;
+}
+
+/**
+ * One record per open PR, with the days since its first record was created and
+ * since its final warning, the oldest PRs of each repository first
+ */
+export function findExpiringPullRequests(): ExpiringPRRecord[] {
+  const stmt = db.prepare(`
+    SELECT
+      pr_records.*,
+      julianday('now') - julianday(MIN(pr_records.created_at)) AS age_days,
+      julianday('now') - julianday(pr_expirations.warned_at) AS warned_days
+    FROM pr_records
+    LEFT JOIN pr_expirations
+      ON pr_expirations.repo_full_name = pr_records.repo_full_name AND pr_expirations.pr_number = pr_records.pr_number
+    WHERE pr_records.pr_state = 'open'
+    GROUP BY pr_records.repo_full_name, pr_records.pr_number
+    ORDER BY pr_records.repo_full_name, age_days DESC
+  `);
+  return stmt.all() as unknown as ExpiringPRRecord[];
+}
+
+export function findPRExpiration(repoFullName: string, prNumber: number): PRExpirationRecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM pr_expirations WHERE repo_full_name = ? AND pr_number = ?
+  `);
+  return stmt.get(repoFullName, prNumber) as PRExpirationRecord | undefined;
+}
+
+export function markPRExpirationWarned(repoFullName: string, prNumber: number): void {
+  const stmt = db.prepare(`
+    INSERT INTO pr_expirations (repo_full_name, pr_number, warned_at)
+    VALUES (?, ?, datetime('now'))
+    ON CONFLICT(repo_full_name, pr_number) DO UPDATE SET
+      warned_at = excluded.warned_at,
+      closed_at = NULL
+  `);
+  stmt.run(repoFullName, prNumber);
+}
+
+export function markPRExpired(repoFullName: string, prNumber: number): void {
+  const stmt = db.prepare(`
+    UPDATE pr_expirations SET closed_at = datetime('now') WHERE repo_full_name = ? AND pr_number = ?
+  `);
+  stmt.run(repoFullName, prNumber);
+}
+
+/**
+ * Forget the warning and closing of a PR, e.g. once it is reopened
+ */
+export function deletePRExpiration(repoFullName: string, prNumber: number): void {
+  const stmt = db.prepare(`
+    DELETE FROM pr_expirations WHERE repo_full_name = ? AND pr_number = ?
+  `);
+  stmt.run(repoFullName, prNumber);
+}
+
+/**
+ * Records of a contributor on PRs that are still closed because their CLA stayed unsigned
+ */
+export function findExpiredPRRecordsByGitHubUserId(githubUserId: number): PRRecord[] {
+  const stmt = db.prepare(`
+    SELECT pr_records.* FROM pr_records
+    JOIN pr_expirations
+      ON pr_expirations.repo_full_name = pr_records.repo_full_name AND pr_expirations.pr_number = pr_records.pr_number
+    WHERE pr_records.github_user_id = ? AND pr_records.pr_state = 'closed' AND pr_expirations.closed_at IS NOT NULL
+  `);
+  return stmt.all(githubUserId) as unknown as PRRecord[];
+}
+
+/**
+ * Record something that happened on a PR, shown in the history of the bot comment
+ */
+export function addPRHistoryEntry(repoFullName: string, prNumber: number, message: string): void {
+  const stmt = db.prepare(`
+    INSERT INTO pr_comment_history (repo_full_name, pr_number, message)
+    VALUES (?, ?, ?)
+  `);
+  stmt.run(repoFullName, prNumber, message);
+}
+
+/**
+ * Latest history entries of a PR, oldest first
+ */
+export function listPRHistory(repoFullName: string, prNumber: number, limit = 10): PRHistoryRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM (
+      SELECT * FROM pr_comment_history
+      WHERE repo_full_name = ? COLLATE NOCASE AND pr_number = ?
+      ORDER BY id DESC
+      LIMIT ?
+    ) ORDER BY id
+  `);
+  return stmt.all(repoFullName, prNumber, limit) as unknown as PRHistoryRecord[];
+}
+
+// Click-through Signature Operations
+
+/**
+ * Mark a pending click-through agreement as signed and store the evidence, in
+ * one transaction. Returns false if the agreement is not pending anymore.
+ */
+export function recordClickthroughSignature(evidence: Omit<SignatureEvidenceRecord, 'id'>): boolean {
+  db.exec('BEGIN IMMEDIATE');
+  try {
+    const updated = db.prepare(`
+      UPDATE cla_records
+      SET status = 'signed', signed_at = ?, updated_at = datetime('now')
+      WHERE concord_agreement_uid = ? AND github_user_id = ? AND status = 'pending'
+    `).run(evidence.signed_at, evidence.agreement_uid, evidence.github_user_id);
+
+    if (Number(updated.changes) === 0) {
+      db.exec('ROLLBACK');
+      return false;
+    }
+
+    db.prepare(`
+      INSERT INTO signature_evidence (
+        agreement_uid, github_username, github_user_id, cla_version, method,
+        text_hash, ip_address, user_agent, source_url, signed_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      evidence.agreement_uid,
+      evidence.github_username,
+      evidence.github_user_id,
+      evidence.cla_version || null,
+      evidence.method,
+      evidence.text_hash,
+      evidence.ip_address || null,
+      evidence.user_agent || null,
+      evidence.source_url || null,
+      evidence.signed_at
+    );
+
+    db.exec('COMMIT');
+    return true;
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+}
+
+export function findSignatureEvidence(agreementUid: string): SignatureEvidenceRecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM signature_evidence WHERE agreement_uid = ?
+  `);
+  return stmt.get(agreementUid) as SignatureEvidenceRecord | undefined;
+}
+
+/**
+ * Latest click-through signature of a contributor
+ */
+export function findLatestSignatureEvidence(githubUserId: number): SignatureEvidenceRecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM signature_evidence WHERE github_user_id = ? ORDER BY id DESC LIMIT 1
+  `);
+  return stmt.get(githubUserId) as SignatureEvidenceRecord | undefined;
+}
+
+// Corporate CLA Operations
+
+export function createCorporateCLA(
+  record: Omit<CorporateCLARecord, 'id' | 'status' | 'signed_at' | 'created_at' | 'updated_at'>
+): CorporateCLARecord {
+  const stmt = db.prepare(`
+    INSERT INTO corporate_clas (company_name, concord_agreement_uid, signer_email, signer_name)
+    VALUES (?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    record.company_name || null,
+    record.concord_agreement_uid,
+    record.signer_email,
+    record.signer_name || null
+  );
+  return findCorporateCLAById(Number(result.lastInsertRowid))!;
+}
+
+export function findCorporateCLAById(id: number): CorporateCLARecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM corporate_clas WHERE id = ?
+  `);
+  return stmt.get(id) as CorporateCLARecord | undefined;
+}
+
+export function findCorporateCLAByAgreementUid(agreementUid: string): CorporateCLARecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM corporate_clas WHERE concord_agreement_uid = ?
+  `);
+  return stmt.get(agreementUid) as CorporateCLARecord | undefined;
+}
+
+export function listCorporateCLAs(): CorporateCLARecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM corporate_clas ORDER BY created_at DESC
+  `);
+  return stmt.all() as unknown as CorporateCLARecord[];
+}
+
+/**
+ * Update the status of a corporate CLA. The company name is only filled in
+ * when it was not given at creation.
+ */
+export function updateCorporateCLAStatus(
+  id: number,
+  status: CorporateCLARecord['status'],
+  signedAt?: string,
+  companyName?: string
+): void {
+  const stmt = db.prepare(`
+    UPDATE corporate_clas
+    SET status = ?, signed_at = ?, company_name = COALESCE(company_name, ?), updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  stmt.run(status, signedAt || null, companyName || null, id);
+}
+
+export function listCorporateCLAMembers(corporateCLAId: number): CorporateCLAMemberRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM corporate_cla_members WHERE corporate_cla_id = ? ORDER BY member_type, value
+  `);
+  return stmt.all(corporateCLAId) as unknown as CorporateCLAMemberRecord[];
+}
+
+/**
+ * Add a GitHub user or email domain to a corporate CLA allowlist.
+ * Returns false if it was already listed.
+ */
+export function addCorporateCLAMember(
+  corporateCLAId: number,
+  memberType: CorporateCLAMemberType,
+  value: string,
+  addedBy?: string
+): boolean {
+  const stmt = db.prepare(`
+    INSERT INTO corporate_cla_members (corporate_cla_id, member_type, value, added_by)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(corporate_cla_id, member_type, value) DO NOTHING
+  `);
+  return Number(stmt.run(corporateCLAId, memberType, value, addedBy || null).changes) > 0;
+}
+
+export function removeCorporateCLAMember(
+  corporateCLAId: number,
+  memberType: CorporateCLAMemberType,
+  value: string
+): boolean {
+  const stmt = db.prepare(`
+    DELETE FROM corporate_cla_members
+    WHERE corporate_cla_id = ? AND member_type = ? AND value = ?
+  `);
+  return Number(stmt.run(corporateCLAId, memberType, value).changes) > 0;
+}
+
+/**
+ * Find a signed corporate CLA listing the GitHub user or one of the email domains
+ */
+export function findCoveringCorporateCLA(githubUsername: string, emailDomains: string[]): CorporateCLARecord | undefined {
+  const stmt = db.prepare(`
+    SELECT corporate_clas.* FROM corporate_clas
+    JOIN corporate_cla_members ON corporate_cla_members.corporate_cla_id = corporate_clas.id
+    WHERE corporate_clas.status = 'signed'
+      AND (
+        (corporate_cla_members.member_type = 'user' AND corporate_cla_members.value = ?)
+        OR (corporate_cla_members.member_type = 'domain' AND corporate_cla_members.value IN (SELECT value FROM json_each(?)))
+      )
+    ORDER BY corporate_clas.signed_at
+    LIMIT 1
+  `);
+  return stmt.get(githubUsername.toLowerCase(), JSON.stringify(emailDomains)) as CorporateCLARecord | undefined;
+}
+
+/**
+ * Open PR records of a corporate CLA member: a GitHub user, or the contributors
+ * whose agreement was sent to an address of the domain
+ */
+export function findOpenPRRecordsByCorporateCLAMember(memberType: CorporateCLAMemberType, value: string): PRRecord[] {
+  const stmt = memberType === 'user'
+    ? db.prepare(`
+        SELECT * FROM pr_records
+        WHERE pr_state = 'open' AND github_username = ? COLLATE NOCASE
+      `)
+    : db.prepare(`
+        SELECT pr_records.* FROM pr_records
+        JOIN cla_records ON cla_records.github_user_id = pr_records.github_user_id
+        WHERE pr_records.pr_state = 'open'
+          AND lower(substr(cla_records.github_email, instr(cla_records.github_email, '@') + 1)) = ?
+      `);
+  return stmt.all(value) as unknown as PRRecord[];
+}
+
+export function findOpenPRRecordsByCorporateCLA(corporateCLAId: number): PRRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM pr_records WHERE pr_state = 'open' AND corporate_cla_id = ?
+  `);
+  return stmt.all(corporateCLAId) as unknown as PRRecord[];
+}
+
+// Repository Installation Operations
+
+export function findInstallationIdByRepo(repoFullName: string): number | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM repo_installations WHERE repo_full_name = ?
+  `);
+  return (stmt.get(repoFullName) as RepoInstallationRecord | undefined)?.installation_id;
+}
+
+/**
+ * Map a repository to the installation with access to it. PR records of the
+ * repository follow, so a re-installed app is picked up.
+ */
+export function upsertRepoInstallation(repoFullName: string, installationId: number): void {
+  const stmt = db.prepare(`
+    INSERT INTO repo_installations (repo_full_name, installation_id)
+    VALUES (?, ?)
+    ON CONFLICT(repo_full_name) DO UPDATE SET
+      installation_id = excluded.installation_id,
+      updated_at = datetime('now')
+    WHERE repo_installations.installation_id != excluded.installation_id
+  `);
+  const result = stmt.run(repoFullName, installationId);
+
+  if (Number(result.changes) > 0) {
+    db.prepare(`
+      UPDATE pr_records SET installation_id = ?
+      WHERE repo_full_name = ? COLLATE NOCASE AND installation_id IS NOT ?
+    `).run(installationId, repoFullName, installationId);
+  }
+}
+
+export function deleteRepoInstallation(repoFullName: string): void {
+  const stmt = db.prepare(`
+    DELETE FROM repo_installations WHERE repo_full_name = ?
+  `);
+  stmt.run(repoFullName);
+}
+
+/**
+ * Forget every repository of an uninstalled installation
+ */
+export function deleteInstallation(installationId: number): number {
+  const stmt = db.prepare(`
+    DELETE FROM repo_installations WHERE installation_id = ?
+  `);
+  return Number(stmt.run(installationId).changes);
+}
+
+// Audit Log Operations
+
+export function addAuditEntry(actor: string, action: string, subject: string, details?: Record<string, unknown>): void {
+  const stmt = db.prepare(`
+    INSERT INTO audit_log (actor, action, subject, details)
+    VALUES (?, ?, ?, ?)
+  `);
+  stmt.run(actor, action, subject, details ? JSON.stringify(details) : null);
+}
+
+export function listAuditEntries(subject?: string, limit = 100): AuditLogRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM audit_log
+    WHERE ? IS NULL OR subject = ?
+    ORDER BY id DESC
+    LIMIT ?
+  `);
+  return stmt.all(subject ?? null, subject ?? null, limit) as unknown as AuditLogRecord[];
+}
+
+// Webhook Event Queue Operations
+
+/**
+ * Persist an incoming webhook event. Returns undefined if the delivery was already queued.
+ */
+export function enqueueWebhookEvent(
+  source: WebhookSource,
+  eventType: string,
+  deliveryId: string,
+  payload: unknown
+): WebhookEventRecord | undefined {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO webhook_events (source, event_type, delivery_id, payload)
+    VALUES (?, ?, ?, ?)
+  `);
+  const result = stmt.run(source, eventType, deliveryId, JSON.stringify(payload));
+
+  if (Number(result.changes) === 0) {
+    return undefined;
+  }
+  return findWebhookEventById(Number(result.lastInsertRowid));
+}
+
+/**
+ * Number of webhook events in each status
+ */
+export function countWebhookEventsByStatus(): Partial<Record<WebhookEventStatus, number>> {
+  const rows = db.prepare(`
+    SELECT status, COUNT(*) AS count FROM webhook_events GROUP BY status
+  `).all() as Array<{ status: WebhookEventStatus; count: number }>;
+  return Object.fromEntries(rows.map((r) => [r.status, r.count]));
+}
+
+export function findWebhookEventById(id: number): WebhookEventRecord | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM webhook_events WHERE id = ?
+  `);
+  return stmt.get(id) as WebhookEventRecord | undefined;
+}
+
+/**
+ * Take the oldest due event and mark it as processing
+ */
+export function claimNextWebhookEvent(): WebhookEventRecord | undefined {
+  const event = db.prepare(`
+    SELECT * FROM webhook_events
+    WHERE status = 'pending' AND next_attempt_at <= datetime('now')
+    ORDER BY id
+    LIMIT 1
+  `).get() as WebhookEventRecord | undefined;
+
+  if (!event) {
+    return undefined;
+  }
+
+  db.prepare(`
+    UPDATE webhook_events
+    SET status = 'processing', attempts = attempts + 1, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(event.id!);
+
+  return findWebhookEventById(event.id!);
+}
+
+export function completeWebhookEvent(id: number): void {
+  const stmt = db.prepare(`
+    UPDATE webhook_events
+    SET status = 'done', last_error = NULL, updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  stmt.run(id);
+}
+
+/**
+ * Record a failed attempt. Without a retry delay the event goes to the dead-letter state.
+ */
+export function failWebhookEvent(id: number, error: string, retryDelaySeconds?: number): void {
+  if (retryDelaySeconds === undefined) {
+    db.prepare(`
+      UPDATE webhook_events
+      SET status = 'dead', last_error = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(error, id);
+    return;
+  }
+
+  db.prepare(`
+    UPDATE webhook_events
+    SET status = 'pending', last_error = ?, next_attempt_at = datetime('now', ?), updated_at = datetime('now')
+    WHERE id = ?
+  `).run(error, `+${retryDelaySeconds} seconds`, id);
+}
+
+/**
+ * Put events that were being processed when the service stopped back in the queue
+ */
+export function resetProcessingWebhookEvents(): number {
+  const stmt = db.prepare(`
+    UPDATE webhook_events
+    SET status = 'pending', updated_at = datetime('now')
+    WHERE status = 'processing'
+  `);
+  return Number(stmt.run().changes);
+}
+
+export function listWebhookEvents(status: WebhookEventStatus, limit = 100): WebhookEventRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM webhook_events WHERE status = ? ORDER BY id DESC LIMIT ?
+  `);
+  return stmt.all(status, limit) as unknown as WebhookEventRecord[];
+}
+
+/**
+ * Send a dead-lettered event back to the queue with a fresh set of attempts
+ */
+export function redriveWebhookEvent(id: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE webhook_events
+    SET status = 'pending', attempts = 0, next_attempt_at = datetime('now'), updated_at = datetime('now')
+    WHERE id = ? AND status = 'dead'
+  `);
+  return Number(stmt.run(id).changes) > 0;
+}
+
+export function pruneWebhookEvents(retentionDays: number): number {
+  const stmt = db.prepare(`
+    DELETE FROM webhook_events
+    WHERE status = 'done' AND updated_at < datetime('now', ?)
+  `);
+  return Number(stmt.run(`-${retentionDays} days`).changes);
+}
+
+export function addReconciliationRun(run: Omit<ReconciliationRunRecord, 'id'>): void {
+  const stmt = db.prepare(`
+    INSERT INTO reconciliation_runs (triggered_by, actor, started_at, finished_at, drift_found, drift_fixed, api_calls, report)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    run.triggered_by,
+    run.actor || null,
+    run.started_at,
+    run.finished_at,
+    run.drift_found,
+    run.drift_fixed,
+    run.api_calls,
+    run.report
+  );
+}
+
+export function listReconciliationRuns(limit = 20): ReconciliationRunRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM reconciliation_runs ORDER BY id DESC LIMIT ?
+  `);
+  return stmt.all(limit) as unknown as ReconciliationRunRecord[];
+}
+
+/**
+ * Keep only the latest reconciliation runs
+ */
+export function pruneReconciliationRuns(keep: number): number {
+  const stmt = db.prepare(`
+    DELETE FROM reconciliation_runs
+    WHERE id NOT IN (SELECT id FROM reconciliation_runs ORDER BY id DESC LIMIT ?)
+  `);
+  return Number(stmt.run(keep).changes);
+}
+
 export function closeDatabase(): void {
   if (db) {
     db.close();
@@ -2,11 +2,46 @@ import { Octokit } from '@octokit/rest';
 import { createAppAuth } from '@octokit/auth-app';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { PullRequest } from '../types';
+import {
+  PullRequest,
+  CLASigner,
+  CLASignerRole,
+  CLASignerResult,
+  CLALabel,
+  CLACommentState,
+  GitHubUser,
+  PRHistoryRecord,
+  PROverrideRecord,
+  RepoConfig,
+} from '../types';
+import { TemplateView } from '../utils/template';
+import * as templateService from './templates';
+import * as clickthroughService from './clickthrough';
+import * as signatureService from './signature';
+import * as metricsService from './metrics';
 
 // Cache for installation Octokit instances
 const installationOctokitCache = new Map<number, Octokit>();
 
+/**
+ * Create an Octokit instance whose API calls are counted in the metrics
+ */
+function createOctokit(options: ConstructorParameters<typeof Octokit>[0]): Octokit {
+  const octokit = new Octokit(options);
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    try {
+      const response = await request(requestOptions);
+      metricsService.recordGitHubRequest(requestOptions.method, requestOptions.url, response.status);
+      return response;
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      metricsService.recordGitHubRequest(requestOptions.method, requestOptions.url, status ?? 'error');
+      throw error;
+    }
+  });
+  return octokit;
+}
+
 /**
  * Get an authenticated Octokit instance for a specific installation
  */
@@ -15,7 +50,7 @@ export async function getInstallationOctokit(installationId: number): Promise<Oc
     return installationOctokitCache.get(installationId)!;
   }
 
-  const octokit = new Octokit({
+  const octokit = createOctokit({
     authStrategy: createAppAuth,
     auth: {
       appId: config.github.appId,
@@ -44,49 +79,169 @@ export async function getUserEmail(
   }
 }
 
+// GitHub's own committer for commits made through the web UI (merges, suggestions)
+const WEB_FLOW_LOGIN = 'web-flow';
+const WEB_FLOW_EMAIL = 'noreply@github.com';
+
+const CO_AUTHOR_TRAILER = /^co-authored-by:\s*(.+?)\s*<([^>]+)>\s*$/gim;
+const NOREPLY_EMAIL = /^(?:(\d+)\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+/**
+ * Extract the Co-authored-by trailers from a commit message
+ */
+export function parseCoAuthors(message: string): Array<{ name: string; email: string }> {
+  const coAuthors: Array<{ name: string; email: string }> = [];
+  for (const match of message.matchAll(CO_AUTHOR_TRAILER)) {
+    coAuthors.push({ name: match[1], email: match[2].trim().toLowerCase() });
+  }
+  return coAuthors;
+}
+
 /**
- * Get commit author emails for a PR
+ * Map a commit email to a GitHub account.
+ * Noreply addresses name the account, which is looked up by its ID when they
+ * carry one (the login may be outdated or made up), by its login otherwise;
+ * other emails are looked up through the user search API and only accepted
+ * when the match is unambiguous.
  */
-export async function getPRCommitEmails(
+async function findUserByEmail(
   octokit: Octokit,
-  owner: string,
-  repo: string,
-  prNumber: number
-): Promise<string[]> {
+  email: string
+): Promise<{ id: number; login: string } | null> {
+  const noreply = email.match(NOREPLY_EMAIL);
+  if (noreply) {
+    try {
+      const { data: user } = noreply[1]
+        ? await octokit.users.getById({ account_id: parseInt(noreply[1], 10) })
+        : await octokit.users.getByUsername({ username: noreply[2] });
+      if (user.login.toLowerCase() !== noreply[2].toLowerCase()) {
+        logger.info('Noreply email login differs from its account', { email, login: user.login });
+      }
+      return { id: user.id, login: user.login };
+    } catch {
+      return null;
+    }
+  }
+
   try {
-    const { data: commits } = await octokit.pulls.listCommits({
-      owner,
-      repo,
-      pull_number: prNumber,
-    });
+    const { data } = await octokit.search.users({ q: `${email} in:email` });
+    if (data.total_count === 1 && data.items[0]) {
+      return { id: data.items[0].id, login: data.items[0].login };
+    }
+  } catch (error) {
+    logger.warn('Could not search user by email', { email, error });
+  }
+  return null;
+}
+
+function isBotAccount(login: string | undefined, type: string | undefined): boolean {
+  return type === 'Bot' || (!!login && login.endsWith('[bot]'));
+}
 
-    const emails = new Set<string>();
-    for (const commit of commits) {
-      if (commit.commit.author?.email) {
-        emails.add(commit.commit.author.email);
+/**
+ * Resolve every person who must sign the CLA for a PR: the PR author, every
+ * commit author and committer, and every Co-authored-by trailer.
+ * Bots and GitHub's web-flow committer are skipped.
+ */
+export async function getPRSigners(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: PullRequest
+): Promise<CLASigner[]> {
+  const signersById = new Map<number, CLASigner>();
+  const unlinkedByEmail = new Map<string, CLASigner>();
+
+  const addSigner = (
+    role: CLASignerRole,
+    account: { id: number; login: string } | null,
+    name?: string,
+    email?: string
+  ): void => {
+    const normalizedEmail = email?.toLowerCase();
+    let signer: CLASigner | undefined;
+
+    if (account) {
+      signer = signersById.get(account.id);
+      if (!signer) {
+        signer = { githubUserId: account.id, githubUsername: account.login, emails: [], roles: [] };
+        signersById.set(account.id, signer);
+      }
+    } else if (normalizedEmail) {
+      signer = unlinkedByEmail.get(normalizedEmail);
+      if (!signer) {
+        signer = { emails: [], roles: [] };
+        unlinkedByEmail.set(normalizedEmail, signer);
       }
+    } else {
+      return;
     }
 
-    return Array.from(emails);
-  } catch (error) {
-    logger.warn('Could not fetch PR commit emails', { owner, repo, prNumber, error });
-    return [];
+    if (name && !signer.name) signer.name = name;
+    if (normalizedEmail && !signer.emails.includes(normalizedEmail)) signer.emails.push(normalizedEmail);
+    if (!signer.roles.includes(role)) signer.roles.push(role);
+  };
+
+  addSigner('pr_author', { id: pr.user.id, login: pr.user.login }, pr.user.name);
+
+  const commits = await octokit.paginate(octokit.pulls.listCommits, {
+    owner,
+    repo,
+    pull_number: pr.number,
+    per_page: 100,
+  });
+
+  for (const commit of commits) {
+    const gitAuthor = commit.commit.author;
+    const gitCommitter = commit.commit.committer;
+
+    if (!isBotAccount(commit.author?.login, commit.author?.type)) {
+      const account = commit.author
+        ? { id: commit.author.id, login: commit.author.login }
+        : gitAuthor?.email ? await findUserByEmail(octokit, gitAuthor.email) : null;
+      addSigner('commit_author', account, gitAuthor?.name, gitAuthor?.email);
+    }
+
+    const committerLogin = commit.committer?.login;
+    const isWebFlow = committerLogin === WEB_FLOW_LOGIN || gitCommitter?.email?.toLowerCase() === WEB_FLOW_EMAIL;
+    if (!isWebFlow && !isBotAccount(committerLogin, commit.committer?.type)) {
+      const account = commit.committer
+        ? { id: commit.committer.id, login: commit.committer.login }
+        : gitCommitter?.email ? await findUserByEmail(octokit, gitCommitter.email) : null;
+      addSigner('committer', account, gitCommitter?.name, gitCommitter?.email);
+    }
+
+    for (const coAuthor of parseCoAuthors(commit.commit.message)) {
+      const account = await findUserByEmail(octokit, coAuthor.email);
+      if (account && isBotAccount(account.login, undefined)) continue;
+      addSigner('co_author', account, coAuthor.name, coAuthor.email);
+    }
+  }
+
+  // An email that was resolved to an account on another commit is not unlinked
+  for (const [email, signer] of unlinkedByEmail) {
+    const linked = Array.from(signersById.values()).some((s) => s.emails.includes(email));
+    if (linked) unlinkedByEmail.delete(email);
+    else if (!signer.name) signer.name = email;
   }
+
+  return [...signersById.values(), ...unlinkedByEmail.values()];
 }
 
 /**
- * Create or ensure the CLA pending label exists
+ * Create or ensure a CLA label exists
  */
 export async function ensureCLALabel(
   octokit: Octokit,
   owner: string,
-  repo: string
+  repo: string,
+  label: CLALabel = config.claLabel
 ): Promise<void> {
   try {
     await octokit.issues.getLabel({
       owner,
       repo,
-      name: config.claLabel.name,
+      name: label.name,
     });
   } catch {
     // Label doesn't exist, create it
@@ -94,144 +249,288 @@ export async function ensureCLALabel(
       await octokit.issues.createLabel({
         owner,
         repo,
-        name: config.claLabel.name,
-        color: config.claLabel.color,
-        description: config.claLabel.description,
+        name: label.name,
+        color: label.color,
+        description: label.description,
       });
-      logger.info('Created CLA pending label', { owner, repo });
+      logger.info('Created CLA label', { owner, repo, label: label.name });
     } catch (createError) {
-      logger.warn('Could not create CLA label', { owner, repo, error: createError });
+      logger.warn('Could not create CLA label', { owner, repo, label: label.name, error: createError });
     }
   }
 
 }
 
 /**
- * Add CLA pending label to a PR
+ * Add a CLA label (pending or expired) to a PR
  */
-export async function addCLAPendingLabel(
+export async function addCLALabel(
   octokit: Octokit,
   owner: string,
   repo: string,
-  prNumber: number
+  prNumber: number,
+  label: CLALabel
 ): Promise<void> {
-  await ensureCLALabel(octokit, owner, repo);
+  await ensureCLALabel(octokit, owner, repo, label);
 
   try {
     await octokit.issues.addLabels({
       owner,
       repo,
       issue_number: prNumber,
-      labels: [config.claLabel.name],
+      labels: [label.name],
     });
-    logger.info('Added CLA pending label', { owner, repo, prNumber });
+    logger.info('Added CLA label', { owner, repo, prNumber, label: label.name });
   } catch (error) {
-    logger.warn('Could not add CLA pending label', { owner, repo, prNumber, error });
+    logger.warn('Could not add CLA label', { owner, repo, prNumber, label: label.name, error });
   }
 }
 
 
 /**
- * Remove CLA pending label from a PR
+ * Remove a CLA label (pending or expired) from a PR
  */
-export async function removeCLAPendingLabel(
+export async function removeCLALabel(
   octokit: Octokit,
   owner: string,
   repo: string,
-  prNumber: number
+  prNumber: number,
+  label: CLALabel
 ): Promise<void> {
   try {
     await octokit.issues.removeLabel({
       owner,
       repo,
       issue_number: prNumber,
-      name: config.claLabel.name,
+      name: label.name,
     });
-    logger.info('Removed CLA pending label', { owner, repo, prNumber });
+    logger.info('Removed CLA label', { owner, repo, prNumber, label: label.name });
   } catch {
     // Label might not exist, ignore
   }
 }
 
 /**
- * Create a comment on a PR requesting CLA signature
+ * Display name for a signer in PR comments
  */
-export async function createCLAPendingComment(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  prNumber: number,
-  username: string,
-  signingUrl?: string
-): Promise<number> {
-  const body = `## Contributor License Agreement
-
-Hey @${username}! 
-
-Thank you for your contribution to Filigran! Before we can merge this pull request, we need you to sign our Contributor License Agreement (CLA).
-
-### Why do we need a CLA?
+export function formatSigner(signer: CLASigner): string {
+  return signer.githubUsername ? `@${signer.githubUsername}` : signer.name || 'Unknown contributor';
+}
 
-The CLA helps protect both you and Filigran. It ensures that:
-- You have the right to make this contribution
-- Filigran can use and distribute your contribution
-- Your contribution remains open source
+export function formatSignerState(result: CLASignerResult): string {
+  switch (result.state) {
+    case 'exempt':
+      return ':white_check_mark: Not required';
+    case 'signed':
+      return result.company ? `:white_check_mark: Covered by the ${result.company} corporate CLA` : ':white_check_mark: Signed';
+    case 'pending': {
+      const status = result.reason ? `:x: Not signed yet (${result.reason})` : ':x: Not signed yet';
+      if (result.signingUrl) {
+        return `${status} — [sign the CLA](${result.signingUrl})`;
+      }
+      return clickthroughService.getSignPhrase()
+        ? `${status} — post the agreement phrase on the pull request`
+        : `${status} — check your email for the signing invitation`;
+    }
+    case 'unlinked':
+      return ':warning: Commit email is not linked to a GitHub account';
+    case 'error':
+      return ':warning: Agreement could not be created — please contact the maintainers';
+  }
+}
 
-### How to sign
+function buildContributorsView(results: CLASignerResult[], repoConfig?: RepoConfig): TemplateView[] {
+  return results.map((r) => {
+    const signer = {
+      name: formatSigner(r.signer),
+      username: r.signer.githubUsername,
+    };
+    const state = templateService.renderMessage('comment_signer_state', {
+      ...signer,
+      exempt: r.state === 'exempt',
+      signed: r.state === 'signed',
+      pending: r.state === 'pending',
+      unlinked: r.state === 'unlinked',
+      error: r.state === 'error',
+      company: r.company,
+      reason: r.reason,
+      signing_url: r.signingUrl,
+      sign_phrase: clickthroughService.getSignPhrase(),
+    }, repoConfig);
+    return { ...signer, state };
+  });
+}
 
-You can sign the CLA using either of these methods:
+/**
+ * Why contributors who signed an earlier CLA version are asked to sign again
+ */
+function buildResignView(blocking: CLASignerResult[]): TemplateView | undefined {
+  const resigning = blocking.filter((r) => r.resign);
+  if (resigning.length === 0) {
+    return undefined;
+  }
 
-1. :link: **Sign directly** — [Click here to review and sign the CLA](${signingUrl})
-2. :email: **Via email** — Check your inbox (and spam folder) for a signing invitation from Concord
+  const { version } = resigning[0].resign!;
+  return {
+    version: version.version,
+    effective_date: version.effective_date.split('T')[0],
+    notes: version.notes,
+    contributors: resigning
+      .map((r) => `${formatSigner(r.signer)} (signed version ${r.resign!.previousVersion})`)
+      .join(', '),
+  };
+}
 
-Once signed, this comment will be automatically updated.
+/**
+ * Hidden marker identifying the bot comment, so it can be found again when its
+ * ID is not known
+ */
+export const CLA_COMMENT_MARKER = '<!-- filigran-cla-bot -->';
+
+export interface CLACommentContext {
+  repoFullName: string;
+  prNumber: number;
+  // Current CLA version
+  claVersion?: string;
+  // Templates and language; the defaults when the configuration is invalid
+  repoConfig?: RepoConfig;
+}
 
----
+/**
+ * Render the bot comment of a PR from its current state and latest history,
+ * with the templates of the repository
+ */
+export function buildCLACommentBody(
+  state: CLACommentState,
+  history: PRHistoryRecord[],
+  context: CLACommentContext
+): string {
+  const { repoConfig } = context;
+  const view: TemplateView = {
+    repo: context.repoFullName,
+    pr_number: context.prNumber,
+    cla_version: context.claVersion,
+  };
+
+  let body: string;
+  switch (state.kind) {
+    case 'pending': {
+      const blocking = state.results.filter((r) => r.state !== 'signed' && r.state !== 'exempt');
+      body = templateService.renderMessage('comment_pending', {
+        ...view,
+        pending_mentions: blocking.map((r) => formatSigner(r.signer)).join(', '),
+        contributors: buildContributorsView(state.results, repoConfig),
+        resign: buildResignView(blocking),
+        has_unlinked: blocking.some((r) => r.state === 'unlinked'),
+        signing_links: blocking.some((r) => r.signingUrl),
+        // With the signing page, agreements are only sent once contributors chose their email there
+        email_invitations: signatureService.getSignatureProvider().sendsInvitations && !signatureService.isSigningPageEnabled(),
+        sign_phrase: clickthroughService.getSignPhrase(),
+      }, repoConfig);
+      break;
+    }
+    case 'signed': {
+      const allExempt = state.results.every((r) => r.state === 'exempt');
+      body = templateService.renderMessage(allExempt ? 'comment_not_required' : 'comment_signed', {
+        ...view,
+        signed_mentions: state.results.filter((r) => r.state === 'signed').map((r) => formatSigner(r.signer)).join(', '),
+        contributors: buildContributorsView(state.results, repoConfig),
+      }, repoConfig);
+      break;
+    }
+    case 'overridden':
+      body = templateService.renderMessage('comment_overridden', {
+        ...view,
+        actor: state.override.actor,
+        reason: state.override.reason,
+        reason_lines: state.override.reason.split('\n'),
+      }, repoConfig);
+      break;
+    case 'config_error':
+      body = templateService.renderMessage('comment_config_error', {
+        ...view,
+        source: state.source,
+        problems: state.problems,
+      }, repoConfig);
+      break;
+    case 'skipped':
+      body = templateService.renderMessage('comment_skipped', { ...view, reason: state.reason }, repoConfig);
+      break;
+  }
 
-:x: **CLA not signed yet**
+  if (history.length > 0) {
+    body += '\n\n' + templateService.renderMessage('comment_history', {
+      ...view,
+      entries: history.map((h) => ({ date: h.created_at.replace('T', ' ').slice(0, 16), message: h.message })),
+    }, repoConfig);
+  }
 
-<sub>This is an automated message from the Filigran CLA Bot. If you have questions, please contact the maintainers.</sub>`;
+  return `${CLA_COMMENT_MARKER}\n${body}`;
+}
 
-  const { data: comment } = await octokit.issues.createComment({
+/**
+ * Find the bot comment of a PR by its hidden marker
+ */
+export async function findCLAComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<number | undefined> {
+  const comments = await octokit.paginate(octokit.issues.listComments, {
     owner,
     repo,
     issue_number: prNumber,
-    body,
+    per_page: 100,
   });
 
-  logger.info('Created CLA pending comment', { owner, repo, prNumber, commentId: comment.id });
-  return comment.id;
+  return comments.find((c) => c.user?.type === 'Bot' && c.body?.includes(CLA_COMMENT_MARKER))?.id;
 }
 
-
 /**
- * Update comment to show CLA has been signed
+ * Update the bot comment of a PR, found by its marker when `commentId` is not
+ * known or outdated. If there is none, it is created when `create` is set.
+ * Returns the ID of the comment, if any.
  */
-export async function updateCommentCLASigned(
+export async function upsertCLAComment(
   octokit: Octokit,
   owner: string,
   repo: string,
-  commentId: number,
-  username: string
-): Promise<void> {
-  const body = `## Contributor License Agreement
-
-:white_check_mark: **CLA signed** :green_heart:
-
-Thank you @${username} for signing the Contributor License Agreement! Your pull request can now be reviewed and merged.
+  prNumber: number,
+  commentId: number | undefined,
+  body: string,
+  create: boolean
+): Promise<number | undefined> {
+  if (commentId) {
+    try {
+      await octokit.issues.updateComment({ owner, repo, comment_id: commentId, body });
+      logger.info('Updated CLA comment', { owner, repo, prNumber, commentId });
+      return commentId;
+    } catch (error) {
+      logger.warn('Could not update CLA comment, looking for it again', { owner, repo, prNumber, commentId, error });
+    }
+  }
 
-We appreciate your contribution to Filigran's open source projects! :heart:
+  const foundId = await findCLAComment(octokit, owner, repo, prNumber);
+  if (foundId && foundId !== commentId) {
+    await octokit.issues.updateComment({ owner, repo, comment_id: foundId, body });
+    logger.info('Updated CLA comment found by its marker', { owner, repo, prNumber, commentId: foundId });
+    return foundId;
+  }
 
-<sub>This is an automated message from the Filigran CLA Bot.</sub>`;
+  if (!create) {
+    return undefined;
+  }
 
-  await octokit.issues.updateComment({
+  const { data: comment } = await octokit.issues.createComment({
     owner,
     repo,
-    comment_id: commentId,
+    issue_number: prNumber,
     body,
   });
 
-  logger.info('Updated comment to CLA signed', { owner, repo, commentId });
+  logger.info('Created CLA comment', { owner, repo, prNumber, commentId: comment.id });
+  return comment.id;
 }
 
 /**
@@ -254,13 +553,170 @@ export async function createCLAStatus(
     sha,
     state: signed ? 'success' : 'pending',
     target_url: targetUrl,
-    description: customDescription || defaultDescription,
-    context: 'filigran/cla',
+    // Commit status descriptions are limited to 140 characters
+    description: (customDescription || defaultDescription).slice(0, 140),
+    context: config.cla.checkName,
   });
 
   logger.info('Created CLA status', { owner, repo, sha, signed });
 }
 
+// Identifier of the "Re-check" requested action on the check run
+export const RECHECK_ACTION_ID = 'recheck';
+
+function buildCheckRunSummary(results: CLASignerResult[], signed: boolean): string {
+  const rows = results.map((r) => `| ${formatSigner(r.signer)} | ${formatSignerState(r)} |`).join('\n');
+  const intro = signed
+    ? 'Every contributor to this pull request has signed the Contributor License Agreement or is exempted.'
+    : `Every contributor to this pull request needs to sign the ${config.cla.organizationName} Contributor License Agreement (CLA) before it can be merged.`;
+  const outro = signed
+    ? ''
+    : '\n\nOnce signed, this check updates automatically. If it does not, click **Re-check** above or comment `/cla recheck` on the pull request.';
+
+  return `${intro}
+
+| Contributor | CLA |
+|-------------|-----|
+${rows}${outro}`;
+}
+
+/**
+ * Create the CLA check run on a commit, or update the one this app already
+ * reported, always with a "Re-check" button
+ */
+async function upsertCLACheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string,
+  prNumber: number,
+  conclusion: 'success' | 'action_required' | 'failure',
+  title: string,
+  summary: string
+): Promise<void> {
+  const checkRun = {
+    owner,
+    repo,
+    name: config.cla.checkName,
+    // The PR number lets requested actions find the PR, even for forks
+    external_id: String(prNumber),
+    status: 'completed' as const,
+    conclusion,
+    completed_at: new Date().toISOString(),
+    output: { title, summary },
+    actions: [
+      {
+        label: 'Re-check',
+        description: 'Re-evaluate the CLA status',
+        identifier: RECHECK_ACTION_ID,
+      },
+    ],
+  };
+
+  const { data: existing } = await octokit.checks.listForRef({
+    owner,
+    repo,
+    ref: sha,
+    check_name: config.cla.checkName,
+    app_id: parseInt(config.github.appId, 10),
+    filter: 'latest',
+  });
+
+  const existingRun = existing.check_runs[0];
+  if (existingRun) {
+    await octokit.checks.update({ ...checkRun, check_run_id: existingRun.id });
+  } else {
+    await octokit.checks.create({ ...checkRun, head_sha: sha });
+  }
+}
+
+/**
+ * Report the CLA check run on a commit, with the state of every required signer
+ */
+export async function createCLACheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string,
+  prNumber: number,
+  signed: boolean,
+  description: string,
+  results: CLASignerResult[]
+): Promise<void> {
+  await upsertCLACheckRun(
+    octokit,
+    owner,
+    repo,
+    sha,
+    prNumber,
+    signed ? 'success' : 'action_required',
+    description,
+    buildCheckRunSummary(results, signed)
+  );
+
+  logger.info('Reported CLA check run', { owner, repo, sha, signed });
+}
+
+/**
+ * Report the CLA result on the PR head commit as a check run and/or a
+ * commit status, depending on the configured reporting mode
+ */
+export async function reportCLAStatus(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: { number: number; sha: string },
+  signed: boolean,
+  description: string,
+  results: CLASignerResult[]
+): Promise<void> {
+  const mode = config.cla.statusReporting;
+
+  if (mode === 'checks' || mode === 'both') {
+    await createCLACheckRun(octokit, owner, repo, pr.sha, pr.number, signed, description, results);
+  }
+  if (mode === 'statuses' || mode === 'both') {
+    await createCLAStatus(octokit, owner, repo, pr.sha, signed, undefined, description);
+  }
+}
+
+/**
+ * Report an invalid repository configuration as a failed CLA check
+ */
+export async function reportCLAConfigError(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: { number: number; sha: string },
+  source: string,
+  problems: string[]
+): Promise<void> {
+  const mode = config.cla.statusReporting;
+  const title = `Invalid CLA configuration in ${source}`;
+
+  if (mode === 'checks' || mode === 'both') {
+    const summary = `The CLA could not be checked because the configuration file \`${source}\` does not match the expected schema:
+
+${problems.map((p) => `- ${p}`).join('\n')}
+
+Supported keys: \`exempt.users\`, \`exempt.teams\`, \`label\` (name or \`name\`/\`color\`/\`description\`), \`ignored_branches\`, \`drafts\` (\`check\` or \`skip\`), \`concord.template_id\`, \`language\`, \`templates\` and \`auto_close\` (\`days\`, \`warning_days\`). Fix the file on the default branch, then click **Re-check**.`;
+
+    await upsertCLACheckRun(octokit, owner, repo, pr.sha, pr.number, 'failure', title, summary);
+  }
+  if (mode === 'statuses' || mode === 'both') {
+    await octokit.repos.createCommitStatus({
+      owner,
+      repo,
+      sha: pr.sha,
+      state: 'error',
+      description: title.slice(0, 140),
+      context: config.cla.checkName,
+    });
+  }
+
+  logger.warn('Reported invalid CLA configuration', { owner, repo, sha: pr.sha, source, problems });
+}
+
 /**
  * Get PR details
  */
@@ -279,6 +735,24 @@ export async function getPullRequest(
   return data as unknown as PullRequest;
 }
 
+/**
+ * Close or reopen a PR
+ */
+export async function setPullRequestState(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  state: 'open' | 'closed'
+): Promise<void> {
+  await octokit.pulls.update({
+    owner,
+    repo,
+    pull_number: prNumber,
+    state,
+  });
+}
+
 /**
  * List open PRs by a user
  */
@@ -303,24 +777,30 @@ export async function listOpenPRsByUser(
 }
 
 /**
- * Get all installations for the app
+ * Get an Octokit instance authenticated as the app itself (not an installation)
  */
-export async function getAppInstallations(): Promise<
-  Array<{
-    id: number;
-    account: { login: string; type: string };
-  }>
-> {
-  const appOctokit = new Octokit({
+function getAppOctokit(): Octokit {
+  return createOctokit({
     authStrategy: createAppAuth,
     auth: {
       appId: config.github.appId,
       privateKey: config.github.getPrivateKey(),
     },
   });
+}
 
-  const { data } = await appOctokit.apps.listInstallations();
-  return data.map((installation) => ({
+/**
+ * Get all installations for the app
+ */
+export async function getAppInstallations(): Promise<
+  Array<{
+    id: number;
+    account: { login: string; type: string };
+  }>
+> {
+  const appOctokit = getAppOctokit();
+  const installations = await appOctokit.paginate(appOctokit.apps.listInstallations, { per_page: 100 });
+  return installations.map((installation) => ({
     id: installation.id,
     account: {
       login: installation.account?.login || 'unknown',
@@ -329,6 +809,120 @@ export async function getAppInstallations(): Promise<
   }));
 }
 
+/**
+ * Get the ID of the installation with access to a repository, or null if
+ * the app is not installed on it
+ */
+export async function getRepoInstallationId(owner: string, repo: string): Promise<number | null> {
+  try {
+    const { data } = await getAppOctokit().apps.getRepoInstallation({ owner, repo });
+    return data.id;
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the ID of the app's installation on an organization, or null if the app
+ * is not installed there
+ */
+export async function getOrgInstallationId(org: string): Promise<number | null> {
+  try {
+    const { data } = await getAppOctokit().apps.getOrgInstallation({ org });
+    return data.id;
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the GitHub user a user access token (OAuth or personal) belongs to,
+ * or null if the token is not valid
+ */
+export async function getTokenUser(token: string): Promise<GitHubUser | null> {
+  try {
+    const { data } = await createOctokit({ auth: token }).users.getAuthenticated();
+    return { id: data.id, login: data.login, name: data.name ?? undefined, email: data.email ?? undefined };
+  } catch (error) {
+    if ((error as { status?: number }).status === 401) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verified email addresses of the user a user access token belongs to. The app
+ * needs the "Email addresses" account permission (user:email for OAuth apps).
+ */
+export async function getTokenUserVerifiedEmails(token: string): Promise<string[]> {
+  const octokit = createOctokit({ auth: token });
+  const emails = await octokit.paginate(octokit.users.listEmailsForAuthenticatedUser, { per_page: 100 });
+  return emails.filter((e) => e.verified).map((e) => e.email);
+}
+
+/**
+ * Look up a GitHub user by username, or null if there is no such user
+ */
+export async function getUserByUsername(octokit: Octokit, username: string): Promise<GitHubUser | null> {
+  try {
+    const { data } = await octokit.users.getByUsername({ username });
+    return { id: data.id, login: data.login, name: data.name ?? undefined, email: data.email ?? undefined };
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Permission of a user on a repository ("admin", "write", "read" or "none").
+ * The maintain and triage roles are reported as "write" and "read".
+ */
+export async function getRepoPermission(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  username: string
+): Promise<string> {
+  try {
+    const { data } = await octokit.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    return data.permission;
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return 'none';
+    }
+    throw error;
+  }
+}
+
+export type CommentReaction = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
+/**
+ * React to an issue or PR comment, e.g. to acknowledge a command.
+ * Failures are only logged: a missing reaction must not fail the command.
+ */
+export async function addCommentReaction(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  commentId: number,
+  content: CommentReaction
+): Promise<void> {
+  try {
+    await octokit.reactions.createForIssueComment({ owner, repo, comment_id: commentId, content });
+  } catch (error) {
+    logger.warn('Could not react to comment', { owner, repo, commentId, content, error });
+  }
+}
+
 /**
  * Check if a user is a member of the GitHub organization
  */
@@ -351,17 +945,23 @@ export async function isOrganizationMember(
 }
 
 /**
- * Get repositories for an installation
+ * Check if a user is an active member of an organization team
  */
-export async function getInstallationRepos(
-  installationId: number
-): Promise<Array<{ owner: string; name: string; full_name: string }>> {
-  const octokit = await getInstallationOctokit(installationId);
-  const { data } = await octokit.apps.listReposAccessibleToInstallation();
-
-  return data.repositories.map((repo) => ({
-    owner: repo.owner.login,
-    name: repo.name,
-    full_name: repo.full_name,
-  }));
+export async function isTeamMember(
+  octokit: Octokit,
+  org: string,
+  teamSlug: string,
+  username: string
+): Promise<boolean> {
+  try {
+    const { data } = await octokit.teams.getMembershipForUserInOrg({
+      org,
+      team_slug: teamSlug,
+      username,
+    });
+    return data.state === 'active';
+  } catch {
+    // 404 means not a member (or the team does not exist)
+    return false;
+  }
 }
@@ -1,3 +1,17 @@
 export * as database from './database';
 export * as github from './github';
 export * as concord from './concord';
+export * as cla from './cla';
+export * as corporateCla from './corporateCla';
+export * as queue from './queue';
+export * as repoConfig from './repoConfig';
+export * as adminAuth from './adminAuth';
+export * as commands from './commands';
+export * as templates from './templates';
+export * as signature from './signature';
+export * as clickthrough from './clickthrough';
+export * as reconciliation from './reconciliation';
+export * as reminders from './reminders';
+export * as autoClose from './autoClose';
+export * as agreementCleanup from './agreementCleanup';
+export * as metrics from './metrics';
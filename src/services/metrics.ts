@@ -0,0 +1,108 @@
+import { CLAStatus, WebhookEventStatus, WebhookSource } from '../types';
+import { collectedHistogram, counter, gauge, histogram, renderMetrics } from '../utils/metrics';
+import * as db from './database';
+
+const CLA_STATUSES: CLAStatus[] = ['creating', 'pending', 'signed', 'expired', 'cancelled', 'superseded'];
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'processing', 'done', 'dead'];
+
+// Path segments following these ones are IDs (organization, agreement, template)
+const CONCORD_ID_PARENTS = new Set(['organizations', 'agreements', 'auto']);
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+export type WebhookReceivedOutcome = 'queued' | 'duplicate' | 'rejected';
+export type WebhookProcessedOutcome = 'processed' | 'retried' | 'dead_letter';
+
+const webhookEventsReceived = counter(
+  'cla_webhook_events_received_total',
+  'Webhook deliveries received, by source, event and outcome (queued, duplicate or rejected)'
+);
+
+const webhookEventsProcessed = counter(
+  'cla_webhook_events_processed_total',
+  'Queued webhook events handled, by source, event and outcome (processed, retried or dead_letter)'
+);
+
+const webhookHandlerDuration = histogram(
+  'cla_webhook_handler_duration_seconds',
+  'Time spent handling a queued webhook event, by source and event',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+const concordApiRequests = counter(
+  'cla_concord_api_requests_total',
+  'Concord API calls, by method, endpoint and HTTP status ("error" when no response was received)'
+);
+
+const githubApiRequests = counter(
+  'cla_github_api_requests_total',
+  'GitHub API calls, by method, endpoint and HTTP status ("error" when no response was received)'
+);
+
+gauge('cla_agreements', 'Individual CLA records, by status', () => {
+  const counts = db.countCLARecordsByStatus();
+  return CLA_STATUSES.map((status) => ({ labels: { status }, value: counts[status] ?? 0 }));
+});
+
+gauge('cla_webhook_queue_events', 'Webhook events in the queue, by status', () => {
+  const counts = db.countWebhookEventsByStatus();
+  return WEBHOOK_EVENT_STATUSES.map((status) => ({ labels: { status }, value: counts[status] ?? 0 }));
+});
+
+collectedHistogram(
+  'cla_time_to_sign_seconds',
+  'Time between the request of an agreement and its signature, for every signed CLA',
+  [HOUR, 6 * HOUR, DAY, 3 * DAY, 7 * DAY, 14 * DAY, 30 * DAY, 90 * DAY],
+  db.listSignatureDelaysSeconds
+);
+
+export function recordWebhookReceived(source: WebhookSource, event: string, outcome: WebhookReceivedOutcome): void {
+  webhookEventsReceived.inc({ source, event, outcome });
+}
+
+/**
+ * Count a handled webhook event and how long its handler took. `start` is a
+ * `process.hrtime.bigint()` value.
+ */
+export function recordWebhookProcessed(
+  source: WebhookSource,
+  event: string,
+  outcome: WebhookProcessedOutcome,
+  start: bigint
+): void {
+  webhookEventsProcessed.inc({ source, event, outcome });
+  webhookHandlerDuration.observeSince({ source, event }, start);
+}
+
+/**
+ * Count a Concord API call. IDs are removed from the endpoint, e.g.
+ * `/organizations/{id}/agreements/{id}/members`.
+ */
+export function recordConcordRequest(method: string, endpoint: string, status: number | 'error'): void {
+  const segments = endpoint.split('?')[0].split('/');
+  const path = segments
+    .map((segment, i) => (i > 0 && CONCORD_ID_PARENTS.has(segments[i - 1]) ? '{id}' : segment))
+    .join('/');
+  concordApiRequests.inc({ method, endpoint: path, status: String(status) });
+}
+
+/**
+ * Count a GitHub API call. `endpoint` is the Octokit route (e.g.
+ * `/repos/{owner}/{repo}/pulls/{pull_number}`); the absolute URLs of the next
+ * pages of a paginated list have their numeric IDs removed instead.
+ */
+export function recordGitHubRequest(method: string, endpoint: string, status: number | 'error'): void {
+  const path = endpoint
+    .replace(/^https?:\/\/[^/]+/, '')
+    .split('?')[0]
+    .replace(/\/\d+(?=\/|$)/g, '/{id}');
+  githubApiRequests.inc({ method, endpoint: path, status: String(status) });
+}
+
+/**
+ * Every metric in the Prometheus text exposition format
+ */
+export function render(): string {
+  return renderMetrics();
+}
@@ -0,0 +1,165 @@
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { WebhookEventRecord, WebhookSource } from '../types';
+import * as db from './database';
+import * as metricsService from './metrics';
+
+export type WebhookEventHandler = (eventType: string, payload: unknown) => Promise<void>;
+
+const handlers = new Map<WebhookSource, WebhookEventHandler>();
+
+// How often processed events older than the retention are deleted
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+let pollTimer: NodeJS.Timeout | undefined;
+let pruneTimer: NodeJS.Timeout | undefined;
+let draining = false;
+let running = false;
+
+/**
+ * Register the function processing events of a webhook source
+ */
+export function registerHandler(source: WebhookSource, handler: WebhookEventHandler): void {
+  handlers.set(source, handler);
+}
+
+/**
+ * Persist an incoming webhook event for asynchronous processing.
+ * Returns false if the delivery was already queued (duplicate or replay).
+ */
+export function enqueue(
+  source: WebhookSource,
+  eventType: string,
+  deliveryId: string,
+  payload: unknown
+): boolean {
+  const event = db.enqueueWebhookEvent(source, eventType, deliveryId, payload);
+  metricsService.recordWebhookReceived(source, eventType, event ? 'queued' : 'duplicate');
+  if (!event) {
+    logger.info('Duplicate webhook delivery ignored', { source, eventType, deliveryId });
+    return false;
+  }
+
+  logger.debug('Webhook event queued', { id: event.id, source, eventType, deliveryId });
+
+  // Process right away instead of waiting for the next poll
+  if (running) {
+    setImmediate(() => void drain());
+  }
+  return true;
+}
+
+/**
+ * Delay before the next attempt: exponential backoff from the base delay, capped
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  const { retryBaseDelaySeconds, retryMaxDelaySeconds } = config.queue;
+  return Math.min(retryBaseDelaySeconds * 2 ** Math.max(0, attempts - 1), retryMaxDelaySeconds);
+}
+
+async function processEvent(event: WebhookEventRecord): Promise<void> {
+  const handler = handlers.get(event.source);
+  if (!handler) {
+    throw new Error(`No handler registered for ${event.source} events`);
+  }
+  await handler(event.event_type, JSON.parse(event.payload));
+}
+
+/**
+ * Process every due event, one at a time
+ */
+async function drain(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  try {
+    let event: WebhookEventRecord | undefined;
+    while (running && (event = db.claimNextWebhookEvent())) {
+      const start = process.hrtime.bigint();
+      try {
+        await processEvent(event);
+        db.completeWebhookEvent(event.id!);
+        metricsService.recordWebhookProcessed(event.source, event.event_type, 'processed', start);
+        logger.debug('Webhook event processed', { id: event.id, source: event.source, eventType: event.event_type });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (event.attempts >= config.queue.maxAttempts) {
+          db.failWebhookEvent(event.id!, message);
+          metricsService.recordWebhookProcessed(event.source, event.event_type, 'dead_letter', start);
+          logger.error('Webhook event moved to dead-letter state', {
+            id: event.id,
+            source: event.source,
+            eventType: event.event_type,
+            deliveryId: event.delivery_id,
+            attempts: event.attempts,
+            error: serializeError(error),
+          });
+        } else {
+          const delay = getRetryDelaySeconds(event.attempts);
+          db.failWebhookEvent(event.id!, message, delay);
+          metricsService.recordWebhookProcessed(event.source, event.event_type, 'retried', start);
+          logger.warn('Webhook event failed, will retry', {
+            id: event.id,
+            source: event.source,
+            eventType: event.event_type,
+            attempts: event.attempts,
+            retryInSeconds: delay,
+            error: serializeError(error),
+          });
+        }
+      }
+    }
+  } catch (error) {
+    logger.error('Webhook queue worker error', { error: serializeError(error) });
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Delete the processed events older than QUEUE_RETENTION_DAYS
+ */
+function prune(): void {
+  try {
+    const pruned = db.pruneWebhookEvents(config.queue.retentionDays);
+    if (pruned > 0) {
+      logger.info('Pruned processed webhook events', { count: pruned });
+    }
+  } catch (error) {
+    logger.error('Pruning webhook events failed', { error: serializeError(error) });
+  }
+}
+
+/**
+ * Start the in-process worker. Events left in processing by a previous run are retried.
+ */
+export function startWorker(): void {
+  if (running) return;
+  running = true;
+
+  const recovered = db.resetProcessingWebhookEvents();
+  if (recovered > 0) {
+    logger.info('Recovered interrupted webhook events', { count: recovered });
+  }
+
+  prune();
+
+  pollTimer = setInterval(() => void drain(), config.queue.pollIntervalMs);
+  pruneTimer = setInterval(prune, PRUNE_INTERVAL_MS);
+  void drain();
+
+  logger.info('Webhook queue worker started', { pollIntervalMs: config.queue.pollIntervalMs });
+}
+
+export function stopWorker(): void {
+  running = false;
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+  if (pruneTimer) {
+    clearInterval(pruneTimer);
+    pruneTimer = undefined;
+  }
+}
@@ -0,0 +1,271 @@
+import { config, isConcordConfigured } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { CLARecord, ConcordAgreement, PRRecord, ReconciliationReport, ReconciliationTrigger } from '../types';
+import * as claService from './cla';
+import * as concordService from './concord';
+import * as db from './database';
+
+const LIST_PAGE_SIZE = 50;
+// Runs kept in the database for the admin API
+const KEPT_RUNS = 500;
+// Agreement titles listed in a report at most
+const MAX_REPORTED_UNTRACKED = 50;
+
+let timer: NodeJS.Timeout | undefined;
+let activeRun: Promise<ReconciliationReport> | undefined;
+
+/**
+ * API calls a run may still make. Every Concord call and PR re-evaluation
+ * takes one.
+ */
+interface RunBudget {
+  used: number;
+  exhausted: boolean;
+}
+
+function takeCall(budget: RunBudget): boolean {
+  if (budget.used >= config.reconciliation.maxApiCalls) {
+    budget.exhausted = true;
+    return false;
+  }
+  budget.used++;
+  return true;
+}
+
+/**
+ * Signed agreements among the CLA agreements listed in Concord, by UID
+ */
+async function listSignedAgreements(budget: RunBudget, report: ReconciliationReport): Promise<Map<string, ConcordAgreement>> {
+  const signed = new Map<string, ConcordAgreement>();
+
+  for (let page = 0; takeCall(budget); page++) {
+    const { items, total } = await concordService.listCLAAgreements(page, LIST_PAGE_SIZE);
+    report.agreementsListed += items.length;
+    for (const agreement of items) {
+      if (agreement.status === 'CURRENT_CONTRACT') {
+        signed.set(agreement.uid, agreement);
+      }
+    }
+    if (items.length < LIST_PAGE_SIZE || (page + 1) * LIST_PAGE_SIZE >= total) {
+      break;
+    }
+  }
+
+  return signed;
+}
+
+/**
+ * Mark a pending CLA as signed, unless it changed since it was read
+ */
+async function repairSignedCLA(record: CLARecord, signedAt: string): Promise<boolean> {
+  return claService.withSignerLock(record.github_user_id, async () => {
+    const current = db.findCLAByGitHubUserId(record.github_user_id);
+    if (current?.status !== 'pending' || current.concord_agreement_uid !== record.concord_agreement_uid) {
+      return false;
+    }
+    db.updateCLAStatus(record.github_user_id, 'signed', signedAt);
+    return true;
+  });
+}
+
+/**
+ * Find the pending CLAs signed in Concord whose webhook was missed, and mark
+ * them as signed. Returns the contributors whose CLA was repaired.
+ */
+async function reconcilePendingCLAs(budget: RunBudget, report: ReconciliationReport): Promise<Set<number>> {
+  const repaired = new Set<number>();
+  const signedAgreements = await listSignedAgreements(budget, report);
+
+  for (const record of db.findPendingCLAsWithAgreement('concord')) {
+    const listed = signedAgreements.get(record.concord_agreement_uid);
+    let signedAt: string | undefined;
+
+    if (listed) {
+      signedAt = listed.signatureDate ? new Date(listed.signatureDate).toISOString() : new Date().toISOString();
+    } else {
+      if (!takeCall(budget)) break;
+      try {
+        const signature = await concordService.getSignatureStatus(record.concord_agreement_uid);
+        if (signature.signatureCount >= Math.max(1, signature.signatureRequired)) {
+          signedAt = new Date().toISOString();
+        }
+      } catch (error) {
+        report.errors++;
+        logger.warn('Could not check the signature of a pending agreement', {
+          username: record.github_username,
+          agreementUid: record.concord_agreement_uid,
+          error: serializeError(error),
+        });
+        continue;
+      }
+    }
+    report.pendingChecked++;
+
+    if (signedAt && await repairSignedCLA(record, signedAt)) {
+      logger.warn('Signed agreement was still pending in the database, repaired', {
+        username: record.github_username,
+        agreementUid: record.concord_agreement_uid,
+      });
+      repaired.add(record.github_user_id);
+      report.signedRepaired.push(record.github_username);
+      await claService.reopenExpiredPRs(record.github_user_id);
+    }
+  }
+
+  for (const agreement of signedAgreements.values()) {
+    if (!db.findCLAByAgreementUid(agreement.uid) && !db.findCorporateCLAByAgreementUid(agreement.uid)) {
+      report.untrackedSigned.push(agreement.title);
+    }
+  }
+
+  return repaired;
+}
+
+/**
+ * Re-evaluate every open PR, those of repaired contributors first
+ */
+async function reevaluateOpenPRs(budget: RunBudget, report: ReconciliationReport, repaired: Set<number>): Promise<void> {
+  const openPRs = db.findOpenPullRequests();
+  const repairedPRs = new Set(
+    Array.from(repaired).flatMap((userId) => db.findOpenPRRecordsByGitHubUserId(userId))
+      .map((prRecord) => `${prRecord.repo_full_name}#${prRecord.pr_number}`)
+  );
+  const isRepaired = (prRecord: PRRecord) => repairedPRs.has(`${prRecord.repo_full_name}#${prRecord.pr_number}`);
+  const ordered = [...openPRs.filter(isRepaired), ...openPRs.filter((prRecord) => !isRepaired(prRecord))];
+
+  for (const prRecord of ordered) {
+    if (!takeCall(budget)) break;
+    try {
+      const outcome = await claService.updatePRAfterCLAChange(prRecord, prRecord.github_username);
+      if (outcome === 'evaluated') {
+        report.prsReevaluated++;
+      } else if (outcome === 'closed') {
+        report.prsClosed++;
+      } else {
+        report.errors++;
+      }
+    } catch (error) {
+      report.errors++;
+      logger.error('Failed to re-evaluate PR during reconciliation', {
+        repoFullName: prRecord.repo_full_name,
+        prNumber: prRecord.pr_number,
+        error: serializeError(error),
+      });
+    }
+  }
+}
+
+async function reconcile(trigger: ReconciliationTrigger, actor?: string): Promise<ReconciliationReport> {
+  const report: ReconciliationReport = {
+    trigger,
+    actor,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    apiCalls: 0,
+    budgetExhausted: false,
+    agreementsListed: 0,
+    pendingChecked: 0,
+    signedRepaired: [],
+    untrackedSigned: [],
+    prsReevaluated: 0,
+    prsClosed: 0,
+    errors: 0,
+  };
+  const budget: RunBudget = { used: 0, exhausted: false };
+
+  let repaired = new Set<number>();
+  if (isConcordConfigured()) {
+    try {
+      repaired = await reconcilePendingCLAs(budget, report);
+    } catch (error) {
+      report.errors++;
+      logger.error('Could not reconcile pending CLAs with Concord', { error: serializeError(error) });
+    }
+  }
+  await reevaluateOpenPRs(budget, report, repaired);
+
+  const untrackedSigned = report.untrackedSigned.length;
+  const driftFixed = report.signedRepaired.length + report.prsClosed;
+  const driftFound = driftFixed + untrackedSigned;
+
+  report.finishedAt = new Date().toISOString();
+  report.apiCalls = budget.used;
+  report.budgetExhausted = budget.exhausted;
+  report.untrackedSigned = report.untrackedSigned.slice(0, MAX_REPORTED_UNTRACKED);
+  db.addReconciliationRun({
+    triggered_by: trigger,
+    actor,
+    started_at: report.startedAt,
+    finished_at: report.finishedAt,
+    drift_found: driftFound,
+    drift_fixed: driftFixed,
+    api_calls: report.apiCalls,
+    report: JSON.stringify(report),
+  });
+  db.pruneReconciliationRuns(KEPT_RUNS);
+
+  const summary = {
+    trigger,
+    driftFound,
+    driftFixed,
+    signedRepaired: report.signedRepaired,
+    untrackedSigned,
+    prsClosed: report.prsClosed,
+    prsReevaluated: report.prsReevaluated,
+    apiCalls: report.apiCalls,
+    budgetExhausted: report.budgetExhausted,
+    errors: report.errors,
+  };
+  if (driftFound > 0) {
+    logger.warn('Reconciliation found drift', summary);
+  } else {
+    logger.info('Reconciliation finished without drift', summary);
+  }
+
+  return report;
+}
+
+/**
+ * Reconcile pending CLAs with Concord, then re-evaluate the open PRs. A run
+ * started while another one is in progress waits for it instead.
+ */
+export function runReconciliation(trigger: ReconciliationTrigger, actor?: string): Promise<ReconciliationReport> {
+  if (!activeRun) {
+    activeRun = reconcile(trigger, actor).finally(() => {
+      activeRun = undefined;
+    });
+  }
+  return activeRun;
+}
+
+export function isReconciliationRunning(): boolean {
+  return activeRun !== undefined;
+}
+
+/**
+ * Run the reconciliation every RECONCILIATION_INTERVAL_MINUTES
+ */
+export function startScheduler(): void {
+  if (timer) return;
+
+  const { intervalMinutes, maxApiCalls } = config.reconciliation;
+  if (intervalMinutes <= 0) {
+    logger.info('Scheduled reconciliation disabled');
+    return;
+  }
+
+  timer = setInterval(() => {
+    runReconciliation('schedule').catch((error) => {
+      logger.error('Scheduled reconciliation failed', { error: serializeError(error) });
+    });
+  }, intervalMinutes * 60 * 1000);
+
+  logger.info('Reconciliation scheduler started', { intervalMinutes, maxApiCalls });
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
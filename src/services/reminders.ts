@@ -0,0 +1,149 @@
+import { config } from '../config';
+import { logger, serializeError } from '../utils/logger';
+import { PendingCLAReminder } from '../types';
+import * as claService from './cla';
+import * as db from './database';
+
+// How often due reminders are looked for
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+/**
+ * Day of the schedule whose reminder is due for an agreement: the latest one
+ * reached and not sent yet, so that a contributor gets a single email when
+ * several were missed (e.g. while the bot was down)
+ */
+export function getDueReminderDays(pending: PendingCLAReminder): number | undefined {
+  const lastSent = pending.last_reminder_days ?? 0;
+  const due = config.reminders.days.filter((days) => days > lastSent && days <= pending.age_days);
+  return due.length > 0 ? due[due.length - 1] : undefined;
+}
+
+/**
+ * Resend the invitation of a pending agreement, unless it was signed or
+ * replaced since it was read or the reminder was already sent. Returns true if
+ * the reminder was sent.
+ */
+async function sendReminder(pending: PendingCLAReminder, days: number): Promise<boolean> {
+  return claService.withSignerLock(pending.github_user_id, async () => {
+    const record = db.findCLAByGitHubUserId(pending.github_user_id);
+    if (
+      record?.status !== 'pending'
+      || record.concord_agreement_uid !== pending.concord_agreement_uid
+      || !record.github_email
+      // Replaced by an agreement for the current version on the next evaluation
+      || claService.getResignVersion(record.cla_version)
+    ) {
+      return false;
+    }
+
+    const reminder = { agreement_uid: record.concord_agreement_uid, github_user_id: record.github_user_id, days };
+    if (!db.claimCLAReminder(reminder)) {
+      return false;
+    }
+
+    try {
+      await claService.resendPendingInvitation(record);
+    } catch (error) {
+      db.releaseCLAReminder(reminder.agreement_uid, days);
+      throw error;
+    }
+    return true;
+  });
+}
+
+/**
+ * Note the reminder in the history of the bot comment of the contributor's open
+ * PRs, and re-render the comments
+ */
+async function notePullRequests(pending: PendingCLAReminder, days: number): Promise<void> {
+  for (const prRecord of db.findOpenPRRecordsByGitHubUserId(pending.github_user_id)) {
+    db.addPRHistoryEntry(
+      prRecord.repo_full_name,
+      prRecord.pr_number,
+      `Reminder sent to @${pending.github_username} to sign the CLA (${days} days after the invitation)`
+    );
+    try {
+      await claService.updatePRAfterCLAChange(prRecord, pending.github_username);
+    } catch (error) {
+      logger.warn('Could not update PR after CLA reminder', {
+        repoFullName: prRecord.repo_full_name,
+        prNumber: prRecord.pr_number,
+        error: serializeError(error),
+      });
+    }
+  }
+}
+
+/**
+ * Remind the contributors whose agreement is still unsigned, following the
+ * CLA_REMINDER_DAYS schedule. Contributors without an open PR are not reminded.
+ * Returns how many reminders were sent.
+ */
+export async function sendDueReminders(): Promise<number> {
+  if (running) return 0;
+  running = true;
+
+  let sent = 0;
+  try {
+    // Only Concord emails invitations
+    for (const pending of db.findPendingCLAReminders('concord')) {
+      const days = getDueReminderDays(pending);
+      if (!days || db.findOpenPRRecordsByGitHubUserId(pending.github_user_id).length === 0) {
+        continue;
+      }
+
+      try {
+        if (!await sendReminder(pending, days)) continue;
+      } catch (error) {
+        logger.error('Failed to send CLA reminder', {
+          username: pending.github_username,
+          agreementUid: pending.concord_agreement_uid,
+          error: serializeError(error),
+        });
+        continue;
+      }
+
+      logger.info('CLA reminder sent', {
+        username: pending.github_username,
+        agreementUid: pending.concord_agreement_uid,
+        days,
+      });
+      sent++;
+      await notePullRequests(pending, days);
+    }
+  } finally {
+    running = false;
+  }
+
+  return sent;
+}
+
+/**
+ * Look for due reminders every hour
+ */
+export function startScheduler(): void {
+  if (timer) return;
+
+  if (config.reminders.days.length === 0) {
+    logger.info('CLA reminders disabled');
+    return;
+  }
+
+  timer = setInterval(() => {
+    sendDueReminders().catch((error) => {
+      logger.error('Sending CLA reminders failed', { error: serializeError(error) });
+    });
+  }, CHECK_INTERVAL_MS);
+
+  logger.info('CLA reminder scheduler started', { days: config.reminders.days });
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
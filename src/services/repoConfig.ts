@@ -0,0 +1,313 @@
+import { Octokit } from '@octokit/rest';
+import { parse as parseYaml } from 'yaml';
+import { config, LANGUAGE_PATTERN } from '../config';
+import { logger } from '../utils/logger';
+import { parseTemplate } from '../utils/template';
+import { RepoConfig } from '../types';
+import { MESSAGE_TEMPLATE_NAMES } from '../views/messages';
+
+export const REPO_CONFIG_PATH = '.github/cla.yml';
+
+// Repository holding organization-wide defaults, as for other community health files
+const ORG_CONFIG_REPO = '.github';
+
+const MAX_CACHE_ENTRIES = 500;
+
+// Days between the final warning and the closing of a PR, when auto_close does not set them
+const DEFAULT_AUTO_CLOSE_WARNING_DAYS = 7;
+
+/**
+ * Raised when a .github/cla.yml file does not match the schema
+ */
+export class RepoConfigError extends Error {
+  constructor(public readonly source: string, public readonly problems: string[]) {
+    super(`Invalid ${source}: ${problems.join('; ')}`);
+    this.name = 'RepoConfigError';
+  }
+}
+
+type CacheEntry = { config: RepoConfig } | { error: RepoConfigError } | { missing: true };
+
+// Parsed configuration files keyed by "owner/repo@sha"
+const configCache = new Map<string, CacheEntry>();
+
+/**
+ * Configuration used when no .github/cla.yml exists: the global environment settings.
+ * The agreement template comes from the current CLA version.
+ */
+export function getDefaultRepoConfig(): RepoConfig {
+  return {
+    exempt: { users: [], teams: [] },
+    label: { ...config.claLabel },
+    ignoredBranches: [],
+    drafts: 'check',
+    concord: {},
+    language: config.cla.language,
+    templates: {},
+  };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.trim().length > 0);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], path: string, problems: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      problems.push(`unknown key "${path}${key}"`);
+    }
+  }
+}
+
+/**
+ * Parse and validate the content of a .github/cla.yml file.
+ * Values that are not set fall back to the global configuration.
+ */
+export function parseRepoConfig(content: string, source: string): RepoConfig {
+  let raw: unknown;
+  try {
+    raw = parseYaml(content);
+  } catch (error) {
+    throw new RepoConfigError(source, [`YAML syntax error: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  const repoConfig = getDefaultRepoConfig();
+  repoConfig.source = source;
+
+  // An empty file is a valid configuration
+  if (raw === null || raw === undefined) {
+    return repoConfig;
+  }
+
+  const problems: string[] = [];
+  if (!isObject(raw)) {
+    throw new RepoConfigError(source, ['the file must contain a mapping']);
+  }
+
+  checkKeys(raw, ['exempt', 'label', 'ignored_branches', 'drafts', 'concord', 'language', 'templates', 'auto_close'], '', problems);
+
+  if (raw.exempt !== undefined) {
+    if (!isObject(raw.exempt)) {
+      problems.push('"exempt" must be a mapping with "users" and/or "teams"');
+    } else {
+      checkKeys(raw.exempt, ['users', 'teams'], 'exempt.', problems);
+      if (raw.exempt.users !== undefined) {
+        if (isStringList(raw.exempt.users)) repoConfig.exempt.users = raw.exempt.users.map((u) => u.trim().toLowerCase());
+        else problems.push('"exempt.users" must be a list of GitHub usernames');
+      }
+      if (raw.exempt.teams !== undefined) {
+        if (isStringList(raw.exempt.teams)) repoConfig.exempt.teams = raw.exempt.teams.map((t) => t.trim());
+        else problems.push('"exempt.teams" must be a list of team slugs');
+      }
+    }
+  }
+
+  if (raw.label !== undefined) {
+    if (typeof raw.label === 'string' && raw.label.trim()) {
+      repoConfig.label.name = raw.label.trim();
+    } else if (isObject(raw.label)) {
+      checkKeys(raw.label, ['name', 'color', 'description'], 'label.', problems);
+      if (raw.label.name !== undefined) {
+        if (typeof raw.label.name === 'string' && raw.label.name.trim()) repoConfig.label.name = raw.label.name.trim();
+        else problems.push('"label.name" must be a non-empty string');
+      }
+      if (raw.label.color !== undefined) {
+        const color = String(raw.label.color).replace(/^#/, '');
+        if (/^[0-9a-f]{6}$/i.test(color)) repoConfig.label.color = color;
+        else problems.push('"label.color" must be a 6-digit hex color');
+      }
+      if (raw.label.description !== undefined) {
+        if (typeof raw.label.description === 'string') repoConfig.label.description = raw.label.description;
+        else problems.push('"label.description" must be a string');
+      }
+    } else {
+      problems.push('"label" must be a label name or a mapping with "name", "color" and "description"');
+    }
+  }
+
+  if (raw.ignored_branches !== undefined) {
+    if (isStringList(raw.ignored_branches)) repoConfig.ignoredBranches = raw.ignored_branches;
+    else problems.push('"ignored_branches" must be a list of branch names or glob patterns');
+  }
+
+  if (raw.drafts !== undefined) {
+    if (raw.drafts === 'check' || raw.drafts === 'skip') repoConfig.drafts = raw.drafts;
+    else problems.push('"drafts" must be "check" or "skip"');
+  }
+
+  if (raw.concord !== undefined) {
+    if (!isObject(raw.concord)) {
+      problems.push('"concord" must be a mapping');
+    } else {
+      checkKeys(raw.concord, ['template_id'], 'concord.', problems);
+      if (raw.concord.template_id !== undefined) {
+        if (typeof raw.concord.template_id === 'string' && raw.concord.template_id.trim()) {
+          repoConfig.concord.templateId = raw.concord.template_id.trim();
+        } else {
+          problems.push('"concord.template_id" must be a non-empty string');
+        }
+      }
+    }
+  }
+
+  if (raw.language !== undefined) {
+    if (typeof raw.language === 'string' && LANGUAGE_PATTERN.test(raw.language.trim())) repoConfig.language = raw.language.trim();
+    else problems.push('"language" must be a language code such as "en" or "fr"');
+  }
+
+  if (raw.templates !== undefined) {
+    if (!isObject(raw.templates)) {
+      problems.push('"templates" must be a mapping of template names to templates');
+    } else {
+      checkKeys(raw.templates, MESSAGE_TEMPLATE_NAMES, 'templates.', problems);
+      for (const name of MESSAGE_TEMPLATE_NAMES) {
+        const template = raw.templates[name];
+        if (template === undefined) continue;
+        if (typeof template !== 'string') {
+          problems.push(`"templates.${name}" must be a string`);
+          continue;
+        }
+        try {
+          parseTemplate(template);
+          repoConfig.templates[name] = template;
+        } catch (error) {
+          problems.push(`"templates.${name}" is not a valid template: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+  }
+
+  if (raw.auto_close !== undefined) {
+    if (!isObject(raw.auto_close)) {
+      problems.push('"auto_close" must be a mapping with "days" and optionally "warning_days"');
+    } else {
+      checkKeys(raw.auto_close, ['days', 'warning_days'], 'auto_close.', problems);
+      const { days } = raw.auto_close;
+      const warningDays = raw.auto_close.warning_days ?? (isPositiveInteger(days) ? Math.min(DEFAULT_AUTO_CLOSE_WARNING_DAYS, days - 1) : 0);
+      if (!isPositiveInteger(days) || days < 2) {
+        problems.push('"auto_close.days" must be a number of days, at least 2');
+      } else if (!isPositiveInteger(warningDays) || warningDays >= days) {
+        problems.push('"auto_close.warning_days" must be a number of days lower than "auto_close.days"');
+      } else {
+        repoConfig.autoClose = { days, warningDays };
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new RepoConfigError(source, problems);
+  }
+
+  return repoConfig;
+}
+
+function cacheSet(key: string, entry: CacheEntry): void {
+  if (configCache.size >= MAX_CACHE_ENTRIES) {
+    // Maps iterate in insertion order: drop the oldest entry
+    const oldest = configCache.keys().next().value;
+    if (oldest !== undefined) configCache.delete(oldest);
+  }
+  configCache.set(key, entry);
+}
+
+/**
+ * SHA of the default branch head, or null if the repository is not accessible
+ */
+async function getDefaultBranchSha(octokit: Octokit, owner: string, repo: string): Promise<string | null> {
+  try {
+    const { data } = await octokit.repos.getCommit({
+      owner,
+      repo,
+      ref: 'HEAD',
+      mediaType: { format: 'sha' },
+    });
+    return data as unknown as string;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the configuration file of a repository at its default branch head.
+ * Results (including missing files and schema errors) are cached per commit SHA.
+ */
+async function loadConfigFile(octokit: Octokit, owner: string, repo: string): Promise<CacheEntry> {
+  const sha = await getDefaultBranchSha(octokit, owner, repo);
+  if (!sha) {
+    return { missing: true };
+  }
+
+  const cacheKey = `${owner}/${repo}@${sha}`;
+  const cached = configCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const source = `${owner}/${repo}/${REPO_CONFIG_PATH}`;
+  let entry: CacheEntry;
+
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path: REPO_CONFIG_PATH, ref: sha });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      throw new RepoConfigError(source, [`${REPO_CONFIG_PATH} must be a file`]);
+    }
+
+    const content = Buffer.from(data.content, 'base64').toString('utf-8');
+    entry = { config: parseRepoConfig(content, source) };
+    logger.debug('Loaded repository CLA configuration', { source, sha });
+  } catch (error) {
+    if (error instanceof RepoConfigError) {
+      entry = { error };
+    } else if ((error as { status?: number }).status === 404) {
+      entry = { missing: true };
+    } else {
+      throw error;
+    }
+  }
+
+  cacheSet(cacheKey, entry);
+  return entry;
+}
+
+/**
+ * Get the CLA configuration of a repository: its own .github/cla.yml, else the
+ * organization's .github repository, else the global defaults.
+ * Throws a RepoConfigError if the file in use is invalid.
+ */
+export async function getRepoConfig(octokit: Octokit, owner: string, repo: string): Promise<RepoConfig> {
+  let entry = await loadConfigFile(octokit, owner, repo);
+
+  if ('missing' in entry && repo !== ORG_CONFIG_REPO) {
+    entry = await loadConfigFile(octokit, owner, ORG_CONFIG_REPO);
+  }
+
+  if ('error' in entry) {
+    throw entry.error;
+  }
+  if ('config' in entry) {
+    return entry.config;
+  }
+  return getDefaultRepoConfig();
+}
+
+/**
+ * Whether a branch matches one of the configured patterns ("*" matches within
+ * a path segment, "**" across segments)
+ */
+export function isBranchIgnored(repoConfig: RepoConfig, branch: string): boolean {
+  return repoConfig.ignoredBranches.some((pattern) => {
+    const regex = pattern
+      .split('**')
+      .map((part) => part.split('*').map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+      .join('.*');
+    return new RegExp(`^${regex}$`).test(branch);
+  });
+}
@@ -0,0 +1,95 @@
+import { config } from '../config';
+import { CLASignatureSource, SignatureProvider, SignatureProviderName } from '../types';
+import * as concordService from './concord';
+import { clickthroughProvider } from './clickthrough';
+
+/**
+ * Agreements signed in Concord, which emails the invitation
+ */
+export const concordProvider: SignatureProvider = {
+  name: 'concord',
+  sendsInvitations: true,
+
+  createAgreement(request) {
+    return concordService.createAgreementFromTemplate(
+      request.email,
+      request.name,
+      request.username,
+      request.message,
+      request.templateId,
+    );
+  },
+
+  getSigningUrl(agreementUid) {
+    return concordService.createSharedLink(agreementUid);
+  },
+
+  async agreementExists(agreementUid) {
+    try {
+      await concordService.getAgreement(agreementUid);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  resendInvitation(agreementUid, request) {
+    return concordService.resendCLAInvitation(agreementUid, request.email, request.username, request.message);
+  },
+
+  isAgreementSigned(agreementUid) {
+    return concordService.verifyAgreementSigned(agreementUid);
+  },
+
+  cancelAgreement(agreementUid) {
+    return concordService.cancelAgreement(agreementUid);
+  },
+
+  async findSignedAgreement(githubUsername) {
+    // Source of truth is the username, not the email which can change
+    const agreement = await concordService.findExistingCLA(githubUsername);
+    if (!agreement || agreement.status !== 'CURRENT_CONTRACT') {
+      return null;
+    }
+    return {
+      agreementUid: agreement.uid,
+      signedAt: agreement.signatureDate ? new Date(agreement.signatureDate).toISOString() : undefined,
+    };
+  },
+};
+
+/**
+ * Whether contributors can sign on the bot's page: it needs the app's OAuth
+ * credentials and a session secret
+ */
+export function isSigningPageEnabled(): boolean {
+  return Boolean(config.github.clientId && config.github.clientSecret && config.admin.sessionSecret);
+}
+
+/**
+ * Signing page of a contributor, which only opens once they signed in to GitHub
+ * with that account
+ */
+export function getSigningPageUrl(githubUserId: number): string {
+  return `${config.publicUrl.replace(/\/$/, '')}/sign?user=${githubUserId}`;
+}
+
+const providers: Record<SignatureProviderName, SignatureProvider> = {
+  concord: concordProvider,
+  clickthrough: clickthroughProvider,
+};
+
+/**
+ * Provider new agreements are created with (CLA_SIGNATURE_PROVIDER)
+ */
+export function getSignatureProvider(): SignatureProvider {
+  return providers[config.cla.signatureProvider];
+}
+
+/**
+ * Provider an existing agreement was created with, the current one for
+ * manual signatures
+ */
+export function getAgreementProvider(source: CLASignatureSource | undefined): SignatureProvider {
+  return source && source !== 'manual' ? providers[source] : getSignatureProvider();
+}
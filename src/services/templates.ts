@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { renderTemplate, TemplateError, TemplateView } from '../utils/template';
+import { EmailMessage, MessageTemplateName, RepoConfig } from '../types';
+import { DEFAULT_MESSAGES } from '../views/messages';
+
+// Content of template files by path, null when the file does not exist
+const fileCache = new Map<string, string | null>();
+
+function readTemplateFile(language: string, name: MessageTemplateName): string | undefined {
+  if (!config.cla.templatesPath) {
+    return undefined;
+  }
+
+  const file = path.join(config.cla.templatesPath, language, `${name}.mustache`);
+  if (!fileCache.has(file)) {
+    fileCache.set(file, fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null);
+  }
+  return fileCache.get(file) ?? undefined;
+}
+
+/**
+ * Templates to try for a message, most specific first: the repository's
+ * .github/cla.yml, then for its language and the default one, the template
+ * file and the built-in template
+ */
+function getTemplateCandidates(name: MessageTemplateName, repoConfig?: RepoConfig): Array<{ template: string; source: string }> {
+  const candidates: Array<{ template: string; source: string }> = [];
+
+  const inline = repoConfig?.templates[name];
+  if (inline !== undefined) {
+    candidates.push({ template: inline, source: `${repoConfig?.source ?? 'repository configuration'} (templates.${name})` });
+  }
+
+  const languages = new Set([repoConfig?.language ?? config.cla.language, config.cla.language, 'en']);
+  for (const language of languages) {
+    const file = readTemplateFile(language, name);
+    if (file !== undefined) {
+      candidates.push({ template: file, source: path.join(language, `${name}.mustache`) });
+    }
+    const builtIn = DEFAULT_MESSAGES[language]?.[name];
+    if (builtIn !== undefined) {
+      candidates.push({ template: builtIn, source: `built-in ${language}/${name}` });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Render a message in the language of the repository. A broken custom
+ * template is logged and skipped in favor of the next candidate.
+ * `{{name}}` values are HTML-escaped unless `plainText` is set.
+ */
+export function renderMessage(
+  name: MessageTemplateName,
+  view: TemplateView,
+  repoConfig?: RepoConfig,
+  plainText = false
+): string {
+  const fullView = { organization: config.cla.organizationName, ...view };
+  const escape = plainText ? (value: string) => value : undefined;
+
+  for (const { template, source } of getTemplateCandidates(name, repoConfig)) {
+    try {
+      return renderTemplate(template, fullView, escape);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      logger.error('Invalid message template, falling back', { name, source, error: error.message });
+    }
+  }
+
+  throw new Error(`No usable template for message "${name}"`);
+}
+
+/**
+ * Subject and content of the email inviting a contributor to sign the CLA
+ */
+export function renderInvitationEmail(
+  repoConfig: RepoConfig | undefined,
+  view: { name: string; username: string; email: string; repo?: string; claVersion?: string }
+): EmailMessage {
+  const fullView = {
+    name: view.name,
+    username: view.username,
+    email: view.email,
+    repo: view.repo,
+    cla_version: view.claVersion,
+    date: new Date().toISOString().split('T')[0],
+  };
+
+  return {
+    subject: renderMessage('invitation_subject', fullView, repoConfig, true).trim(),
+    content: renderMessage('invitation_body', fullView, repoConfig, true),
+  };
+}
+
+/**
+ * Subject and content of the email inviting a company's signatory to sign the
+ * corporate CLA, in the default language
+ */
+export function renderCorporateInvitationEmail(view: { signerName: string; signerEmail: string; company: string }): EmailMessage {
+  const fullView = {
+    signer_name: view.signerName,
+    signer_email: view.signerEmail,
+    company: view.company,
+    date: new Date().toISOString().split('T')[0],
+  };
+
+  return {
+    subject: renderMessage('corporate_invitation_subject', fullView, undefined, true).trim(),
+    content: renderMessage('corporate_invitation_body', fullView, undefined, true),
+  };
+}
@@ -10,6 +10,11 @@ export interface PullRequest {
   number: number;
   title: string;
   html_url: string;
+  state: 'open' | 'closed';
+  draft?: boolean;
+  merged?: boolean;
+  merged_at?: string | null;
+  closed_at?: string | null;
   user: GitHubUser;
   head: {
     sha: string;
@@ -50,8 +55,15 @@ export interface IssueCommentWebhookPayload {
   comment: {
     id: number;
     body: string;
+    html_url: string;
     user: GitHubUser;
   };
+  // Set on "edited", with the body before the edit
+  changes?: {
+    body?: {
+      from: string;
+    };
+  };
   issue: {
     number: number;
     pull_request?: {
@@ -73,6 +85,125 @@ export interface IssueCommentWebhookPayload {
   };
 }
 
+export interface CheckRunWebhookPayload {
+  action: string;
+  check_run: {
+    id: number;
+    name: string;
+    head_sha: string;
+    external_id?: string | null;
+    pull_requests: Array<{ number: number }>;
+  };
+  requested_action?: {
+    identifier: string;
+  };
+  repository: {
+    id: number;
+    name: string;
+    full_name: string;
+    owner: {
+      login: string;
+    };
+  };
+  sender: GitHubUser;
+  installation?: {
+    id: number;
+  };
+}
+
+export interface InstallationRepository {
+  id: number;
+  name: string;
+  full_name: string;
+}
+
+export interface InstallationWebhookPayload {
+  action: string;
+  installation: {
+    id: number;
+    account: {
+      login: string;
+    };
+  };
+  // Only set on "created" when the app is installed on selected repositories
+  repositories?: InstallationRepository[];
+  sender: GitHubUser;
+}
+
+export interface InstallationRepositoriesWebhookPayload {
+  action: string;
+  installation: {
+    id: number;
+    account: {
+      login: string;
+    };
+  };
+  repository_selection: 'all' | 'selected';
+  repositories_added: InstallationRepository[];
+  repositories_removed: InstallationRepository[];
+  sender: GitHubUser;
+}
+
+// Repository Configuration Types (.github/cla.yml)
+export interface CLALabel {
+  name: string;
+  color: string;
+  description: string;
+}
+
+export type DraftHandling = 'check' | 'skip';
+
+export interface RepoConfig {
+  exempt: {
+    users: string[];
+    // Team slugs, optionally prefixed with the org ("org/team")
+    teams: string[];
+  };
+  label: CLALabel;
+  // Base branches (glob patterns) on which the CLA is not enforced
+  ignoredBranches: string[];
+  // 'skip' waits until the PR is marked ready for review
+  drafts: DraftHandling;
+  concord: {
+    // Overrides the template of the current CLA version
+    templateId?: string;
+  };
+  // Language of comments and emails, e.g. "fr"
+  language: string;
+  // Templates overriding the files and built-in messages
+  templates: Partial<Record<MessageTemplateName, string>>;
+  // Close PRs whose CLA is still unsigned after `days`, with a final warning
+  // `warningDays` before; disabled when not set
+  autoClose?: {
+    days: number;
+    warningDays: number;
+  };
+  // Where the configuration was loaded from, e.g. "FiligranHQ/.github/.github/cla.yml"
+  source?: string;
+}
+
+// Comment and email templates, see src/views/messages.ts for their variables
+export type MessageTemplateName =
+  | 'comment_pending'
+  | 'comment_signed'
+  | 'comment_not_required'
+  | 'comment_overridden'
+  | 'comment_config_error'
+  | 'comment_skipped'
+  | 'comment_signer_state'
+  | 'comment_history'
+  | 'comment_expiry_warning'
+  | 'comment_expired'
+  | 'invitation_subject'
+  | 'invitation_body'
+  | 'corporate_invitation_subject'
+  | 'corporate_invitation_body';
+
+export interface EmailMessage {
+  subject: string;
+  content: string;
+}
+
 // Concord Types
 export interface ConcordAgreement {
   uid: string;
@@ -141,12 +272,166 @@ export interface CLARecord {
   github_email?: string;
   concord_agreement_uid: string;
   signed_at?: string;
+  // CLA version the agreement was created for
+  cla_version?: string;
+  // Version of the signed agreement this one replaces, when asked to sign again
+  previous_cla_version?: string;
+  // Provider the agreement was created with, or 'manual' for paper CLAs
+  // recorded by an admin, with their reference and stored document
+  signature_source?: CLASignatureSource;
+  signature_reference?: string;
+  signature_document?: string;
   created_at: string;
   updated_at: string;
   status: CLAStatus;
 }
 
-export type CLAStatus = 'pending' | 'signed' | 'expired' | 'cancelled';
+// 'creating' is a claim held while the agreement is being created in Concord.
+// 'superseded' is an agreement for a CLA version that has to be signed again.
+export type CLAStatus = 'creating' | 'pending' | 'signed' | 'expired' | 'cancelled' | 'superseded';
+
+export type CLASignatureSource = SignatureProviderName | 'manual';
+
+export type SignatureProviderName = 'concord' | 'clickthrough';
+
+export type ClickthroughSignatureMethod = 'comment' | 'web';
+
+// Proof that a contributor accepted a click-through agreement
+export interface SignatureEvidenceRecord {
+  id?: number;
+  agreement_uid: string;
+  github_username: string;
+  github_user_id: number;
+  cla_version?: string;
+  method: ClickthroughSignatureMethod;
+  // SHA-256 of the agreement text that was accepted
+  text_hash: string;
+  // Unknown when signed with a PR comment, which arrives through GitHub
+  ip_address?: string;
+  user_agent?: string;
+  // Comment containing the agreement phrase
+  source_url?: string;
+  signed_at: string;
+}
+
+// Trail of actions taken by admins and maintainers outside the normal flow
+export interface AuditLogRecord {
+  id?: number;
+  // "@login" of a GitHub user, or "admin-token"
+  actor: string;
+  action: string;
+  // What the action applies to, e.g. "user:octocat" or "pr:owner/repo#12"
+  subject: string;
+  details?: string;
+  created_at: string;
+}
+
+// PR let through by a maintainer without every contributor having signed
+export interface PROverrideRecord {
+  repo_full_name: string;
+  pr_number: number;
+  actor: string;
+  reason: string;
+  created_at: string;
+}
+
+// Contributor a maintainer exempted from the CLA on a single PR
+export interface PRExemptionRecord {
+  repo_full_name: string;
+  pr_number: number;
+  // Lowercase GitHub username
+  github_username: string;
+  actor: string;
+  created_at: string;
+}
+
+// PR warned, then closed, because its CLA stayed unsigned (auto_close in .github/cla.yml)
+export interface PRExpirationRecord {
+  repo_full_name: string;
+  pr_number: number;
+  warned_at: string | null;
+  closed_at: string | null;
+}
+
+// Open PR with the days since it was first blocked and since its final warning
+export interface ExpiringPRRecord extends PRRecord {
+  age_days: number;
+  warned_days: number | null;
+}
+
+// Reminder sent for a pending agreement, at most one per day of the schedule
+export interface CLAReminderRecord {
+  agreement_uid: string;
+  github_user_id: number;
+  days: number;
+  sent_at: string;
+}
+
+// Pending CLA with the age of its agreement and the last reminder sent for it
+export interface PendingCLAReminder extends CLARecord {
+  age_days: number;
+  last_reminder_days: number | null;
+}
+
+// Event shown in the history section of the bot comment on a PR
+export interface PRHistoryRecord {
+  id?: number;
+  repo_full_name: string;
+  pr_number: number;
+  message: string;
+  created_at: string;
+}
+
+// Number of pending CLAs by how long they have been waiting for a signature
+export interface PendingCLAFunnel {
+  total: number;
+  underOneDay: number;
+  oneToSevenDays: number;
+  sevenToThirtyDays: number;
+  overThirtyDays: number;
+  oldestCreatedAt?: string;
+}
+
+// Whether signatures of earlier versions stay valid once a version takes effect
+export type CLAResignPolicy = 'keep' | 'resign';
+
+export interface CLAVersionRecord {
+  id?: number;
+  version: string;
+  template_id: string;
+  effective_date: string;
+  resign_policy: CLAResignPolicy;
+  // Summary of the changes, shown to contributors asked to sign again
+  notes?: string;
+  created_at: string;
+}
+
+// Corporate CLA (CCLA): signed once by a company, covering an allowlist of
+// GitHub users and email domains
+export interface CorporateCLARecord {
+  id?: number;
+  // Set when the CCLA is requested, else taken from the signer's Concord organization
+  company_name?: string;
+  concord_agreement_uid: string;
+  signer_email: string;
+  signer_name?: string;
+  status: Exclude<CLAStatus, 'creating'>;
+  signed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CorporateCLAMemberType = 'user' | 'domain';
+
+export interface CorporateCLAMemberRecord {
+  id?: number;
+  corporate_cla_id: number;
+  member_type: CorporateCLAMemberType;
+  // GitHub username or email domain, lowercased
+  value: string;
+  added_by?: string;
+  created_at: string;
+}
 
 export interface PRRecord {
   id?: number;
@@ -154,12 +439,60 @@ export interface PRRecord {
   pr_number: number;
   github_username: string;
   github_user_id: number;
+  installation_id?: number;
+  // Corporate CLA covering the contributor, if any
+  corporate_cla_id?: number;
   comment_id?: number;
   concord_agreement_uid?: string;
+  pr_state?: PRState;
+  closed_at?: string;
+  merged_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PRState = 'open' | 'closed' | 'merged';
+
+export interface RepoInstallationRecord {
+  repo_full_name: string;
+  installation_id: number;
+  updated_at: string;
+}
+
+export type WebhookSource = 'github' | 'concord';
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'done' | 'dead';
+
+export interface WebhookEventRecord {
+  id?: number;
+  source: WebhookSource;
+  event_type: string;
+  // X-GitHub-Delivery header or Concord event_id, used for deduplication
+  delivery_id: string;
+  payload: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type ReconciliationTrigger = 'schedule' | 'admin';
+
+export interface ReconciliationRunRecord {
+  id?: number;
+  triggered_by: ReconciliationTrigger;
+  actor?: string;
+  started_at: string;
+  finished_at: string;
+  drift_found: number;
+  drift_fixed: number;
+  api_calls: number;
+  // ReconciliationReport as JSON
+  report: string;
+}
+
 // Service Types
 export interface CLACheckResult {
   hasSigned: boolean;
@@ -169,3 +502,121 @@ export interface CLACheckResult {
 export interface CreateAgreementResult {
   agreementUid: string;
 }
+
+// Contributor and CLA an agreement is created for
+export interface SignatureRequest {
+  email: string;
+  name: string;
+  username: string;
+  githubUserId: number;
+  // Invitation email, for providers that send one
+  message: EmailMessage;
+  templateId: string;
+  claVersion?: string;
+}
+
+// Why a pending agreement was cancelled: replaced by one sent to another email,
+// never signed by a contributor without open PRs, or revoked by an admin
+export type AgreementCancellationReason = 'superseded' | 'abandoned' | 'revoked';
+
+/**
+ * Service where contributors sign their agreement. Agreement UIDs are stored
+ * in the `concord_agreement_uid` columns whatever the provider.
+ */
+export interface SignatureProvider {
+  name: SignatureProviderName;
+  // Whether the provider emails signing invitations, which `/cla resend` sends again
+  sendsInvitations: boolean;
+  createAgreement(request: SignatureRequest): Promise<CreateAgreementResult>;
+  // Throws if the provider cannot link to the agreement
+  getSigningUrl(agreementUid: string): Promise<string>;
+  // Whether the agreement still exists and can be signed or resent
+  agreementExists(agreementUid: string): Promise<boolean>;
+  resendInvitation(agreementUid: string, request: SignatureRequest): Promise<void>;
+  isAgreementSigned(agreementUid: string): Promise<boolean>;
+  // Withdraw a pending agreement so it can no longer be signed
+  cancelAgreement(agreementUid: string): Promise<void>;
+  // Signed agreement of a contributor the database does not know about
+  findSignedAgreement(githubUsername: string, githubUserId: number): Promise<{ agreementUid: string; signedAt?: string } | null>;
+}
+
+/**
+ * What the bot comment on a PR shows. It is re-rendered from the current
+ * state on every evaluation instead of posting new comments.
+ */
+export type CLACommentState =
+  | { kind: 'pending'; results: CLASignerResult[] }
+  | { kind: 'signed'; results: CLASignerResult[] }
+  | { kind: 'overridden'; override: PROverrideRecord }
+  | { kind: 'config_error'; source: string; problems: string[] }
+  // Not evaluated, e.g. on an ignored base branch
+  | { kind: 'skipped'; reason: string };
+
+export interface CLAEvaluation {
+  results: CLASignerResult[];
+  satisfied: boolean;
+  // Set when the PR was not evaluated (ignored branch, draft, invalid configuration)
+  skippedReason?: string;
+}
+
+/**
+ * How a person is involved in a pull request. Everyone with at least one
+ * role must be covered by a CLA before the PR can be merged.
+ */
+export type CLASignerRole = 'pr_author' | 'commit_author' | 'committer' | 'co_author';
+
+/**
+ * A person who must sign the CLA for a pull request.
+ * Signers resolved from a bare commit email may not be linked to a GitHub account.
+ */
+// What re-evaluating a tracked PR did: 'closed' when it turned out to be closed
+// or merged on GitHub, 'skipped' when it could not be reached
+export type PRUpdateOutcome = 'evaluated' | 'closed' | 'skipped';
+
+/**
+ * Drift between Concord, the database and GitHub found by a reconciliation run
+ */
+export interface ReconciliationReport {
+  trigger: ReconciliationTrigger;
+  actor?: string;
+  startedAt: string;
+  finishedAt: string;
+  apiCalls: number;
+  // The run stopped before the end because it used all of its API calls
+  budgetExhausted: boolean;
+  agreementsListed: number;
+  pendingChecked: number;
+  // Contributors whose pending CLA was signed in Concord, now marked as signed
+  signedRepaired: string[];
+  // Titles of signed Concord agreements the database does not know
+  untrackedSigned: string[];
+  prsReevaluated: number;
+  // Open PRs that were closed or merged on GitHub, now recorded as such
+  prsClosed: number;
+  errors: number;
+}
+
+export interface CLASigner {
+  githubUserId?: number;
+  githubUsername?: string;
+  name?: string;
+  emails: string[];
+  roles: CLASignerRole[];
+}
+
+export type CLASignerState = 'exempt' | 'signed' | 'pending' | 'unlinked' | 'error';
+
+export interface CLASignerResult {
+  signer: CLASigner;
+  state: CLASignerState;
+  reason?: string;
+  agreementUid?: string;
+  signingUrl?: string;
+  // Company whose corporate CLA covers the signer
+  company?: string;
+  // Set when a contributor who signed an earlier CLA version has to sign again
+  resign?: {
+    previousVersion: string;
+    version: CLAVersionRecord;
+  };
+}
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Forward errors of async handlers to the Express error handler
+ */
+export function asyncRoute(handler: (req: Request, res: Response) => Promise<unknown>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res).catch(next);
+  };
+}
+
+/**
+ * Cookies sent with a request
+ */
+export function parseCookies(req: Request): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index < 0) continue;
+    const name = part.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // Ignore cookies that were not set by this app
+    }
+  }
+  return cookies;
+}
@@ -1 +1,9 @@
 export { logger, serializeError } from './logger';
+export { captureRawBody, safeCompare, hmacSha256 } from './webhook';
+export type { RawBodyRequest } from './webhook';
+export { withLock } from './lock';
+export { asyncRoute, parseCookies } from './http';
+export { renderTemplate, parseTemplate, TemplateError } from './template';
+export type { TemplateView } from './template';
+export { counter, gauge, histogram, collectedHistogram, renderMetrics } from './metrics';
+export type { Counter, Histogram, MetricLabels } from './metrics';
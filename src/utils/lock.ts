@@ -0,0 +1,26 @@
+const lockTails = new Map<string, Promise<void>>();
+
+/**
+ * Run `fn` while holding an in-process lock on `key`.
+ * Callers on the same key run one after the other, in call order.
+ */
+export async function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = lockTails.get(key) ?? Promise.resolve();
+
+  let release!: () => void;
+  const current = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  lockTails.set(key, tail);
+
+  await previous;
+  try {
+    return await fn();
+  } finally {
+    release();
+    if (lockTails.get(key) === tail) {
+      lockTails.delete(key);
+    }
+  }
+}
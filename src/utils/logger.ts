@@ -43,6 +43,8 @@ const consoleFormat = winston.format.combine(
 export const logger = winston.createLogger({
   level: config.nodeEnv === 'production' ? 'info' : 'debug',
   format: logFormat,
+  // Keeps the output of `npm test` readable
+  silent: config.nodeEnv === 'test',
   transports: [
     new winston.transports.Console({
       format: config.nodeEnv === 'production' ? logFormat : consoleFormat,
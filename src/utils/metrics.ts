@@ -0,0 +1,183 @@
+/**
+ * Minimal Prometheus metrics registry, rendered in the text exposition format
+ * so that no client library or collector is needed
+ */
+
+export type MetricLabels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: MetricLabels, value: number): void;
+  /** Observe the seconds elapsed since `start` (a `process.hrtime.bigint()` value) */
+  observeSince(labels: MetricLabels, start: bigint): void;
+}
+
+interface Sample {
+  labels: MetricLabels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+const families: MetricFamily[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function register(family: MetricFamily): void {
+  if (families.some((f) => f.name === family.name)) {
+    throw new Error(`Metric ${family.name} is already registered`);
+  }
+  families.push(family);
+}
+
+function newHistogramSeries(labels: MetricLabels, buckets: number[]): HistogramSeries {
+  return { labels, bucketCounts: buckets.map(() => 0), sum: 0, count: 0 };
+}
+
+function addObservation(series: HistogramSeries, buckets: number[], value: number): void {
+  buckets.forEach((bound, i) => {
+    if (value <= bound) series.bucketCounts[i]++;
+  });
+  series.sum += value;
+  series.count++;
+}
+
+function renderHistogramSeries(name: string, series: HistogramSeries, buckets: number[]): string[] {
+  const lines = buckets.map((bound, i) =>
+    `${name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${series.bucketCounts[i]}`
+  );
+  lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+  lines.push(`${name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+  lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`);
+  return lines;
+}
+
+/**
+ * Monotonic counter, one series per set of labels
+ */
+export function counter(name: string, help: string): Counter {
+  const series = new Map<string, Sample>();
+  register({
+    name,
+    help,
+    type: 'counter',
+    render: () => [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+  });
+
+  return {
+    inc(labels = {}, value = 1) {
+      const key = seriesKey(labels);
+      const sample = series.get(key);
+      if (sample) {
+        sample.value += value;
+      } else {
+        series.set(key, { labels, value });
+      }
+    },
+  };
+}
+
+/**
+ * Gauge whose samples are read when the metrics are scraped
+ */
+export function gauge(name: string, help: string, collect: () => Sample[]): void {
+  register({
+    name,
+    help,
+    type: 'gauge',
+    render: () => collect().map((s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+  });
+}
+
+/**
+ * Histogram with the given upper bounds, one series per set of labels
+ */
+export function histogram(name: string, help: string, buckets: number[]): Histogram {
+  const series = new Map<string, HistogramSeries>();
+  register({
+    name,
+    help,
+    type: 'histogram',
+    render: () => [...series.values()].flatMap((s) => renderHistogramSeries(name, s, buckets)),
+  });
+
+  const observe = (labels: MetricLabels, value: number) => {
+    const key = seriesKey(labels);
+    let s = series.get(key);
+    if (!s) {
+      s = newHistogramSeries(labels, buckets);
+      series.set(key, s);
+    }
+    addObservation(s, buckets, value);
+  };
+
+  return {
+    observe,
+    observeSince(labels, start) {
+      observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    },
+  };
+}
+
+/**
+ * Histogram built from the values read when the metrics are scraped, for
+ * durations kept in the database rather than observed by this process
+ */
+export function collectedHistogram(name: string, help: string, buckets: number[], collect: () => number[]): void {
+  register({
+    name,
+    help,
+    type: 'histogram',
+    render: () => {
+      const series = newHistogramSeries({}, buckets);
+      for (const value of collect()) {
+        addObservation(series, buckets, value);
+      }
+      return renderHistogramSeries(name, series, buckets);
+    },
+  });
+}
+
+/**
+ * Every registered metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines = families.flatMap((family) => [
+    `# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+    `# TYPE ${family.name} ${family.type}`,
+    ...family.render(),
+  ]);
+  return `${lines.join('\n')}\n`;
+}
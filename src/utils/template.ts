@@ -0,0 +1,188 @@
+/**
+ * Minimal, logic-less Mustache-style templates for comments and emails.
+ *
+ * Supported: `{{name}}` (escaped), `{{{name}}}` and `{{& name}}` (raw),
+ * dotted names, `{{.}}`, sections `{{#name}}…{{/name}}`, inverted sections
+ * `{{^name}}…{{/name}}` and comments `{{! … }}`. Lines holding only a section
+ * or comment tag are removed, as in Mustache. Values are only looked up in own
+ * properties of plain data: templates cannot call functions or reach prototypes.
+ */
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'value'; name: string; raw: boolean }
+  | { type: 'section'; name: string; inverted: boolean; children: Token[] };
+
+export type TemplateView = Record<string, unknown>;
+
+/**
+ * Raised when a template cannot be parsed
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const TAG_PATTERN = /\{\{\{\s*([^}]*?)\s*\}\}\}|\{\{\s*([#^/!&]?)\s*([^}]*?)\s*\}\}/g;
+
+const STANDALONE_SIGILS = ['#', '^', '/', '!'];
+
+/**
+ * Parse a template, throwing a TemplateError if it is malformed
+ */
+export function parseTemplate(template: string): Token[] {
+  const root: Token[] = [];
+  const open: Array<{ section: Extract<Token, { type: 'section' }>; parent: Token[] }> = [];
+  let tokens = root;
+  let pos = 0;
+
+  const pattern = new RegExp(TAG_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(template))) {
+    const sigil = match[1] !== undefined ? '{' : match[2];
+    const name = match[1] ?? match[3];
+    let textEnd = match.index;
+    let next = pattern.lastIndex;
+
+    if (STANDALONE_SIGILS.includes(sigil)) {
+      const lineStart = template.lastIndexOf('\n', match.index - 1) + 1;
+      const lineEnd = template.indexOf('\n', next);
+      const after = template.slice(next, lineEnd === -1 ? template.length : lineEnd);
+      if (lineStart >= pos && /^[ \t]*$/.test(template.slice(lineStart, match.index)) && /^[ \t]*\r?$/.test(after)) {
+        textEnd = lineStart;
+        next = lineEnd === -1 ? template.length : lineEnd + 1;
+      }
+    }
+
+    if (textEnd > pos) {
+      tokens.push({ type: 'text', value: template.slice(pos, textEnd) });
+    }
+    pos = next;
+    pattern.lastIndex = next;
+
+    if (sigil === '!') {
+      continue;
+    }
+    if (!name) {
+      throw new TemplateError(`empty tag at position ${match.index}`);
+    }
+
+    switch (sigil) {
+      case '#':
+      case '^': {
+        const section: Extract<Token, { type: 'section' }> = { type: 'section', name, inverted: sigil === '^', children: [] };
+        tokens.push(section);
+        open.push({ section, parent: tokens });
+        tokens = section.children;
+        break;
+      }
+      case '/': {
+        const current = open.pop();
+        if (!current || current.section.name !== name) {
+          throw new TemplateError(`unexpected {{/${name}}}${current ? `, expected {{/${current.section.name}}}` : ''}`);
+        }
+        tokens = current.parent;
+        break;
+      }
+      default:
+        tokens.push({ type: 'value', name, raw: sigil === '{' || sigil === '&' });
+    }
+  }
+
+  if (open.length > 0) {
+    throw new TemplateError(`unclosed section {{#${open[open.length - 1].section.name}}}`);
+  }
+  if (pos < template.length) {
+    tokens.push({ type: 'text', value: template.slice(pos) });
+  }
+  return root;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(value: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function lookup(contexts: unknown[], name: string): unknown {
+  if (name === '.') {
+    return contexts[contexts.length - 1];
+  }
+
+  const [first, ...rest] = name.split('.');
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (!isRecord(context) || !hasOwn(context, first)) continue;
+
+    let value: unknown = context[first];
+    for (const part of rest) {
+      value = isRecord(value) && hasOwn(value, part) ? value[part] : undefined;
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : '';
+}
+
+function isFalsy(value: unknown): boolean {
+  return !value || (Array.isArray(value) && value.length === 0) || typeof value === 'function';
+}
+
+function renderTokens(tokens: Token[], contexts: unknown[], escape: (value: string) => string): string {
+  let output = '';
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text':
+        output += token.value;
+        break;
+      case 'value': {
+        const text = toText(lookup(contexts, token.name));
+        output += token.raw ? text : escape(text);
+        break;
+      }
+      case 'section': {
+        const value = lookup(contexts, token.name);
+        if (token.inverted) {
+          if (isFalsy(value)) output += renderTokens(token.children, contexts, escape);
+        } else if (Array.isArray(value)) {
+          for (const item of value) output += renderTokens(token.children, [...contexts, item], escape);
+        } else if (!isFalsy(value)) {
+          output += renderTokens(token.children, [...contexts, value], escape);
+        }
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Escape HTML special characters, the default for `{{name}}`
+ */
+export function escapeTemplateHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a template with the given data. `escape` applies to `{{name}}` tags;
+ * pass `(v) => v` for plain text such as emails.
+ */
+export function renderTemplate(
+  template: string,
+  view: TemplateView,
+  escape: (value: string) => string = escapeTemplateHtml
+): string {
+  return renderTokens(parseTemplate(template), [view], escape);
+}
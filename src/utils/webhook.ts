@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request } from 'express';
+
+/**
+ * Request carrying the exact bytes received, for signature verification
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * express.json() verify hook that keeps the raw body on the request
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) return false;
+  return crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Hex HMAC-SHA256 digest of a payload
+ */
+export function hmacSha256(secret: string, payload: Buffer | string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
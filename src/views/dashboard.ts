@@ -0,0 +1,382 @@
+import { config } from '../config';
+import {
+  AuditLogRecord,
+  CLARecord,
+  CLAStatus,
+  CLAVersionRecord,
+  PendingCLAFunnel,
+  PRExemptionRecord,
+  PROverrideRecord,
+  PRRecord,
+  SignatureEvidenceRecord,
+} from '../types';
+
+/**
+ * Escape a value for use in HTML text and attribute values
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Date and time of a stored timestamp, in UTC
+ */
+function formatDate(value: string | undefined): string {
+  if (!value) return '—';
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? escapeHtml(value) : date.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * How long ago a stored timestamp was, e.g. "3 days"
+ */
+function formatAge(value: string | undefined): string {
+  if (!value) return '—';
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  const hours = Math.max(0, Math.floor((Date.now() - date.getTime()) / 3_600_000));
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+function statusBadge(status: string): string {
+  return `<span class="badge badge-${escapeHtml(status)}">${escapeHtml(status)}</span>`;
+}
+
+function signerLink(username: string): string {
+  return `<a href="/dashboard/signers/${encodeURIComponent(username)}">@${escapeHtml(username)}</a>`;
+}
+
+function prLink(repoFullName: string, prNumber: number): string {
+  return `<a href="/dashboard/prs/${repoFullName.split('/').map(encodeURIComponent).join('/')}/${prNumber}">${escapeHtml(repoFullName)}#${prNumber}</a>`;
+}
+
+function renderAudit(entries: AuditLogRecord[]): string {
+  if (entries.length === 0) {
+    return '<p class="muted">No admin actions recorded.</p>';
+  }
+
+  const rows = entries.map((e) => `
+    <tr>
+      <td>${formatDate(e.created_at)}</td>
+      <td>${escapeHtml(e.actor)}</td>
+      <td>${escapeHtml(e.action)}</td>
+      <td><code>${escapeHtml(e.details ?? '')}</code></td>
+    </tr>`).join('');
+
+  return `<table>
+    <thead><tr><th>Date</th><th>By</th><th>Action</th><th>Details</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+}
+
+/**
+ * Page skeleton with the navigation bar
+ */
+export function renderLayout(title: string, body: string, login?: string, csrfToken?: string): string {
+  const account = login && csrfToken
+    ? `<form method="post" action="/dashboard/logout" class="inline">
+        <input type="hidden" name="csrf" value="${escapeHtml(csrfToken)}">
+        <span>@${escapeHtml(login)}</span> <button type="submit" class="link">Sign out</button>
+      </form>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)} — ${escapeHtml(config.cla.organizationName)} CLA</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+    header { background: #24292f; color: #fff; padding: 12px 24px; display: flex; justify-content: space-between; align-items: center; }
+    header a { color: #fff; font-weight: 600; text-decoration: none; }
+    main { max-width: 1200px; margin: 0 auto; padding: 24px; }
+    section { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 16px; margin-bottom: 16px; }
+    h1 { font-size: 24px; } h2 { font-size: 18px; margin-top: 0; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #d8dee4; vertical-align: top; }
+    code { font-size: 12px; word-break: break-all; }
+    form.filters { display: flex; flex-wrap: wrap; gap: 8px; align-items: end; }
+    form.filters label { display: flex; flex-direction: column; font-size: 12px; }
+    form.inline { display: inline; }
+    input, select, textarea, button { font: inherit; padding: 4px 8px; }
+    button { cursor: pointer; }
+    button.link { background: none; border: none; color: inherit; text-decoration: underline; padding: 0; }
+    .funnel { display: flex; gap: 12px; flex-wrap: wrap; }
+    .funnel a { flex: 1; min-width: 140px; padding: 12px; border: 1px solid #d0d7de; border-radius: 6px; text-decoration: none; color: inherit; }
+    .funnel strong { display: block; font-size: 24px; }
+    .badge { padding: 2px 8px; border-radius: 12px; font-size: 12px; background: #eaeef2; }
+    .badge-signed, .badge-merged { background: #dafbe1; } .badge-pending, .badge-open { background: #fff8c5; }
+    .badge-cancelled, .badge-expired, .badge-superseded { background: #ffebe9; }
+    .notice { background: #ddf4ff; border: 1px solid #54aeff; padding: 8px 12px; border-radius: 6px; margin-bottom: 16px; }
+    .actions { display: flex; gap: 16px; flex-wrap: wrap; align-items: start; }
+    .muted { color: #656d76; }
+  </style>
+</head>
+<body>
+  <header><a href="/dashboard">${escapeHtml(config.cla.organizationName)} CLA</a>${account}</header>
+  <main>
+${body}
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * Error or access denied page
+ */
+export function renderMessagePage(title: string, message: string, login?: string, csrfToken?: string): string {
+  return renderLayout(title, `<h1>${escapeHtml(title)}</h1><section><p>${escapeHtml(message)}</p></section>`, login, csrfToken);
+}
+
+export interface SignerFilters {
+  status?: CLAStatus;
+  query?: string;
+  repoFullName?: string;
+  version?: string;
+  since?: string;
+  until?: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Signer table with filters and the pending CLA funnel
+ */
+export function renderSignersPage(data: {
+  login: string;
+  csrfToken: string;
+  filters: SignerFilters;
+  statuses: CLAStatus[];
+  statusCounts: Partial<Record<CLAStatus, number>>;
+  funnel: PendingCLAFunnel;
+  // Links to the signer table filtered on each funnel bucket
+  funnelLinks: Record<'all' | 'underOneDay' | 'oneToSevenDays' | 'sevenToThirtyDays' | 'overThirtyDays', string>;
+  repositories: string[];
+  versions: CLAVersionRecord[];
+  records: CLARecord[];
+  total: number;
+  pageLink: (offset: number) => string;
+}): string {
+  const { filters, funnel, funnelLinks } = data;
+
+  const option = (value: string, label: string, selected: boolean) =>
+    `<option value="${escapeHtml(value)}"${selected ? ' selected' : ''}>${escapeHtml(label)}</option>`;
+
+  const counts = data.statuses
+    .map((s) => `${statusBadge(s)} ${data.statusCounts[s] ?? 0}`)
+    .join(' &nbsp; ');
+
+  const rows = data.records.map((r) => `
+      <tr>
+        <td>${signerLink(r.github_username)}</td>
+        <td>${escapeHtml(r.github_email ?? '')}</td>
+        <td>${statusBadge(r.status)}</td>
+        <td>${escapeHtml(r.cla_version ?? '—')}</td>
+        <td>${escapeHtml(r.signature_source ?? 'concord')}</td>
+        <td>${formatDate(r.signed_at)}</td>
+        <td>${formatDate(r.created_at)}${r.status === 'pending' ? ` <span class="muted">(waiting ${formatAge(r.created_at)})</span>` : ''}</td>
+      </tr>`).join('');
+
+  const pagination = [
+    filters.offset > 0 ? `<a href="${escapeHtml(data.pageLink(Math.max(0, filters.offset - filters.limit)))}">← Previous</a>` : '',
+    filters.offset + filters.limit < data.total ? `<a href="${escapeHtml(data.pageLink(filters.offset + filters.limit))}">Next →</a>` : '',
+  ].filter(Boolean).join(' &nbsp; ');
+
+  const body = `
+    <h1>Contributor License Agreements</h1>
+
+    <section>
+      <h2>Pending CLAs</h2>
+      <div class="funnel">
+        <a href="${escapeHtml(funnelLinks.all)}"><strong>${funnel.total}</strong>waiting for a signature</a>
+        <a href="${escapeHtml(funnelLinks.underOneDay)}"><strong>${funnel.underOneDay}</strong>for less than a day</a>
+        <a href="${escapeHtml(funnelLinks.oneToSevenDays)}"><strong>${funnel.oneToSevenDays}</strong>for 1 to 7 days</a>
+        <a href="${escapeHtml(funnelLinks.sevenToThirtyDays)}"><strong>${funnel.sevenToThirtyDays}</strong>for 7 to 30 days</a>
+        <a href="${escapeHtml(funnelLinks.overThirtyDays)}"><strong>${funnel.overThirtyDays}</strong>for over 30 days</a>
+      </div>
+      <p class="muted">${funnel.oldestCreatedAt ? `Oldest pending request: ${formatAge(funnel.oldestCreatedAt)} ago.` : 'No CLA is waiting for a signature.'} All records: ${counts}</p>
+    </section>
+
+    <section>
+      <form method="get" action="/dashboard" class="filters">
+        <label>Search<input type="search" name="q" value="${escapeHtml(filters.query ?? '')}" placeholder="username or email"></label>
+        <label>Status<select name="status">
+          ${option('', 'Any', !filters.status)}
+          ${data.statuses.map((s) => option(s, s, filters.status === s)).join('')}
+        </select></label>
+        <label>Repository<select name="repo">
+          ${option('', 'Any', !filters.repoFullName)}
+          ${data.repositories.map((r) => option(r, r, filters.repoFullName?.toLowerCase() === r.toLowerCase())).join('')}
+        </select></label>
+        <label>CLA version<select name="version">
+          ${option('', 'Any', !filters.version)}
+          ${data.versions.map((v) => option(v.version, v.version, filters.version === v.version)).join('')}
+        </select></label>
+        <label>From<input type="date" name="since" value="${escapeHtml(filters.since?.slice(0, 10) ?? '')}"></label>
+        <label>To<input type="date" name="until" value="${escapeHtml(filters.until?.slice(0, 10) ?? '')}"></label>
+        <button type="submit">Filter</button>
+        <a href="/dashboard">Reset</a>
+      </form>
+      <p class="muted">${data.total} signer${data.total === 1 ? '' : 's'}. Dates are the signature date, or the request date for CLAs not signed yet.</p>
+      <table>
+        <thead><tr><th>Contributor</th><th>Email</th><th>Status</th><th>Version</th><th>Source</th><th>Signed</th><th>Requested</th></tr></thead>
+        <tbody>${rows || '<tr><td colspan="7" class="muted">No signer matches these filters.</td></tr>'}</tbody>
+      </table>
+      <p>${pagination}</p>
+    </section>`;
+
+  return renderLayout('Signers', body, data.login, data.csrfToken);
+}
+
+/**
+ * A contributor's CLA with their PRs and audit trail
+ */
+export function renderSignerPage(data: {
+  login: string;
+  csrfToken: string;
+  signer: CLARecord;
+  // Evidence of a click-through signature
+  evidence?: SignatureEvidenceRecord;
+  pullRequests: PRRecord[];
+  audit: AuditLogRecord[];
+}): string {
+  const { signer, evidence } = data;
+
+  const prRows = data.pullRequests.map((pr) => `
+      <tr>
+        <td>${prLink(pr.repo_full_name, pr.pr_number)}</td>
+        <td>${statusBadge(pr.pr_state ?? 'open')}</td>
+        <td>${pr.corporate_cla_id ? `corporate CLA #${pr.corporate_cla_id}` : '—'}</td>
+        <td>${formatDate(pr.created_at)}</td>
+        <td>${formatDate(pr.merged_at ?? pr.closed_at)}</td>
+      </tr>`).join('');
+
+  const document = signer.signature_document
+    ? ` — <a href="/dashboard/signers/${encodeURIComponent(signer.github_username)}/document">download the document</a>`
+    : '';
+
+  const body = `
+    <h1>@${escapeHtml(signer.github_username)}</h1>
+    <section>
+      <table>
+        <tr><th>Status</th><td>${statusBadge(signer.status)}</td></tr>
+        <tr><th>GitHub user ID</th><td>${signer.github_user_id}</td></tr>
+        <tr><th>Email</th><td>${escapeHtml(signer.github_email ?? '—')}</td></tr>
+        <tr><th>CLA version</th><td>${escapeHtml(signer.cla_version ?? '—')}${signer.previous_cla_version ? ` <span class="muted">(previously signed ${escapeHtml(signer.previous_cla_version)})</span>` : ''}</td></tr>
+        <tr><th>Source</th><td>${escapeHtml(signer.signature_source ?? 'concord')}${signer.signature_reference ? ` — ${escapeHtml(signer.signature_reference)}` : ''}${document}</td></tr>
+        <tr><th>Agreement</th><td><code>${escapeHtml(signer.concord_agreement_uid || '—')}</code></td></tr>
+        <tr><th>Requested</th><td>${formatDate(signer.created_at)}</td></tr>
+        <tr><th>Signed</th><td>${formatDate(signer.signed_at)}</td></tr>
+      </table>
+    </section>
+${evidence ? `
+    <section>
+      <h2>Signature evidence</h2>
+      <table>
+        <tr><th>Signed with</th><td>${evidence.method === 'comment' ? 'PR comment' : 'Signing page'}${evidence.source_url ? ` — <a href="${escapeHtml(evidence.source_url)}">view the comment</a>` : ''}</td></tr>
+        <tr><th>Date</th><td>${escapeHtml(evidence.signed_at)}</td></tr>
+        <tr><th>CLA version</th><td>${escapeHtml(evidence.cla_version ?? '—')}</td></tr>
+        <tr><th>Agreement text SHA-256</th><td><code>${escapeHtml(evidence.text_hash)}</code></td></tr>
+        <tr><th>IP address</th><td>${escapeHtml(evidence.ip_address ?? '—')}</td></tr>
+        <tr><th>User agent</th><td>${escapeHtml(evidence.user_agent ?? '—')}</td></tr>
+      </table>
+    </section>
+` : ''}
+    <section>
+      <h2>Pull requests</h2>
+      <table>
+        <thead><tr><th>Pull request</th><th>State</th><th>Covered by</th><th>First seen</th><th>Closed</th></tr></thead>
+        <tbody>${prRows || '<tr><td colspan="5" class="muted">No pull request tracked.</td></tr>'}</tbody>
+      </table>
+    </section>
+
+    <section>
+      <h2>Audit trail</h2>
+      ${renderAudit(data.audit)}
+    </section>`;
+
+  return renderLayout(`@${signer.github_username}`, body, data.login, data.csrfToken);
+}
+
+/**
+ * A PR's contributors and their CLAs, with the actions of the `/cla` commands
+ */
+export function renderPullRequestPage(data: {
+  login: string;
+  csrfToken: string;
+  repoFullName: string;
+  prNumber: number;
+  contributors: Array<{ record: PRRecord; cla?: CLARecord }>;
+  override?: PROverrideRecord;
+  exemptions: PRExemptionRecord[];
+  audit: AuditLogRecord[];
+  notice?: string;
+}): string {
+  const { repoFullName, prNumber, csrfToken } = data;
+  const actionPath = `/dashboard/prs/${repoFullName.split('/').map(encodeURIComponent).join('/')}/${prNumber}`;
+  const state = data.contributors[0]?.record.pr_state ?? 'open';
+  const csrfField = `<input type="hidden" name="csrf" value="${escapeHtml(csrfToken)}">`;
+
+  const rows = data.contributors.map(({ record, cla }) => `
+      <tr>
+        <td>${signerLink(record.github_username)}</td>
+        <td>${record.corporate_cla_id ? `${statusBadge('signed')} corporate CLA #${record.corporate_cla_id}` : cla ? statusBadge(cla.status) : '<span class="muted">no CLA record</span>'}</td>
+        <td>${escapeHtml(cla?.cla_version ?? '—')}</td>
+        <td>${formatDate(cla?.signed_at)}</td>
+        <td><code>${escapeHtml(record.concord_agreement_uid ?? '—')}</code></td>
+      </tr>`).join('');
+
+  const override = data.override
+    ? `<p>${statusBadge('overridden')} by ${escapeHtml(data.override.actor)} on ${formatDate(data.override.created_at)}: ${escapeHtml(data.override.reason)}</p>`
+    : '';
+
+  const exemptions = data.exemptions.length > 0
+    ? `<p>Exempted on this pull request: ${data.exemptions.map((e) => `@${escapeHtml(e.github_username)} (by ${escapeHtml(e.actor)})`).join(', ')}</p>`
+    : '';
+
+  const actions = state === 'open'
+    ? `<div class="actions">
+        <form method="post" action="${actionPath}/recheck">${csrfField}<button type="submit">Recheck</button></form>
+        <form method="post" action="${actionPath}/resend">${csrfField}<button type="submit">Resend invitations</button></form>
+        <form method="post" action="${actionPath}/override">${csrfField}
+          <textarea name="reason" rows="2" cols="40" required placeholder="Why the CLA is not required for this PR"></textarea>
+          <button type="submit">Override</button>
+        </form>
+      </div>
+      <p class="muted">Actions post their outcome on the pull request, like the <code>/cla</code> commands.</p>`
+    : '<p class="muted">The pull request is closed.</p>';
+
+  const body = `
+    <h1>${escapeHtml(repoFullName)}#${prNumber} ${statusBadge(state)}</h1>
+    ${data.notice ? `<div class="notice">${escapeHtml(data.notice)}</div>` : ''}
+    <p><a href="https://github.com/${escapeHtml(repoFullName)}/pull/${prNumber}">Open on GitHub</a></p>
+
+    <section>
+      <h2>Contributors</h2>
+      <table>
+        <thead><tr><th>Contributor</th><th>CLA</th><th>Version</th><th>Signed</th><th>Agreement</th></tr></thead>
+        <tbody>${rows || '<tr><td colspan="5" class="muted">No contributor tracked.</td></tr>'}</tbody>
+      </table>
+      ${override}
+      ${exemptions}
+    </section>
+
+    <section>
+      <h2>Actions</h2>
+      ${actions}
+    </section>
+
+    <section>
+      <h2>Audit trail</h2>
+      ${renderAudit(data.audit)}
+    </section>`;
+
+  return renderLayout(`${repoFullName}#${prNumber}`, body, data.login, csrfToken);
+}
@@ -0,0 +1,427 @@
+import { MessageTemplateName } from '../types';
+
+/**
+ * Built-in comment and email templates, by language. They can be replaced per
+ * language with files in CLA_TEMPLATES_PATH (<language>/<template>.mustache) and
+ * per repository with `templates` in .github/cla.yml.
+ *
+ * Every template gets `organization` (CLA_ORGANIZATION_NAME). Comment templates
+ * also get `repo` ("owner/repo"), `pr_number` and `cla_version`, and:
+ * - comment_pending: `pending_mentions`, `contributors` (`name`, `username`,
+ *   `state`), `resign` (`version`, `effective_date`, `notes`, `contributors`),
+ *   `has_unlinked`, `signing_links`, `email_invitations` and `sign_phrase`
+ *   (set when contributors can sign with a PR comment)
+ * - comment_signed, comment_not_required: `signed_mentions`, `contributors`
+ * - comment_overridden: `actor`, `reason`, `reason_lines`
+ * - comment_config_error: `source`, `problems`
+ * - comment_skipped: `reason`
+ * - comment_signer_state (the `state` of a contributor): `name`, `username`,
+ *   `exempt`, `signed`, `pending`, `unlinked`, `error`, `company`, `reason`,
+ *   `signing_url`, `sign_phrase`
+ * - comment_history: `entries` (`date`, `message`)
+ * - comment_expiry_warning (final warning before auto_close closes the PR):
+ *   `pending_mentions`, `days`, `close_date`
+ * - comment_expired (posted when auto_close closes the PR): `pending_mentions`, `days`
+ * Email templates are rendered as plain text:
+ * - invitation_subject, invitation_body: `name`, `username`, `email`, `repo`,
+ *   `cla_version`, `date`
+ * - corporate_invitation_subject, corporate_invitation_body: `signer_name`,
+ *   `signer_email`, `company`, `date`
+ */
+
+export const MESSAGE_TEMPLATE_NAMES: MessageTemplateName[] = [
+  'comment_pending',
+  'comment_signed',
+  'comment_not_required',
+  'comment_overridden',
+  'comment_config_error',
+  'comment_skipped',
+  'comment_signer_state',
+  'comment_history',
+  'comment_expiry_warning',
+  'comment_expired',
+  'invitation_subject',
+  'invitation_body',
+  'corporate_invitation_subject',
+  'corporate_invitation_body',
+];
+
+const en: Record<MessageTemplateName, string> = {
+  comment_pending: `## Contributor License Agreement
+
+Hey {{pending_mentions}}!
+
+Thank you for your contribution to {{organization}}! Before we can merge this pull request, every contributor to it needs to sign our Contributor License Agreement (CLA).
+
+### Why do we need a CLA?
+
+The CLA helps protect both you and {{organization}}. It ensures that:
+- You have the right to make this contribution
+- {{organization}} can use and distribute your contribution
+- Your contribution remains open source
+
+### Contributors
+
+| Contributor | CLA |
+|-------------|-----|
+{{#contributors}}
+| {{name}} | {{{state}}} |
+{{/contributors}}
+{{#resign}}
+
+### Why am I asked to sign again?
+
+The CLA was updated to **version {{version}}** on {{effective_date}}, and contributors who signed an earlier version need to sign the new one: {{contributors}}.
+{{#notes}}
+
+**What changed:** {{notes}}
+{{/notes}}
+{{/resign}}
+
+### How to sign
+
+Each contributor who has not signed yet can sign the CLA in one of these ways:
+
+{{#signing_links}}
+1. :link: **Sign directly** — Use the link next to your name above
+{{/signing_links}}
+{{#email_invitations}}
+1. :email: **Via email** — Check your inbox (and spam folder) for a signing invitation from Concord
+{{/email_invitations}}
+{{#sign_phrase}}
+1. :speech_balloon: **With a comment** — Post a new comment on this pull request containing exactly:
+   \`\`\`
+   {{{sign_phrase}}}
+   \`\`\`
+{{/sign_phrase}}
+{{#has_unlinked}}
+
+Commits authored with an email that is not linked to a GitHub account cannot be matched to a signer. Please [add that email to your GitHub account](https://github.com/settings/emails) and comment \`/cla recheck\`, or rewrite the commits with a linked email.
+{{/has_unlinked}}
+
+Once everyone has signed, this comment will be automatically updated.
+
+---
+
+:x: **CLA not signed yet**
+
+<sub>This is an automated message from the {{organization}} CLA Bot. If you have questions, please contact the maintainers.</sub>`,
+
+  comment_signed: `## Contributor License Agreement
+
+:white_check_mark: **CLA signed** :green_heart:
+
+{{#signed_mentions}}
+Thank you {{signed_mentions}} for signing the Contributor License Agreement! Your pull request can now be reviewed and merged.
+{{/signed_mentions}}
+{{^signed_mentions}}
+All contributors to this pull request are covered. Your pull request can now be reviewed and merged.
+{{/signed_mentions}}
+
+| Contributor | CLA |
+|-------------|-----|
+{{#contributors}}
+| {{name}} | {{{state}}} |
+{{/contributors}}
+
+We appreciate your contribution to {{organization}}'s open source projects! :heart:
+
+<sub>This is an automated message from the {{organization}} CLA Bot.</sub>`,
+
+  comment_not_required: `## Contributor License Agreement
+
+:white_check_mark: **CLA not required**
+
+Every contributor to this pull request is exempted from the Contributor License Agreement.
+
+| Contributor | CLA |
+|-------------|-----|
+{{#contributors}}
+| {{name}} | {{{state}}} |
+{{/contributors}}
+
+<sub>This is an automated message from the {{organization}} CLA Bot.</sub>`,
+
+  comment_overridden: `## Contributor License Agreement
+
+:white_check_mark: **CLA requirement overridden**
+
+The CLA check was overridden by {{actor}} for this pull request.
+
+{{#reason_lines}}
+> {{.}}
+{{/reason_lines}}
+
+<sub>This is an automated message from the {{organization}} CLA Bot.</sub>`,
+
+  comment_config_error: `## Contributor License Agreement
+
+:warning: **CLA could not be checked**
+
+The CLA configuration file \`{{source}}\` is invalid:
+
+{{#problems}}
+- {{.}}
+{{/problems}}
+
+A maintainer needs to fix the file on the default branch, then comment \`/cla recheck\`.
+
+<sub>This is an automated message from the {{organization}} CLA Bot. If you have questions, please contact the maintainers.</sub>`,
+
+  comment_skipped: `## Contributor License Agreement
+
+:information_source: **CLA not checked**: {{reason}}.
+
+<sub>This is an automated message from the {{organization}} CLA Bot.</sub>`,
+
+  comment_signer_state: [
+    '{{#exempt}}:white_check_mark: Not required{{/exempt}}',
+    '{{#signed}}:white_check_mark: {{#company}}Covered by the {{company}} corporate CLA{{/company}}{{^company}}Signed{{/company}}{{/signed}}',
+    '{{#pending}}:x: Not signed yet{{#reason}} ({{reason}}){{/reason}} — ',
+    '{{#signing_url}}[sign the CLA]({{{signing_url}}}){{/signing_url}}{{^signing_url}}{{#sign_phrase}}post the agreement phrase below{{/sign_phrase}}{{^sign_phrase}}check your email for the signing invitation{{/sign_phrase}}{{/signing_url}}{{/pending}}',
+    '{{#unlinked}}:warning: Commit email is not linked to a GitHub account{{/unlinked}}',
+    '{{#error}}:warning: Agreement could not be created — please contact the maintainers{{/error}}',
+  ].join(''),
+
+  comment_history: `<details>
+<summary>History</summary>
+
+{{#entries}}
+- {{date}} UTC — {{message}}
+{{/entries}}
+
+</details>`,
+
+  comment_expiry_warning: `## Contributor License Agreement
+
+:warning: {{pending_mentions}}, this pull request will be closed on **{{close_date}}** if the CLA is still not signed by then: pull requests whose CLA stays unsigned for {{days}} days are closed in this repository.
+
+If it gets closed, signing the CLA reopens it.
+
+<sub>This is an automated message from the {{organization}} CLA Bot. If you have questions, please contact the maintainers.</sub>`,
+
+  comment_expired: `## Contributor License Agreement
+
+:no_entry: This pull request was closed because the CLA was not signed within {{days}} days ({{pending_mentions}}).
+
+It is reopened as soon as every contributor has signed the CLA. Once signed, you can also comment \`/cla recheck\` to reopen it.
+
+<sub>This is an automated message from the {{organization}} CLA Bot. If you have questions, please contact the maintainers.</sub>`,
+
+  invitation_subject: '{{organization}} Contributor License Agreement',
+
+  invitation_body: `Hello {{name}},
+
+Thank you for your contribution to {{organization}}'s open source projects!
+
+Before we can merge your pull request, we need you to sign the Contributor License Agreement (CLA). This is a one-time process that covers all future contributions.
+
+Please review and sign the CLA using the link below.
+
+Best regards,
+The {{organization}} Team`,
+
+  corporate_invitation_subject: '{{organization}} Corporate Contributor License Agreement',
+
+  corporate_invitation_body: `Hello {{signer_name}},
+
+Thank you for your company's contributions to {{organization}}'s open source projects!
+
+This Corporate Contributor License Agreement (CCLA) covers the contributions of the employees your company authorizes. Once it is signed, the {{organization}} team will add your contributors' GitHub accounts and email domains to the agreement.
+
+Please review and sign the CCLA using the link below.
+
+Best regards,
+The {{organization}} Team`,
+};
+
+const fr: Record<MessageTemplateName, string> = {
+  comment_pending: `## Contrat de licence de contributeur
+
+Bonjour {{pending_mentions}} !
+
+Merci pour votre contribution à {{organization}} ! Avant de pouvoir fusionner cette pull request, chacun de ses contributeurs doit signer notre contrat de licence de contributeur (CLA).
+
+### Pourquoi un CLA ?
+
+Le CLA vous protège, vous et {{organization}}. Il garantit que :
+- Vous avez le droit de faire cette contribution
+- {{organization}} peut utiliser et distribuer votre contribution
+- Votre contribution reste open source
+
+### Contributeurs
+
+| Contributeur | CLA |
+|--------------|-----|
+{{#contributors}}
+| {{name}} | {{{state}}} |
+{{/contributors}}
+{{#resign}}
+
+### Pourquoi dois-je signer à nouveau ?
+
+Le CLA a été mis à jour en **version {{version}}** le {{effective_date}}, et les contributeurs ayant signé une version antérieure doivent signer la nouvelle : {{contributors}}.
+{{#notes}}
+
+**Ce qui a changé :** {{notes}}
+{{/notes}}
+{{/resign}}
+
+### Comment signer
+
+Chaque contributeur n'ayant pas encore signé peut signer le CLA de l'une de ces façons :
+
+{{#signing_links}}
+1. :link: **Signature directe** — Utilisez le lien à côté de votre nom ci-dessus
+{{/signing_links}}
+{{#email_invitations}}
+1. :email: **Par email** — Consultez votre boîte de réception (et vos spams) pour l'invitation à signer envoyée par Concord
+{{/email_invitations}}
+{{#sign_phrase}}
+1. :speech_balloon: **Par commentaire** — Publiez sur cette pull request un nouveau commentaire contenant exactement :
+   \`\`\`
+   {{{sign_phrase}}}
+   \`\`\`
+{{/sign_phrase}}
+{{#has_unlinked}}
+
+Les commits signés avec un email qui n'est associé à aucun compte GitHub ne peuvent pas être rattachés à un signataire. [Ajoutez cet email à votre compte GitHub](https://github.com/settings/emails) puis commentez \`/cla recheck\`, ou réécrivez les commits avec un email associé.
+{{/has_unlinked}}
+
+Ce commentaire sera mis à jour automatiquement une fois que tout le monde aura signé.
+
+---
+
+:x: **CLA pas encore signé**
+
+<sub>Ce message automatique est envoyé par le bot CLA de {{organization}}. Pour toute question, contactez les mainteneurs.</sub>`,
+
+  comment_signed: `## Contrat de licence de contributeur
+
+:white_check_mark: **CLA signé** :green_heart:
+
+{{#signed_mentions}}
+Merci {{signed_mentions}} d'avoir signé le contrat de licence de contributeur ! Votre pull request peut maintenant être relue et fusionnée.
+{{/signed_mentions}}
+{{^signed_mentions}}
+Tous les contributeurs de cette pull request sont couverts. Votre pull request peut maintenant être relue et fusionnée.
+{{/signed_mentions}}
+
+| Contributeur | CLA |
+|--------------|-----|
+{{#contributors}}
+| {{name}} | {{{state}}} |
+{{/contributors}}
+
+Merci pour votre contribution aux projets open source de {{organization}} ! :heart:
+
+<sub>Ce message automatique est envoyé par le bot CLA de {{organization}}.</sub>`,
+
+  comment_not_required: `## Contrat de licence de contributeur
+
+:white_check_mark: **CLA non requis**
+
+Tous les contributeurs de cette pull request sont exemptés du contrat de licence de contributeur.
+
+| Contributeur | CLA |
+|--------------|-----|
+{{#contributors}}
+| {{name}} | {{{state}}} |
+{{/contributors}}
+
+<sub>Ce message automatique est envoyé par le bot CLA de {{organization}}.</sub>`,
+
+  comment_overridden: `## Contrat de licence de contributeur
+
+:white_check_mark: **Exigence du CLA levée**
+
+La vérification du CLA a été levée par {{actor}} pour cette pull request.
+
+{{#reason_lines}}
+> {{.}}
+{{/reason_lines}}
+
+<sub>Ce message automatique est envoyé par le bot CLA de {{organization}}.</sub>`,
+
+  comment_config_error: `## Contrat de licence de contributeur
+
+:warning: **Le CLA n'a pas pu être vérifié**
+
+Le fichier de configuration du CLA \`{{source}}\` est invalide :
+
+{{#problems}}
+- {{.}}
+{{/problems}}
+
+Un mainteneur doit corriger le fichier sur la branche par défaut, puis commenter \`/cla recheck\`.
+
+<sub>Ce message automatique est envoyé par le bot CLA de {{organization}}. Pour toute question, contactez les mainteneurs.</sub>`,
+
+  comment_skipped: `## Contrat de licence de contributeur
+
+:information_source: **CLA non vérifié** : {{reason}}.
+
+<sub>Ce message automatique est envoyé par le bot CLA de {{organization}}.</sub>`,
+
+  comment_signer_state: [
+    '{{#exempt}}:white_check_mark: Non requis{{/exempt}}',
+    '{{#signed}}:white_check_mark: {{#company}}Couvert par le CLA entreprise de {{company}}{{/company}}{{^company}}Signé{{/company}}{{/signed}}',
+    '{{#pending}}:x: Pas encore signé{{#reason}} ({{reason}}){{/reason}} — ',
+    '{{#signing_url}}[signer le CLA]({{{signing_url}}}){{/signing_url}}{{^signing_url}}{{#sign_phrase}}publiez la phrase d\'acceptation ci-dessous{{/sign_phrase}}{{^sign_phrase}}consultez vos emails pour l\'invitation à signer{{/sign_phrase}}{{/signing_url}}{{/pending}}',
+    '{{#unlinked}}:warning: L\'email du commit n\'est associé à aucun compte GitHub{{/unlinked}}',
+    '{{#error}}:warning: L\'accord n\'a pas pu être créé — contactez les mainteneurs{{/error}}',
+  ].join(''),
+
+  comment_history: `<details>
+<summary>Historique</summary>
+
+{{#entries}}
+- {{date}} UTC — {{message}}
+{{/entries}}
+
+</details>`,
+
+  comment_expiry_warning: `## Contrat de licence de contributeur
+
+:warning: {{pending_mentions}}, cette pull request sera fermée le **{{close_date}}** si le CLA n'est toujours pas signé d'ici là : les pull requests dont le CLA reste non signé pendant {{days}} jours sont fermées dans ce dépôt.
+
+Si elle est fermée, signer le CLA la rouvrira.
+
+<sub>Ce message automatique est envoyé par le bot CLA de {{organization}}. Pour toute question, contactez les mainteneurs.</sub>`,
+
+  comment_expired: `## Contrat de licence de contributeur
+
+:no_entry: Cette pull request a été fermée car le CLA n'a pas été signé dans les {{days}} jours ({{pending_mentions}}).
+
+Elle sera rouverte dès que tous les contributeurs auront signé le CLA. Une fois signé, vous pouvez aussi commenter \`/cla recheck\` pour la rouvrir.
+
+<sub>Ce message automatique est envoyé par le bot CLA de {{organization}}. Pour toute question, contactez les mainteneurs.</sub>`,
+
+  invitation_subject: 'Contrat de licence de contributeur {{organization}}',
+
+  invitation_body: `Bonjour {{name}},
+
+Merci pour votre contribution aux projets open source de {{organization}} !
+
+Avant de pouvoir fusionner votre pull request, nous avons besoin que vous signiez le contrat de licence de contributeur (CLA). Cette démarche unique couvre toutes vos contributions futures.
+
+Veuillez consulter et signer le CLA via le lien ci-dessous.
+
+Cordialement,
+L'équipe {{organization}}`,
+
+  corporate_invitation_subject: 'Contrat de licence de contributeur entreprise {{organization}}',
+
+  corporate_invitation_body: `Bonjour {{signer_name}},
+
+Merci pour les contributions de votre entreprise aux projets open source de {{organization}} !
+
+Ce contrat de licence de contributeur entreprise (CCLA) couvre les contributions des employés autorisés par votre entreprise. Une fois signé, l'équipe {{organization}} ajoutera les comptes GitHub et les domaines email de vos contributeurs à l'accord.
+
+Veuillez consulter et signer le CCLA via le lien ci-dessous.
+
+Cordialement,
+L'équipe {{organization}}`,
+};
+
+export const DEFAULT_MESSAGES: Record<string, Record<MessageTemplateName, string>> = { en, fr };
@@ -0,0 +1,117 @@
+import { config } from '../config';
+import { escapeHtml } from './dashboard';
+
+/**
+ * Page skeleton of the contributor signing pages
+ */
+function renderSignLayout(title: string, body: string): string {
+  const organization = escapeHtml(config.cla.organizationName);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)} — ${organization} CLA</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+    header { background: #24292f; color: #fff; padding: 12px 24px; font-weight: 600; }
+    main { max-width: 800px; margin: 0 auto; padding: 24px; }
+    section { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 16px; margin-bottom: 16px; }
+    h1 { font-size: 24px; }
+    pre.agreement { white-space: pre-wrap; font-family: inherit; max-height: 60vh; overflow-y: auto; border: 1px solid #d8dee4; padding: 12px; }
+    label { display: block; margin: 16px 0; }
+    button { font: inherit; padding: 6px 16px; cursor: pointer; }
+    input[type=email] { font: inherit; padding: 4px 8px; width: 100%; max-width: 400px; box-sizing: border-box; }
+    .notice { background: #fff8c5; border: 1px solid #d4a72c; padding: 8px 12px; border-radius: 6px; margin-bottom: 16px; }
+    .muted { color: #656d76; }
+  </style>
+</head>
+<body>
+  <header>${organization} Contributor License Agreement</header>
+  <main>
+${body}
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * Outcome or error page
+ */
+export function renderSignMessagePage(title: string, message: string): string {
+  return renderSignLayout(title, `<h1>${escapeHtml(title)}</h1><section><p>${escapeHtml(message)}</p></section>`);
+}
+
+/**
+ * The agreement with the form accepting it. `textHash` identifies the text
+ * shown, so a text updated in the meantime is not signed unseen.
+ */
+export function renderAgreementPage(data: {
+  agreementUid: string;
+  login: string;
+  text: string;
+  textHash: string;
+  csrfToken: string;
+  claVersion?: string;
+  notice?: string;
+}): string {
+  const body = `
+    <h1>Sign the Contributor License Agreement</h1>
+    ${data.notice ? `<div class="notice">${escapeHtml(data.notice)}</div>` : ''}
+    <section>
+      <p>You are signed in as <strong>@${escapeHtml(data.login)}</strong>.${data.claVersion ? ` CLA version ${escapeHtml(data.claVersion)}.` : ''}</p>
+      <pre class="agreement">${escapeHtml(data.text)}</pre>
+      <form method="post" action="/sign/accept">
+        <input type="hidden" name="csrf" value="${escapeHtml(data.csrfToken)}">
+        <input type="hidden" name="agreement" value="${escapeHtml(data.agreementUid)}">
+        <input type="hidden" name="text_hash" value="${escapeHtml(data.textHash)}">
+        <label><input type="checkbox" name="accept" value="yes" required> I have read this agreement and I accept it as @${escapeHtml(data.login)}</label>
+        <button type="submit">Sign the CLA</button>
+      </form>
+      <p class="muted">The date, your IP address, your browser's user agent and a fingerprint of the text above are recorded as evidence of your signature.</p>
+    </section>`;
+
+  return renderSignLayout('Sign the CLA', body);
+}
+
+/**
+ * Choice of the email an emailed agreement is created for, among the verified
+ * emails of the contributor's GitHub account
+ */
+export function renderEmailPage(data: {
+  login: string;
+  emails: string[];
+  // Email the pending agreement was already sent to
+  currentEmail?: string;
+  csrfToken: string;
+  claVersion?: string;
+  notice?: string;
+}): string {
+  const relogin = '<a href="/sign/login?return=%2Fsign">sign in again</a>';
+  const form = data.emails.length === 0
+    ? `<p>Your GitHub account has no verified email, or it could not be read. Please <a href="https://github.com/settings/emails">add and verify an email</a> on GitHub, then ${relogin}.</p>`
+    : `<form method="post" action="/sign/email">
+        <input type="hidden" name="csrf" value="${escapeHtml(data.csrfToken)}">
+        <label>Email address
+          <input type="email" name="email" list="verified-emails" value="${escapeHtml(data.currentEmail ?? data.emails[0])}" required>
+        </label>
+        <datalist id="verified-emails">
+          ${data.emails.map((email) => `<option value="${escapeHtml(email)}">`).join('\n          ')}
+        </datalist>
+        <button type="submit">Continue to the agreement</button>
+      </form>
+      <p class="muted">Only the verified emails of your GitHub account are accepted. Added one just now? Please ${relogin}.</p>`;
+
+  const body = `
+    <h1>Sign the Contributor License Agreement</h1>
+    ${data.notice ? `<div class="notice">${escapeHtml(data.notice)}</div>` : ''}
+    <section>
+      <p>You are signed in as <strong>@${escapeHtml(data.login)}</strong>.${data.claVersion ? ` CLA version ${escapeHtml(data.claVersion)}.` : ''}</p>
+      <p>Choose the email address to sign the CLA with. The agreement is created for it and opened for you to sign; a copy of the invitation is also sent to it.</p>
+      ${data.currentEmail ? `<p>An agreement was already sent to <strong>${escapeHtml(data.currentEmail)}</strong>. Continue with that email to open it, or choose another one to replace it.</p>` : ''}
+      ${form}
+    </section>`;
+
+  return renderSignLayout('Sign the CLA', body);
+}
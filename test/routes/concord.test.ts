@@ -0,0 +1,104 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RawBodyRequest, hmacSha256 } from '../../src/utils/webhook';
+import { ConcordWebhookPayload } from '../../src/types';
+
+process.env.CONCORD_WEBHOOK_SECRET = 'concord-secret';
+process.env.CONCORD_WEBHOOK_TOKEN = 'concord-token';
+process.env.CONCORD_WEBHOOK_MAX_AGE_SECONDS = '300';
+
+// Loaded after the environment is set, as the configuration is read on import
+const { config }: typeof import('../../src/config') = require('../../src/config');
+const { checkEventFreshness, verifyWebhookAuthenticity }: typeof import('../../src/routes/concord') =
+  require('../../src/routes/concord');
+
+const BODY = Buffer.from('{"event_id":"evt-1"}');
+
+function webhookRequest(
+  headers: Record<string, string>,
+  query: Record<string, string> = {},
+  rawBody: Buffer | null = BODY
+): RawBodyRequest {
+  return { headers, query, rawBody: rawBody ?? undefined } as unknown as RawBodyRequest;
+}
+
+function payload(fields: Partial<ConcordWebhookPayload>): ConcordWebhookPayload {
+  return { event_id: 'evt-1', occured_at: new Date().toISOString(), ...fields } as ConcordWebhookPayload;
+}
+
+describe('verifyWebhookAuthenticity', () => {
+  const signature = hmacSha256('concord-secret', BODY);
+
+  afterEach(() => {
+    config.concord.webhookSecret = 'concord-secret';
+    config.concord.webhookToken = 'concord-token';
+  });
+
+  it('accepts a valid signature, with or without the sha256= prefix, and token', () => {
+    assert.equal(verifyWebhookAuthenticity(webhookRequest({ 'x-concord-signature': signature, 'x-concord-token': 'concord-token' })), null);
+    assert.equal(
+      verifyWebhookAuthenticity(webhookRequest({ 'x-concord-signature': `sha256=${signature.toUpperCase()}` }, { token: 'concord-token' })),
+      null
+    );
+  });
+
+  it('rejects a missing or invalid signature', () => {
+    assert.equal(verifyWebhookAuthenticity(webhookRequest({ 'x-concord-token': 'concord-token' })), 'Missing signature');
+    assert.equal(
+      verifyWebhookAuthenticity(webhookRequest({ 'x-concord-signature': signature, 'x-concord-token': 'concord-token' }, {}, null)),
+      'Missing signature'
+    );
+    assert.equal(
+      verifyWebhookAuthenticity(webhookRequest({ 'x-concord-signature': hmacSha256('other-secret', BODY), 'x-concord-token': 'concord-token' })),
+      'Invalid signature'
+    );
+  });
+
+  it('rejects a signature of another body', () => {
+    const request = webhookRequest(
+      { 'x-concord-signature': signature, 'x-concord-token': 'concord-token' },
+      {},
+      Buffer.from('{"event_id":"evt-2"}')
+    );
+    assert.equal(verifyWebhookAuthenticity(request), 'Invalid signature');
+  });
+
+  it('rejects a missing or invalid token', () => {
+    assert.equal(verifyWebhookAuthenticity(webhookRequest({ 'x-concord-signature': signature })), 'Invalid token');
+    assert.equal(
+      verifyWebhookAuthenticity(webhookRequest({ 'x-concord-signature': signature, 'x-concord-token': 'concord-tokem' })),
+      'Invalid token'
+    );
+  });
+
+  it('only checks what is configured', () => {
+    config.concord.webhookToken = '';
+    assert.equal(verifyWebhookAuthenticity(webhookRequest({ 'x-concord-signature': signature })), null);
+
+    config.concord.webhookSecret = '';
+    config.concord.webhookToken = 'concord-token';
+    assert.equal(verifyWebhookAuthenticity(webhookRequest({}, { token: 'concord-token' }, null)), null);
+
+    config.concord.webhookToken = '';
+    assert.equal(verifyWebhookAuthenticity(webhookRequest({})), null);
+  });
+});
+
+describe('checkEventFreshness', () => {
+  it('accepts a recent event and one stamped slightly in the future', () => {
+    assert.equal(checkEventFreshness(payload({ occured_at: new Date(Date.now() - 299 * 1000).toISOString() })), null);
+    assert.equal(checkEventFreshness(payload({ occured_at: new Date(Date.now() + 30 * 1000).toISOString() })), null);
+  });
+
+  it('rejects an event older than the replay window or too far in the future', () => {
+    const reason = 'Event outside the accepted time window';
+    assert.equal(checkEventFreshness(payload({ occured_at: new Date(Date.now() - 301 * 1000).toISOString() })), reason);
+    assert.equal(checkEventFreshness(payload({ occured_at: new Date(Date.now() + 120 * 1000).toISOString() })), reason);
+  });
+
+  it('rejects an event without an ID or a valid date', () => {
+    assert.equal(checkEventFreshness(payload({ event_id: '' })), 'Missing event_id or occured_at');
+    assert.equal(checkEventFreshness(payload({ occured_at: '' })), 'Missing event_id or occured_at');
+    assert.equal(checkEventFreshness(payload({ occured_at: 'yesterday' })), 'Invalid occured_at');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.GITHUB_APP_SLUG = 'filigran-cla';
+
+// Loaded after the environment is set, as the configuration is read on import
+const { parseCommand }: typeof import('../../src/routes/github') = require('../../src/routes/github');
+
+describe('parseCommand', () => {
+  it('reads a /cla command', () => {
+    assert.deepEqual(parseCommand('/cla recheck'), { command: 'recheck', args: '' });
+  });
+
+  it('reads a command mentioning the app, with or without /cla', () => {
+    assert.deepEqual(parseCommand('@filigran-cla recheck'), { command: 'recheck', args: '' });
+    assert.deepEqual(parseCommand('@filigran-cla[bot] /cla resend'), { command: 'resend', args: '' });
+    assert.deepEqual(parseCommand('@filigran-cla: status'), { command: 'status', args: '' });
+    assert.deepEqual(parseCommand('@filigran-cla, help'), { command: 'help', args: '' });
+  });
+
+  it('lowercases the command but keeps the arguments as written', () => {
+    assert.deepEqual(parseCommand('/CLA Override  Docs only, no code'), { command: 'override', args: 'Docs only, no code' });
+    assert.deepEqual(parseCommand('/cla exempt @OctoCat'), { command: 'exempt', args: '@OctoCat' });
+  });
+
+  it('finds the command on any line and takes the rest of the comment as arguments', () => {
+    assert.deepEqual(
+      parseCommand('Thanks for the fix!\n\n  /cla override typo fix\nReviewed offline'),
+      { command: 'override', args: 'typo fix\nReviewed offline' }
+    );
+  });
+
+  it('accepts leading spaces and tabs', () => {
+    assert.deepEqual(parseCommand(' \t/cla recheck'), { command: 'recheck', args: '' });
+  });
+
+  it('ignores comments without a command', () => {
+    assert.equal(parseCommand('LGTM'), null);
+    assert.equal(parseCommand('/cla'), null);
+    assert.equal(parseCommand(''), null);
+  });
+
+  it('ignores commands that do not start a line', () => {
+    assert.equal(parseCommand('please run /cla recheck'), null);
+    assert.equal(parseCommand('> quoted /cla recheck'), null);
+  });
+
+  it('ignores other apps and lookalike prefixes', () => {
+    assert.equal(parseCommand('@other-bot recheck'), null);
+    assert.equal(parseCommand('@filigran-claims recheck'), null);
+    assert.equal(parseCommand('/clarecheck'), null);
+    assert.equal(parseCommand('/cla-recheck'), null);
+  });
+});
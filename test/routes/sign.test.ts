@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.DASHBOARD_SESSION_SECRET = 'session-secret';
+
+// Loaded after the environment is set, as the configuration is read on import
+const adminAuth: typeof import('../../src/services/adminAuth') = require('../../src/services/adminAuth');
+const sign: typeof import('../../src/routes/sign') = require('../../src/routes/sign');
+
+const USER = { id: 583231, login: 'octocat', name: 'The Octocat', emails: ['octocat@github.com'] };
+
+describe('signing sessions', () => {
+  it('returns the GitHub user of a session it signed', () => {
+    assert.deepEqual(sign.verifySignSession(sign.createSignSession(USER)), USER);
+  });
+
+  it('rejects a session whose payload was changed', () => {
+    const [, signature] = sign.createSignSession(USER).split('.');
+    const payload = Buffer.from(JSON.stringify({ ...USER, id: 1, expiresAt: Date.now() + 60000 })).toString('base64url');
+    assert.equal(sign.verifySignSession(`${payload}.${signature}`), null);
+  });
+
+  it('rejects an expired, missing or malformed session', (t) => {
+    const session = sign.createSignSession(USER);
+    assert.equal(sign.verifySignSession(undefined), null);
+    assert.equal(sign.verifySignSession('octocat'), null);
+
+    t.mock.method(Date, 'now', () => new Date().getTime() + 60 * 60 * 1000 + 1);
+    assert.equal(sign.verifySignSession(session), null);
+  });
+
+  it('is never accepted as a dashboard session, and the other way round', () => {
+    assert.equal(adminAuth.verifySession(sign.createSignSession(USER)), null);
+    assert.equal(sign.verifySignSession(adminAuth.createSession('octocat')), null);
+  });
+
+  it('has CSRF tokens of its own', () => {
+    const session = sign.createSignSession(USER);
+    assert.equal(sign.getCsrfToken(session), sign.getCsrfToken(session));
+    assert.notEqual(sign.getCsrfToken(session), adminAuth.getCsrfToken(session));
+  });
+});
+
+describe('getReturnPath', () => {
+  it('only returns to a signing page', () => {
+    assert.equal(sign.getReturnPath('/sign?user=583231'), '/sign?user=583231');
+    assert.equal(sign.getReturnPath('/sign/callback?code=x'), '/sign');
+    assert.equal(sign.getReturnPath('https://evil.example/sign'), '/sign');
+    assert.equal(sign.getReturnPath('/dashboard'), '/sign');
+    assert.equal(sign.getReturnPath(undefined), '/sign');
+  });
+});
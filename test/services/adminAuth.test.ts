@@ -0,0 +1,63 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.DASHBOARD_SESSION_SECRET = 'session-secret';
+process.env.DASHBOARD_SESSION_TTL_HOURS = '8';
+
+// Loaded after the environment is set, as the configuration is read on import
+const { config }: typeof import('../../src/config') = require('../../src/config');
+const adminAuth: typeof import('../../src/services/adminAuth') = require('../../src/services/adminAuth');
+
+/**
+ * Replace the payload of a session, keeping its signature
+ */
+function withPayload(session: string, payload: unknown): string {
+  return `${Buffer.from(JSON.stringify(payload)).toString('base64url')}.${session.split('.')[1]}`;
+}
+
+describe('dashboard sessions', () => {
+  afterEach(() => {
+    config.admin.sessionSecret = 'session-secret';
+  });
+
+  it('returns the login of a session it signed', () => {
+    assert.equal(adminAuth.verifySession(adminAuth.createSession('octocat')), 'octocat');
+  });
+
+  it('rejects a session whose payload was changed', () => {
+    const session = adminAuth.createSession('octocat');
+    assert.equal(adminAuth.verifySession(withPayload(session, { login: 'admin', expiresAt: Date.now() + 60000 })), null);
+  });
+
+  it('rejects a session signed with another secret', () => {
+    const session = adminAuth.createSession('octocat');
+    config.admin.sessionSecret = 'rotated-secret';
+    assert.equal(adminAuth.verifySession(session), null);
+  });
+
+  it('rejects an expired session', (t) => {
+    const session = adminAuth.createSession('octocat');
+    t.mock.method(Date, 'now', () => new Date().getTime() + 8 * 60 * 60 * 1000 + 1);
+    assert.equal(adminAuth.verifySession(session), null);
+  });
+
+  it('rejects malformed values', () => {
+    assert.equal(adminAuth.verifySession(''), null);
+    assert.equal(adminAuth.verifySession('octocat'), null);
+    assert.equal(adminAuth.verifySession('.'), null);
+  });
+});
+
+describe('getCsrfToken', () => {
+  it('is tied to the session', () => {
+    const session = adminAuth.createSession('octocat');
+    assert.equal(adminAuth.getCsrfToken(session), adminAuth.getCsrfToken(session));
+    assert.notEqual(adminAuth.getCsrfToken(session), adminAuth.getCsrfToken(`${session}x`));
+  });
+
+  it('cannot be used as the signature of a session', () => {
+    const session = adminAuth.createSession('octocat');
+    const [payload] = session.split('.');
+    assert.equal(adminAuth.verifySession(`${payload}.${adminAuth.getCsrfToken(payload)}`), null);
+  });
+});
@@ -0,0 +1,75 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseSync } from 'node:sqlite';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cla-agreement-cleanup-'));
+process.env.DATABASE_PATH = path.join(dataDir, 'cla.db');
+
+// Loaded after the environment is set, as the configuration is read on import
+const db: typeof import('../../src/services/database') = require('../../src/services/database');
+
+/**
+ * Make the agreement of a contributor `days` old
+ */
+function backdate(githubUserId: number, days: number): void {
+  const raw = new DatabaseSync(process.env.DATABASE_PATH!);
+  raw.prepare(`UPDATE cla_records SET created_at = datetime('now', ?) WHERE github_user_id = ?`).run(`-${days} days`, githubUserId);
+  raw.close();
+}
+
+function pendingCLA(githubUserId: number, agreementUid: string, ageDays: number): void {
+  db.createCLARecord({
+    github_username: `user${githubUserId}`,
+    github_user_id: githubUserId,
+    github_email: `user${githubUserId}@example.com`,
+    concord_agreement_uid: agreementUid,
+    status: 'pending',
+  });
+  backdate(githubUserId, ageDays);
+}
+
+function openPR(githubUserId: number, prNumber: number): void {
+  db.createPRRecord({
+    repo_full_name: 'FiligranHQ/opencti',
+    pr_number: prNumber,
+    github_username: `user${githubUserId}`,
+    github_user_id: githubUserId,
+  });
+}
+
+describe('findAbandonedAgreements', () => {
+  before(() => {
+    db.initDatabase();
+  });
+
+  after(() => {
+    db.closeDatabase();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('lists the old pending agreements of contributors without open PRs, the oldest first', () => {
+    pendingCLA(1, 'agr-1', 40);
+    pendingCLA(2, 'agr-2', 90);
+    // Too recent
+    pendingCLA(3, 'agr-3', 10);
+    // Signed
+    pendingCLA(4, 'agr-4', 90);
+    db.updateCLAStatus(4, 'signed', new Date().toISOString());
+    // No agreement sent yet
+    pendingCLA(5, '', 90);
+
+    assert.deepEqual(db.findAbandonedAgreements('concord', 30).map((r) => r.concord_agreement_uid), ['agr-2', 'agr-1']);
+    assert.deepEqual(db.findAbandonedAgreements('clickthrough', 30), []);
+  });
+
+  it('keeps the agreement of a contributor with an open PR', () => {
+    openPR(1, 10);
+    assert.deepEqual(db.findAbandonedAgreements('concord', 30).map((r) => r.concord_agreement_uid), ['agr-2']);
+
+    db.updatePRRecordsState('FiligranHQ/opencti', 10, 'closed', new Date().toISOString());
+    assert.deepEqual(db.findAbandonedAgreements('concord', 30).map((r) => r.concord_agreement_uid), ['agr-2', 'agr-1']);
+  });
+});
@@ -0,0 +1,96 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseSync } from 'node:sqlite';
+import { ExpiringPRRecord } from '../../src/types';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cla-auto-close-'));
+process.env.DATABASE_PATH = path.join(dataDir, 'cla.db');
+
+// Loaded after the environment is set, as the configuration is read on import
+const db: typeof import('../../src/services/database') = require('../../src/services/database');
+const autoClose: typeof import('../../src/services/autoClose') = require('../../src/services/autoClose');
+
+const POLICY = { days: 30, warningDays: 7 };
+
+/**
+ * Move a date column `days` in the past, `sql` taking the offset then `params`
+ */
+function backdate(sql: string, days: number, ...params: Array<string | number>): void {
+  const raw = new DatabaseSync(process.env.DATABASE_PATH!);
+  raw.prepare(sql).run(`-${days} days`, ...params);
+  raw.close();
+}
+
+function openPR(repoFullName: string, prNumber: number, githubUserId: number, ageDays: number): void {
+  db.createPRRecord({
+    repo_full_name: repoFullName,
+    pr_number: prNumber,
+    github_username: `user${githubUserId}`,
+    github_user_id: githubUserId,
+  });
+  backdate(
+    `UPDATE pr_records SET created_at = datetime('now', ?) WHERE repo_full_name = ? AND pr_number = ? AND github_user_id = ?`,
+    ageDays, repoFullName, prNumber, githubUserId
+  );
+}
+
+function expiring(ageDays: number, warnedDays: number | null): ExpiringPRRecord {
+  return { age_days: ageDays, warned_days: warnedDays } as ExpiringPRRecord;
+}
+
+describe('findExpiringPullRequests', () => {
+  before(() => {
+    db.initDatabase();
+  });
+
+  after(() => {
+    db.closeDatabase();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('lists each open PR once, aged from its first contributor record', () => {
+    openPR('FiligranHQ/opencti', 1, 10, 5);
+    openPR('FiligranHQ/opencti', 1, 11, 12);
+    openPR('FiligranHQ/opencti', 2, 10, 20);
+    openPR('FiligranHQ/connectors', 3, 10, 1);
+    openPR('FiligranHQ/opencti', 4, 10, 40);
+    db.updatePRRecordsState('FiligranHQ/opencti', 4, 'merged', new Date().toISOString(), new Date().toISOString());
+
+    const prs = db.findExpiringPullRequests();
+    assert.deepEqual(prs.map((pr) => [pr.repo_full_name, pr.pr_number]), [
+      ['FiligranHQ/connectors', 3],
+      ['FiligranHQ/opencti', 2],
+      ['FiligranHQ/opencti', 1],
+    ]);
+    assert.deepEqual(prs.map((pr) => Math.round(pr.age_days)), [1, 20, 12]);
+    assert.deepEqual(prs.map((pr) => pr.warned_days), [null, null, null]);
+  });
+
+  it('gives the days since the final warning', () => {
+    db.markPRExpirationWarned('FiligranHQ/opencti', 2);
+    backdate(`UPDATE pr_expirations SET warned_at = datetime('now', ?) WHERE pr_number = ?`, 3, 2);
+
+    const pr = db.findExpiringPullRequests().find((p) => p.pr_number === 2);
+    assert.equal(Math.round(pr!.warned_days!), 3);
+  });
+});
+
+describe('getDueAction', () => {
+  it('warns once the PR is pending for the delay minus the warning days', () => {
+    assert.equal(autoClose.getDueAction(expiring(22.9, null), POLICY), undefined);
+    assert.equal(autoClose.getDueAction(expiring(23, null), POLICY), 'warn');
+    assert.equal(autoClose.getDueAction(expiring(45, null), POLICY), 'warn');
+  });
+
+  it('closes once the delay is over and the warning is old enough', () => {
+    assert.equal(autoClose.getDueAction(expiring(29, 6), POLICY), undefined);
+    assert.equal(autoClose.getDueAction(expiring(30, 7), POLICY), 'close');
+  });
+
+  it('leaves the contributor the full warning period after a late warning', () => {
+    assert.equal(autoClose.getDueAction(expiring(45, 1), POLICY), undefined);
+  });
+});
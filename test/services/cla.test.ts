@@ -0,0 +1,210 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Octokit } from '@octokit/rest';
+import { CLASigner, ConcordAgreement } from '../../src/types';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cla-signers-'));
+process.env.DATABASE_PATH = path.join(dataDir, 'cla.db');
+process.env.CONCORD_TEMPLATE_ID = 'tpl-1';
+
+// Loaded after the environment is set, as the configuration is read on import
+const db: typeof import('../../src/services/database') = require('../../src/services/database');
+const concordService: typeof import('../../src/services/concord') = require('../../src/services/concord');
+const repoConfigService: typeof import('../../src/services/repoConfig') = require('../../src/services/repoConfig');
+const claService: typeof import('../../src/services/cla') = require('../../src/services/cla');
+
+const REPO = 'FiligranHQ/opencti';
+const octokit = {} as Octokit;
+
+let concordSigned: ConcordAgreement | null;
+let failCreation: boolean;
+let created: string[];
+let cancelled: string[];
+
+concordService.findExistingCLA = async () => concordSigned;
+concordService.createSharedLink = async (agreementUid) => `https://concord.test/${agreementUid}`;
+concordService.createAgreementFromTemplate = async (email) => {
+  if (failCreation) {
+    throw new Error('Concord is down');
+  }
+  created.push(email);
+  return { agreementUid: `agr-new-${created.length}` };
+};
+concordService.cancelAgreement = async (agreementUid) => {
+  cancelled.push(agreementUid);
+};
+
+function signer(id: number): CLASigner {
+  return {
+    githubUserId: id,
+    githubUsername: `user${id}`,
+    name: `User ${id}`,
+    emails: [`user${id}@example.com`],
+    roles: ['pr_author'],
+  };
+}
+
+function resolve(id: number) {
+  return claService.resolveSignerAgreement(octokit, REPO, id, signer(id), repoConfigService.getDefaultRepoConfig());
+}
+
+before(() => {
+  db.initDatabase();
+});
+
+after(() => {
+  db.closeDatabase();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('getResignVersion', () => {
+  it('only asks to sign again once a version requiring it took effect', () => {
+    assert.equal(db.findCLAVersionAt()?.version, '1');
+    assert.equal(claService.getResignVersion('1'), undefined);
+
+    db.createCLAVersion({ version: '2', template_id: 'tpl-2', effective_date: '2024-01-01T00:00:00.000Z', resign_policy: 'keep' });
+    assert.equal(claService.getResignVersion('1'), undefined);
+
+    db.createCLAVersion({ version: '3', template_id: 'tpl-3', effective_date: '2025-01-01T00:00:00.000Z', resign_policy: 'resign' });
+    assert.equal(claService.getResignVersion('1')?.version, '3');
+    assert.equal(claService.getResignVersion('2')?.version, '3');
+    assert.equal(claService.getResignVersion('3'), undefined);
+  });
+
+  it('ignores a version that has not taken effect yet', () => {
+    db.createCLAVersion({ version: '4', template_id: 'tpl-4', effective_date: '2999-01-01T00:00:00.000Z', resign_policy: 'resign' });
+    assert.equal(db.findCLAVersionAt()?.version, '3');
+    assert.equal(claService.getResignVersion('3'), undefined);
+  });
+
+  it('asks agreements without a known version to be signed again', () => {
+    assert.equal(claService.getResignVersion(undefined)?.version, '3');
+    assert.equal(claService.getResignVersion('0.9')?.version, '3');
+  });
+});
+
+describe('resolveSignerAgreement', () => {
+  beforeEach(() => {
+    concordSigned = null;
+    failCreation = false;
+    created = [];
+    cancelled = [];
+  });
+
+  it('keeps a CLA signed for the current version and tracks the PR', async () => {
+    db.createCLARecord({
+      github_username: 'user10', github_user_id: 10, concord_agreement_uid: 'agr-10', status: 'signed',
+      signed_at: '2025-02-01T00:00:00.000Z', cla_version: '3',
+    });
+
+    const result = await resolve(10);
+
+    assert.equal(result.state, 'signed');
+    assert.equal(result.agreementUid, 'agr-10');
+    assert.equal(db.findPRRecord(REPO, 10, 10)?.concord_agreement_uid, 'agr-10');
+    assert.deepEqual(created, []);
+  });
+
+  it('asks to sign again a CLA signed before a version requiring it', async () => {
+    db.createCLARecord({
+      github_username: 'user11', github_user_id: 11, concord_agreement_uid: 'agr-11', status: 'signed',
+      signed_at: '2023-06-01T00:00:00.000Z', cla_version: '1',
+    });
+
+    const result = await resolve(11);
+
+    assert.equal(result.state, 'pending');
+    assert.equal(result.agreementUid, 'agr-new-1');
+    assert.equal(result.reason, 'CLA updated to version 3');
+    assert.equal(result.resign?.previousVersion, '1');
+    assert.deepEqual(created, ['user11@example.com']);
+
+    const record = db.findCLAByGitHubUserId(11);
+    assert.equal(record?.status, 'pending');
+    assert.equal(record?.concord_agreement_uid, 'agr-new-1');
+    assert.equal(record?.cla_version, '3');
+    assert.equal(record?.previous_cla_version, '1');
+  });
+
+  it('reuses a pending agreement for the current version', async () => {
+    db.createCLARecord({
+      github_username: 'user12', github_user_id: 12, github_email: 'user12@example.com',
+      concord_agreement_uid: 'agr-12', status: 'pending', cla_version: '3',
+    });
+
+    const result = await resolve(12);
+
+    assert.equal(result.state, 'pending');
+    assert.equal(result.agreementUid, 'agr-12');
+    assert.equal(result.signingUrl, 'https://concord.test/agr-12');
+    assert.deepEqual(created, []);
+  });
+
+  it('records a signed agreement found in Concord with the version in effect when signed', async () => {
+    concordSigned = { uid: 'agr-13', title: 'Filigran CLA - user13', status: 'CURRENT_CONTRACT', signatureDate: Date.parse('2025-03-01') };
+
+    const result = await resolve(13);
+
+    assert.equal(result.state, 'signed');
+    const record = db.findCLAByGitHubUserId(13);
+    assert.equal(record?.status, 'signed');
+    assert.equal(record?.concord_agreement_uid, 'agr-13');
+    assert.equal(record?.cla_version, '3');
+    assert.deepEqual(created, []);
+  });
+
+  it('ignores a Concord agreement signed for a version that has to be signed again', async () => {
+    concordSigned = { uid: 'agr-14', title: 'Filigran CLA - user14', status: 'CURRENT_CONTRACT', signatureDate: Date.parse('2024-06-01') };
+
+    const result = await resolve(14);
+
+    assert.equal(result.state, 'pending');
+    assert.equal(db.findCLAByGitHubUserId(14)?.concord_agreement_uid, 'agr-new-1');
+  });
+
+  it('never trusts the agreement of a revoked CLA again', async () => {
+    db.createCLARecord({
+      github_username: 'user15', github_user_id: 15, concord_agreement_uid: 'agr-15', status: 'cancelled',
+      signed_at: '2025-02-01T00:00:00.000Z', cla_version: '3',
+    });
+    concordSigned = { uid: 'agr-15', title: 'Filigran CLA - user15', status: 'CURRENT_CONTRACT', signatureDate: Date.parse('2025-02-01') };
+
+    const result = await resolve(15);
+
+    assert.equal(result.state, 'pending');
+    assert.equal(result.reason, 'previous agreement cancelled');
+    assert.equal(result.resign, undefined);
+    assert.equal(db.findCLAByGitHubUserId(15)?.concord_agreement_uid, 'agr-new-1');
+  });
+
+  it('cancels a pending agreement for an outdated version once it is replaced', async () => {
+    db.createCLARecord({
+      github_username: 'user17', github_user_id: 17, github_email: 'user17@example.com',
+      concord_agreement_uid: 'agr-17', status: 'pending', cla_version: '1',
+    });
+
+    const result = await resolve(17);
+
+    assert.equal(result.agreementUid, 'agr-new-1');
+    assert.deepEqual(cancelled, ['agr-17']);
+    const [entry] = db.listAuditEntries('user:user17');
+    assert.equal(entry.action, 'cancel_agreement');
+    const details = JSON.parse(entry.details!);
+    assert.equal(details.agreementUid, 'agr-17');
+    assert.equal(details.reason, 'superseded');
+    assert.equal(details.replacedBy, 'agr-new-1');
+  });
+
+  it('releases the creation claim when the agreement cannot be created', async () => {
+    failCreation = true;
+
+    const result = await resolve(16);
+
+    assert.equal(result.state, 'error');
+    assert.equal(db.findCLAByGitHubUserId(16), undefined);
+    assert.ok(db.findPRRecord(REPO, 16, 16));
+  });
+});
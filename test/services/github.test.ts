@@ -0,0 +1,211 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Octokit } from '@octokit/rest';
+import { PullRequest } from '../../src/types';
+import { getPRSigners, parseCoAuthors } from '../../src/services/github';
+
+interface FakeAccount {
+  id: number;
+  login: string;
+  type?: string;
+}
+
+interface FakeCommit {
+  author?: FakeAccount | null;
+  committer?: FakeAccount | null;
+  gitAuthor: { name: string; email: string };
+  gitCommitter?: { name: string; email: string };
+  message?: string;
+}
+
+const WEB_FLOW: FakeAccount = { id: 19864447, login: 'web-flow', type: 'User' };
+
+/**
+ * Octokit answering the commit list of a PR and the user lookups, with the
+ * accounts known by ID and the ones the email search finds
+ */
+function fakeOctokit(
+  commits: FakeCommit[],
+  accounts: FakeAccount[] = [],
+  searchResults: Record<string, FakeAccount[]> = {}
+): Octokit {
+  const listCommits = () => undefined;
+  const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+
+  return {
+    paginate: async (method: unknown) => {
+      assert.equal(method, listCommits);
+      return commits.map((c) => ({
+        author: c.author ?? null,
+        committer: c.committer === undefined ? WEB_FLOW : c.committer,
+        commit: {
+          author: c.gitAuthor,
+          committer: c.gitCommitter ?? { name: 'GitHub', email: 'noreply@github.com' },
+          message: c.message ?? 'Commit',
+        },
+      }));
+    },
+    pulls: { listCommits },
+    users: {
+      getById: async ({ account_id }: { account_id: number }) => {
+        const account = accounts.find((a) => a.id === account_id);
+        if (!account) throw notFound();
+        return { data: account };
+      },
+      getByUsername: async ({ username }: { username: string }) => {
+        const account = accounts.find((a) => a.login.toLowerCase() === username.toLowerCase());
+        if (!account) throw notFound();
+        return { data: account };
+      },
+    },
+    search: {
+      users: async ({ q }: { q: string }) => {
+        const items = searchResults[q.replace(/ in:email$/, '')] ?? [];
+        return { data: { total_count: items.length, items } };
+      },
+    },
+  } as unknown as Octokit;
+}
+
+const pr = {
+  number: 42,
+  user: { id: 1, login: 'alice', name: 'Alice' },
+} as PullRequest;
+
+describe('parseCoAuthors', () => {
+  it('reads every Co-authored-by trailer, whatever its case', () => {
+    const message = [
+      'Fix the parser',
+      '',
+      'Co-authored-by: Bob Smith <Bob@Example.com>',
+      'co-authored-by:Carol <carol@example.com>  ',
+    ].join('\n');
+
+    assert.deepEqual(parseCoAuthors(message), [
+      { name: 'Bob Smith', email: 'bob@example.com' },
+      { name: 'Carol', email: 'carol@example.com' },
+    ]);
+  });
+
+  it('ignores trailers without an email or not starting a line', () => {
+    assert.deepEqual(parseCoAuthors('Co-authored-by: Bob\nThanks, Co-authored-by: Carol <carol@example.com>'), []);
+  });
+});
+
+describe('getPRSigners', () => {
+  it('merges the roles of an account and skips the web-flow committer', async () => {
+    const octokit = fakeOctokit([
+      { author: { id: 1, login: 'alice' }, gitAuthor: { name: 'Alice', email: 'Alice@example.com' } },
+    ]);
+
+    assert.deepEqual(await getPRSigners(octokit, 'FiligranHQ', 'repo', pr), [
+      { githubUserId: 1, githubUsername: 'alice', name: 'Alice', emails: ['alice@example.com'], roles: ['pr_author', 'commit_author'] },
+    ]);
+  });
+
+  it('requires the committer of a commit pushed by someone else', async () => {
+    const octokit = fakeOctokit([
+      {
+        author: { id: 1, login: 'alice' },
+        committer: { id: 2, login: 'bob' },
+        gitAuthor: { name: 'Alice', email: 'alice@example.com' },
+        gitCommitter: { name: 'Bob', email: 'bob@example.com' },
+      },
+    ]);
+
+    const signers = await getPRSigners(octokit, 'FiligranHQ', 'repo', pr);
+    assert.deepEqual(signers.map((s) => [s.githubUsername, s.roles]), [
+      ['alice', ['pr_author', 'commit_author']],
+      ['bob', ['committer']],
+    ]);
+  });
+
+  it('skips bot authors, committers and co-authors', async () => {
+    const octokit = fakeOctokit(
+      [
+        {
+          author: { id: 3, login: 'dependabot[bot]', type: 'Bot' },
+          committer: { id: 4, login: 'renovate[bot]', type: 'Bot' },
+          gitAuthor: { name: 'dependabot[bot]', email: '49699333+dependabot[bot]@users.noreply.github.com' },
+          message: 'Bump\n\nCo-authored-by: dependabot[bot] <49699333+dependabot[bot]@users.noreply.github.com>',
+        },
+      ],
+      [{ id: 49699333, login: 'dependabot[bot]', type: 'Bot' }]
+    );
+
+    assert.deepEqual((await getPRSigners(octokit, 'FiligranHQ', 'repo', pr)).map((s) => s.githubUsername), ['alice']);
+  });
+
+  it('resolves noreply co-author emails by account ID, whatever login they name', async () => {
+    const octokit = fakeOctokit(
+      [
+        {
+          author: { id: 1, login: 'alice' },
+          gitAuthor: { name: 'Alice', email: 'alice@example.com' },
+          message: 'Pair\n\nCo-authored-by: Bob <5+bob-old-login@users.noreply.github.com>',
+        },
+      ],
+      [{ id: 5, login: 'bob' }]
+    );
+
+    const [, coAuthor] = await getPRSigners(octokit, 'FiligranHQ', 'repo', pr);
+    assert.equal(coAuthor.githubUserId, 5);
+    assert.equal(coAuthor.githubUsername, 'bob');
+    assert.deepEqual(coAuthor.roles, ['co_author']);
+  });
+
+  it('does not trust a noreply email naming an unknown account', async () => {
+    const octokit = fakeOctokit([
+      {
+        author: { id: 1, login: 'alice' },
+        gitAuthor: { name: 'Alice', email: 'alice@example.com' },
+        message: 'Pair\n\nCo-authored-by: Mallory <999+alice@users.noreply.github.com>',
+      },
+    ]);
+
+    const [, coAuthor] = await getPRSigners(octokit, 'FiligranHQ', 'repo', pr);
+    assert.equal(coAuthor.githubUserId, undefined);
+    assert.deepEqual(coAuthor.emails, ['999+alice@users.noreply.github.com']);
+  });
+
+  it('only links other emails found for a single account', async () => {
+    const octokit = fakeOctokit(
+      [
+        {
+          author: { id: 1, login: 'alice' },
+          gitAuthor: { name: 'Alice', email: 'alice@example.com' },
+          message: [
+            'Pair',
+            '',
+            'Co-authored-by: Carol <carol@example.com>',
+            'Co-authored-by: Dave <dave@example.com>',
+            'Co-authored-by: Erin <erin@example.com>',
+          ].join('\n'),
+        },
+      ],
+      [],
+      {
+        'carol@example.com': [{ id: 6, login: 'carol' }],
+        'dave@example.com': [{ id: 7, login: 'dave' }, { id: 8, login: 'dave2' }],
+      }
+    );
+
+    const signers = await getPRSigners(octokit, 'FiligranHQ', 'repo', pr);
+    assert.deepEqual(signers.map((s) => [s.githubUsername, s.name, s.emails]), [
+      ['alice', 'Alice', ['alice@example.com']],
+      ['carol', 'Carol', ['carol@example.com']],
+      [undefined, 'Dave', ['dave@example.com']],
+      [undefined, 'Erin', ['erin@example.com']],
+    ]);
+  });
+
+  it('drops an unlinked email that another commit links to an account', async () => {
+    const octokit = fakeOctokit([
+      { author: null, gitAuthor: { name: 'Alice (laptop)', email: 'alice@example.com' } },
+      { author: { id: 1, login: 'alice' }, gitAuthor: { name: 'Alice', email: 'alice@example.com' } },
+    ]);
+
+    const signers = await getPRSigners(octokit, 'FiligranHQ', 'repo', pr);
+    assert.deepEqual(signers.map((s) => s.githubUsername), ['alice']);
+  });
+});
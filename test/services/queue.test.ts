@@ -0,0 +1,117 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseSync } from 'node:sqlite';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cla-queue-'));
+process.env.DATABASE_PATH = path.join(dataDir, 'cla.db');
+process.env.QUEUE_POLL_INTERVAL_MS = '10';
+process.env.QUEUE_MAX_ATTEMPTS = '3';
+process.env.QUEUE_RETRY_BASE_DELAY_SECONDS = '10';
+process.env.QUEUE_RETRY_MAX_DELAY_SECONDS = '60';
+
+// Loaded after the environment is set, as the configuration is read on import
+const db: typeof import('../../src/services/database') = require('../../src/services/database');
+const queue: typeof import('../../src/services/queue') = require('../../src/services/queue');
+
+/**
+ * Wait until `condition` holds, polling every few milliseconds
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for the queue');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Make a retried event due right away instead of after its backoff
+ */
+function makeDue(id: number): void {
+  const raw = new DatabaseSync(process.env.DATABASE_PATH!);
+  raw.prepare(`UPDATE webhook_events SET next_attempt_at = datetime('now', '-1 second') WHERE id = ?`).run(id);
+  raw.close();
+}
+
+describe('getRetryDelaySeconds', () => {
+  it('doubles the base delay after each attempt', () => {
+    assert.deepEqual([1, 2, 3].map(queue.getRetryDelaySeconds), [10, 20, 40]);
+  });
+
+  it('is capped at the maximum delay', () => {
+    assert.equal(queue.getRetryDelaySeconds(4), 60);
+    assert.equal(queue.getRetryDelaySeconds(20), 60);
+  });
+
+  it('uses the base delay for the first attempt', () => {
+    assert.equal(queue.getRetryDelaySeconds(0), 10);
+  });
+});
+
+describe('webhook queue worker', () => {
+  const calls: string[] = [];
+  let failures = 0;
+
+  before(() => {
+    db.initDatabase();
+    queue.registerHandler('github', async (eventType, payload) => {
+      calls.push(eventType);
+      if ((payload as { fail?: boolean }).fail) {
+        failures++;
+        throw new Error('handler failed');
+      }
+    });
+    queue.startWorker();
+  });
+
+  after(() => {
+    queue.stopWorker();
+    db.closeDatabase();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('processes a queued event once and ignores a duplicate delivery', async () => {
+    assert.equal(queue.enqueue('github', 'pull_request', 'delivery-1', {}), true);
+    assert.equal(queue.enqueue('github', 'pull_request', 'delivery-1', {}), false);
+
+    await waitFor(() => db.listWebhookEvents('done').length === 1);
+    assert.deepEqual(calls, ['pull_request']);
+  });
+
+  it('retries a failed event after a backoff', async () => {
+    queue.enqueue('github', 'issue_comment', 'delivery-2', { fail: true });
+    await waitFor(() => failures === 1);
+
+    const [event] = db.listWebhookEvents('pending');
+    assert.equal(event.delivery_id, 'delivery-2');
+    assert.equal(event.attempts, 1);
+    assert.equal(event.last_error, 'handler failed');
+    const delaySeconds = (Date.parse(`${event.next_attempt_at.replace(' ', 'T')}Z`) - Date.now()) / 1000;
+    assert.ok(delaySeconds > 5 && delaySeconds <= 10, `retried in ${delaySeconds}s`);
+  });
+
+  it('moves an event to the dead-letter state after the last attempt', async () => {
+    const id = db.listWebhookEvents('pending')[0].id!;
+    makeDue(id);
+    await waitFor(() => failures === 2);
+    makeDue(id);
+    await waitFor(() => db.listWebhookEvents('dead').length === 1);
+
+    const [event] = db.listWebhookEvents('dead');
+    assert.equal(event.attempts, 3);
+    assert.equal(failures, 3);
+    assert.equal(db.listWebhookEvents('pending').length, 0);
+  });
+
+  it('processes a dead event again once it is re-driven', async () => {
+    const id = db.listWebhookEvents('dead')[0].id!;
+    assert.equal(db.redriveWebhookEvent(id), true);
+    await waitFor(() => failures === 4);
+    assert.equal(db.findWebhookEventById(id)?.status, 'pending');
+  });
+});
@@ -0,0 +1,99 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseSync } from 'node:sqlite';
+import { PendingCLAReminder } from '../../src/types';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cla-reminders-'));
+process.env.DATABASE_PATH = path.join(dataDir, 'cla.db');
+process.env.CLA_REMINDER_DAYS = '3,7,14';
+
+// Loaded after the environment is set, as the configuration is read on import
+const db: typeof import('../../src/services/database') = require('../../src/services/database');
+const reminders: typeof import('../../src/services/reminders') = require('../../src/services/reminders');
+
+/**
+ * Make the agreement of a contributor `days` old
+ */
+function backdate(githubUserId: number, days: number): void {
+  const raw = new DatabaseSync(process.env.DATABASE_PATH!);
+  raw.prepare(`UPDATE cla_records SET created_at = datetime('now', ?) WHERE github_user_id = ?`).run(`-${days} days`, githubUserId);
+  raw.close();
+}
+
+function pendingCLA(githubUserId: number, agreementUid: string, ageDays: number): void {
+  db.createCLARecord({
+    github_username: `user${githubUserId}`,
+    github_user_id: githubUserId,
+    github_email: `user${githubUserId}@example.com`,
+    concord_agreement_uid: agreementUid,
+    status: 'pending',
+  });
+  backdate(githubUserId, ageDays);
+}
+
+function reminder(ageDays: number, lastReminderDays: number | null): PendingCLAReminder {
+  return { age_days: ageDays, last_reminder_days: lastReminderDays } as PendingCLAReminder;
+}
+
+describe('findPendingCLAReminders', () => {
+  before(() => {
+    db.initDatabase();
+  });
+
+  after(() => {
+    db.closeDatabase();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('lists the pending agreements of a provider, the oldest first, with their age', () => {
+    pendingCLA(1, 'agr-1', 2);
+    pendingCLA(2, 'agr-2', 10);
+    pendingCLA(3, 'agr-3', 20);
+    db.updateCLAStatus(3, 'signed', new Date().toISOString());
+    // Waiting for the contributor to choose an email on the signing page: no invitation to resend
+    pendingCLA(4, '', 20);
+
+    const pending = db.findPendingCLAReminders('concord');
+    assert.deepEqual(pending.map((p) => p.concord_agreement_uid), ['agr-2', 'agr-1']);
+    assert.equal(Math.round(pending[0].age_days), 10);
+    assert.equal(pending[0].last_reminder_days, null);
+    assert.deepEqual(db.findPendingCLAReminders('clickthrough'), []);
+  });
+
+  it('gives the last reminder sent for each agreement', () => {
+    assert.equal(db.claimCLAReminder({ agreement_uid: 'agr-2', github_user_id: 2, days: 3 }), true);
+    assert.equal(db.claimCLAReminder({ agreement_uid: 'agr-2', github_user_id: 2, days: 7 }), true);
+    assert.equal(db.claimCLAReminder({ agreement_uid: 'agr-2', github_user_id: 2, days: 7 }), false);
+
+    const [pending] = db.findPendingCLAReminders('concord');
+    assert.equal(pending.last_reminder_days, 7);
+  });
+
+  it('forgets a released reminder', () => {
+    db.releaseCLAReminder('agr-2', 7);
+
+    const [pending] = db.findPendingCLAReminders('concord');
+    assert.equal(pending.last_reminder_days, 3);
+  });
+});
+
+describe('getDueReminderDays', () => {
+  it('waits for the first day of the schedule', () => {
+    assert.equal(reminders.getDueReminderDays(reminder(2.9, null)), undefined);
+    assert.equal(reminders.getDueReminderDays(reminder(3, null)), 3);
+  });
+
+  it('sends each reminder of the schedule once', () => {
+    assert.equal(reminders.getDueReminderDays(reminder(5, 3)), undefined);
+    assert.equal(reminders.getDueReminderDays(reminder(7.5, 3)), 7);
+    assert.equal(reminders.getDueReminderDays(reminder(30, 14)), undefined);
+  });
+
+  it('only sends the latest of several missed reminders', () => {
+    assert.equal(reminders.getDueReminderDays(reminder(15, null)), 14);
+    assert.equal(reminders.getDueReminderDays(reminder(15, 3)), 14);
+  });
+});
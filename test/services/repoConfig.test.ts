@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isBranchIgnored, parseRepoConfig, RepoConfigError } from '../../src/services/repoConfig';
+
+const SOURCE = 'FiligranHQ/opencti/.github/cla.yml';
+
+/**
+ * Problems reported for an invalid file
+ */
+function problemsOf(content: string): string[] {
+  try {
+    parseRepoConfig(content, SOURCE);
+  } catch (error) {
+    assert.ok(error instanceof RepoConfigError);
+    assert.equal(error.source, SOURCE);
+    return error.problems;
+  }
+  assert.fail('the configuration was accepted');
+}
+
+describe('parseRepoConfig', () => {
+  it('uses the global settings for an empty file', () => {
+    const repoConfig = parseRepoConfig('', SOURCE);
+
+    assert.equal(repoConfig.source, SOURCE);
+    assert.deepEqual(repoConfig.exempt, { users: [], teams: [] });
+    assert.deepEqual(repoConfig.label, { name: 'cla:pending', color: 'fbca04', description: 'CLA signature required' });
+    assert.deepEqual(repoConfig.ignoredBranches, []);
+    assert.equal(repoConfig.drafts, 'check');
+  });
+
+  it('reads every setting', () => {
+    const repoConfig = parseRepoConfig(`
+exempt:
+  users: [" OctoCat ", dependabot]
+  teams: [FiligranHQ/core]
+label:
+  name: needs-cla
+  color: "#FF0000"
+  description: Sign the CLA
+ignored_branches: ["release/*"]
+drafts: skip
+concord:
+  template_id: " tpl-1 "
+`, SOURCE);
+
+    assert.deepEqual(repoConfig.exempt, { users: ['octocat', 'dependabot'], teams: ['FiligranHQ/core'] });
+    assert.deepEqual(repoConfig.label, { name: 'needs-cla', color: 'FF0000', description: 'Sign the CLA' });
+    assert.deepEqual(repoConfig.ignoredBranches, ['release/*']);
+    assert.equal(repoConfig.drafts, 'skip');
+    assert.equal(repoConfig.concord.templateId, 'tpl-1');
+  });
+
+  it('accepts a label given by its name only', () => {
+    assert.deepEqual(parseRepoConfig('label: needs-cla', SOURCE).label, {
+      name: 'needs-cla',
+      color: 'fbca04',
+      description: 'CLA signature required',
+    });
+  });
+
+  it('reports every problem of an invalid file at once', () => {
+    assert.deepEqual(problemsOf(`
+exempt:
+  users: octocat
+  groups: []
+label:
+  color: red
+drafts: never
+ignored_branches: [""]
+concord:
+  template_id: 12
+unknown: true
+`), [
+      'unknown key "unknown"',
+      'unknown key "exempt.groups"',
+      '"exempt.users" must be a list of GitHub usernames',
+      '"label.color" must be a 6-digit hex color',
+      '"ignored_branches" must be a list of branch names or glob patterns',
+      '"drafts" must be "check" or "skip"',
+      '"concord.template_id" must be a non-empty string',
+    ]);
+  });
+
+  it('reads the language and validated message templates', () => {
+    const repoConfig = parseRepoConfig(`
+language: fr
+templates:
+  comment_signed: "Merci {{#signers}}@{{login}} {{/signers}}!"
+`, SOURCE);
+
+    assert.equal(repoConfig.language, 'fr');
+    assert.deepEqual(repoConfig.templates, { comment_signed: 'Merci {{#signers}}@{{login}} {{/signers}}!' });
+    assert.deepEqual(problemsOf('language: french\ntemplates:\n  comment_unknown: x\n  comment_pending: "{{#open}}"'), [
+      '"language" must be a language code such as "en" or "fr"',
+      'unknown key "templates.comment_unknown"',
+      '"templates.comment_pending" is not a valid template: unclosed section {{#open}}',
+    ]);
+  });
+
+  it('reads auto_close, with a final warning 7 days before by default', () => {
+    assert.equal(parseRepoConfig('', SOURCE).autoClose, undefined);
+    assert.deepEqual(parseRepoConfig('auto_close:\n  days: 30', SOURCE).autoClose, { days: 30, warningDays: 7 });
+    assert.deepEqual(parseRepoConfig('auto_close:\n  days: 5', SOURCE).autoClose, { days: 5, warningDays: 4 });
+    assert.deepEqual(parseRepoConfig('auto_close:\n  days: 30\n  warning_days: 2', SOURCE).autoClose, { days: 30, warningDays: 2 });
+  });
+
+  it('rejects an auto_close delay too short for its warning', () => {
+    assert.deepEqual(problemsOf('auto_close:\n  days: 1'), ['"auto_close.days" must be a number of days, at least 2']);
+    assert.deepEqual(problemsOf('auto_close:\n  days: 10\n  warning_days: 10'), [
+      '"auto_close.warning_days" must be a number of days lower than "auto_close.days"',
+    ]);
+    assert.deepEqual(problemsOf('auto_close: 30'), ['"auto_close" must be a mapping with "days" and optionally "warning_days"']);
+  });
+
+  it('rejects a file that is not a mapping or not valid YAML', () => {
+    assert.deepEqual(problemsOf('- exempt'), ['the file must contain a mapping']);
+    assert.match(problemsOf('exempt: [')[0], /^YAML syntax error: /);
+  });
+});
+
+describe('isBranchIgnored', () => {
+  const repoConfig = parseRepoConfig('ignored_branches: [main-backport, "release/*", "docs/**"]', SOURCE);
+
+  it('matches branch names and glob patterns', () => {
+    assert.equal(isBranchIgnored(repoConfig, 'main-backport'), true);
+    assert.equal(isBranchIgnored(repoConfig, 'release/6.0'), true);
+    assert.equal(isBranchIgnored(repoConfig, 'docs/api/v1'), true);
+  });
+
+  it('keeps "*" within a path segment and escapes other characters', () => {
+    assert.equal(isBranchIgnored(repoConfig, 'release/6.0/hotfix'), false);
+    assert.equal(isBranchIgnored(repoConfig, 'main'), false);
+    assert.equal(isBranchIgnored(parseRepoConfig('ignored_branches: ["v1.0"]', SOURCE), 'v100'), false);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { withLock } from '../../src/utils/lock';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('withLock', () => {
+  it('runs callers on the same key one after the other, in call order', async () => {
+    const events: string[] = [];
+    const run = (name: string) => withLock('signer:1', async () => {
+      events.push(`${name} start`);
+      await tick();
+      events.push(`${name} end`);
+      return name;
+    });
+
+    assert.deepEqual(await Promise.all([run('a'), run('b'), run('c')]), ['a', 'b', 'c']);
+    assert.deepEqual(events, ['a start', 'a end', 'b start', 'b end', 'c start', 'c end']);
+  });
+
+  it('lets callers on different keys run concurrently', async () => {
+    const events: string[] = [];
+    const run = (key: string) => withLock(key, async () => {
+      events.push(`${key} start`);
+      await tick();
+      events.push(`${key} end`);
+    });
+
+    await Promise.all([run('signer:2'), run('signer:3')]);
+    assert.deepEqual(events, ['signer:2 start', 'signer:3 start', 'signer:2 end', 'signer:3 end']);
+  });
+
+  it('releases the lock when the callback throws', async () => {
+    await assert.rejects(withLock('signer:4', async () => {
+      throw new Error('boom');
+    }), /boom/);
+    assert.equal(await withLock('signer:4', async () => 'next'), 'next');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { escapeTemplateHtml, renderTemplate, TemplateError } from '../../src/utils/template';
+
+const UNSAFE = `<a href="x" onclick='y'>&</a>`;
+
+describe('renderTemplate', () => {
+  it('escapes {{name}} values', () => {
+    assert.equal(renderTemplate('Hi {{name}}', { name: UNSAFE }), `Hi ${escapeTemplateHtml(UNSAFE)}`);
+    assert.equal(escapeTemplateHtml(UNSAFE), '&lt;a href=&quot;x&quot; onclick=&#39;y&#39;&gt;&amp;&lt;/a&gt;');
+  });
+
+  it('keeps {{{name}}} and {{& name}} values raw', () => {
+    assert.equal(renderTemplate('{{{name}}}', { name: UNSAFE }), UNSAFE);
+    assert.equal(renderTemplate('{{& name}}', { name: UNSAFE }), UNSAFE);
+  });
+
+  it('escapes with the given function, e.g. none for plain-text emails', () => {
+    assert.equal(renderTemplate('{{name}}', { name: UNSAFE }, (v) => v), UNSAFE);
+    assert.equal(renderTemplate('{{name}}', { name: 'a*b' }, (v) => v.replace(/\*/g, '\\*')), 'a\\*b');
+  });
+
+  it('escapes values inside sections and dotted names', () => {
+    assert.equal(
+      renderTemplate('{{#signers}}{{login}} {{/signers}}{{repo.name}}', {
+        signers: [{ login: '<b>' }, { login: 'ok' }],
+        repo: { name: '"r"' },
+      }),
+      '&lt;b&gt; ok &quot;r&quot;'
+    );
+  });
+
+  it('does not escape the template text itself', () => {
+    assert.equal(renderTemplate('<b>{{name}}</b>', { name: '<i>' }), '<b>&lt;i&gt;</b>');
+  });
+
+  it('renders missing values and prototype properties as empty', () => {
+    assert.equal(renderTemplate('[{{missing}}][{{constructor}}][{{{__proto__}}}]', {}), '[][][]');
+  });
+
+  it('throws a TemplateError on an unclosed section', () => {
+    assert.throws(() => renderTemplate('{{#open}}x', { open: true }), TemplateError);
+  });
+});